@@ -1,10 +1,20 @@
 const repo = "forms-for-devs";
 const isProd = process.env.NODE_ENV === "production";
 
+// Production builds are static exports for GitHub Pages unless FFD_SERVER=1
+// (a Node build for `next start`). Static exports can't serve the submission
+// API, so its route handlers use a `.api.ts` extension that is only routed
+// in server builds and in development.
+const isStaticExport = isProd && process.env.FFD_SERVER !== "1";
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  pageExtensions: isStaticExport ? ["tsx", "ts", "jsx", "js"] : ["tsx", "ts", "jsx", "js", "api.ts"],
+  env: {
+    FFD_SUBMISSION_API: isStaticExport ? "off" : "on",
+  },
   // Only use export/basePath/assetPrefix when building for GitHub Pages.
-  ...(isProd
+  ...(isStaticExport
     ? {
         output: "export",
         trailingSlash: true,
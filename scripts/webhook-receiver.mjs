@@ -0,0 +1,57 @@
+// scripts/webhook-receiver.mjs
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+/**
+ * Local stand-in for a webhook endpoint (npm run webhook:receiver).
+ *
+ * Logs every delivery and checks its signature. Settings (environment):
+ * - PORT: port to listen on (default 4000)
+ * - SECRET: the form's signing secret; without it signatures aren't checked
+ * - FAIL_FIRST: answer 500 to the first n requests, to watch the retries
+ *
+ * Answers 401 when the signature doesn't match, 204 otherwise.
+ */
+
+const port = Number(process.env.PORT ?? 4000);
+const secret = process.env.SECRET ?? "";
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+
+function verify(timestamp, body, signature) {
+  const expected = `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, Buffer.from(expected));
+}
+
+const server = createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const timestamp = String(req.headers["x-ffd-timestamp"] ?? "");
+    const signature = String(req.headers["x-ffd-signature"] ?? "");
+    const event = req.headers["x-ffd-event"] ?? "?";
+    const delivery = req.headers["x-ffd-delivery"] ?? "?";
+
+    let status = 204;
+    let note = secret ? "signature ok" : "signature not checked (no SECRET)";
+    if (secret && !verify(timestamp, body, signature)) {
+      status = 401;
+      note = "signature MISMATCH";
+    } else if (failuresLeft > 0) {
+      failuresLeft -= 1;
+      status = 500;
+      note += `, failing on purpose (${failuresLeft} more)`;
+    }
+
+    console.log(`${new Date().toISOString()} ${req.method} ${req.url} ${event} ${delivery} -> ${status} (${note})`);
+    console.log(body);
+
+    res.writeHead(status);
+    res.end();
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
@@ -0,0 +1,46 @@
+import { requireAdmin } from "@/lib/api-auth";
+import { migrateFormDefinition } from "@/lib/storage";
+import { formatParseIssue } from "@/lib/form-parser";
+import { savePublishedForm } from "@/lib/submission-store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * PUT /api/forms/[id]
+ *
+ * Publishes a form definition so its submission endpoint can validate
+ * against it. The body is a FormDefinition (older versions are migrated);
+ * its `id` must match the URL.
+ *
+ * Admin only (see requireAdmin): the definition decides what submissions are
+ * accepted and where the webhook sends them. Its webhook is stored apart
+ * from the definition (see savePublishedForm) and never sent back.
+ */
+export async function PUT(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  let raw: unknown;
+  try {
+    raw = await request.json();
+  } catch {
+    return Response.json({ message: "The request body is not valid JSON." }, { status: 400 });
+  }
+
+  const parsed = migrateFormDefinition(raw);
+  if (!parsed.ok) {
+    return Response.json(
+      { message: "The form definition is invalid.", issues: parsed.issues.map(formatParseIssue) },
+      { status: 400 }
+    );
+  }
+
+  if (parsed.form.id !== id) {
+    return Response.json({ message: `The form's id "${parsed.form.id}" does not match the URL.` }, { status: 400 });
+  }
+
+  await savePublishedForm(parsed.form);
+  return Response.json({ id: parsed.form.id });
+}
@@ -0,0 +1,69 @@
+import { requireAdmin } from "@/lib/api-auth";
+import type { SubmissionReceipt } from "@/lib/submission-api";
+import { validationErrorBody } from "@/lib/submission-api";
+import { appendSubmission, listSubmissions, loadPublishedForm } from "@/lib/submission-store";
+import { validateSubmission } from "@/lib/validation";
+import { deliverWebhook } from "@/lib/webhook-delivery";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/forms/[id]/submissions
+ *
+ * Validates a submission body with validateSubmission (the rules of the
+ * published form) and stores it:
+ * - 201 SubmissionReceipt when accepted
+ * - 422 ValidationError with one message per failing field
+ * - 400 when the body is not a JSON object, 404 when the form isn't published
+ *
+ * Accepted submissions are pushed to the form's enabled webhook in the
+ * background; the response doesn't wait for it.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  const form = await loadPublishedForm(id);
+  if (!form) {
+    return Response.json({ message: `Form "${id}" has not been published to this server.` }, { status: 404 });
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ message: "The request body is not valid JSON." }, { status: 400 });
+  }
+
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return Response.json({ message: "The request body must be a JSON object." }, { status: 400 });
+  }
+
+  const values = body as Record<string, unknown>;
+  const { valid, errors } = validateSubmission(form, values);
+  if (!valid) return Response.json(validationErrorBody(errors), { status: 422 });
+
+  const stored = await appendSubmission(form.id, values);
+
+  if (form.webhook?.enabled) {
+    deliverWebhook(form, { event: "submission.created", formId: form.id, formTitle: form.title, submission: stored }).catch(
+      (err) => console.error(`Webhook delivery for form "${form.id}" failed to run:`, err)
+    );
+  }
+  const receipt: SubmissionReceipt = { id: stored.id, receivedAtISO: stored.receivedAtISO };
+  return Response.json(receipt, { status: 201 });
+}
+
+/**
+ * GET /api/forms/[id]/submissions
+ *
+ * Every stored submission (StoredSubmission[], oldest first). Submissions
+ * outlive re-publishing, so they may predate the current field set.
+ * Admin only.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  return Response.json(await listSubmissions(id));
+}
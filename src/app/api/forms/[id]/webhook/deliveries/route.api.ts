@@ -0,0 +1,17 @@
+import { requireAdmin } from "@/lib/api-auth";
+import { listDeliveryAttempts } from "@/lib/submission-store";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/forms/[id]/webhook/deliveries
+ *
+ * The form's delivery log (WebhookDeliveryAttempt[], oldest first). Admin only.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+  return Response.json(await listDeliveryAttempts(id));
+}
@@ -0,0 +1,36 @@
+import { randomUUID } from "node:crypto";
+import { requireAdmin } from "@/lib/api-auth";
+import { loadPublishedForm } from "@/lib/submission-store";
+import { deliverWebhook } from "@/lib/webhook-delivery";
+import { webhookIssues, webhookTestPayload } from "@/lib/webhooks";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * POST /api/forms/[id]/webhook/test
+ *
+ * Sends a "webhook.test" payload (built from the published form's fields) to
+ * its webhook, enabled or not, and answers with the first logged attempt.
+ * Failed attempts are retried like real deliveries. Admin only.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  const { id } = await params;
+
+  const form = await loadPublishedForm(id);
+  if (!form) {
+    return Response.json({ message: `Form "${id}" has not been published to this server.` }, { status: 404 });
+  }
+
+  if (!form.webhook) {
+    return Response.json({ message: "This form has no webhook." }, { status: 400 });
+  }
+
+  const issues = webhookIssues(form.webhook);
+  if (issues.length > 0) return Response.json({ message: issues.join(" ") }, { status: 400 });
+
+  const attempt = await deliverWebhook(form, webhookTestPayload(form, randomUUID(), new Date().toISOString()));
+  return Response.json(attempt);
+}
@@ -6,22 +6,43 @@ import type { FormDefinition } from "@/lib/form-types";
 import basicContact from "@/templates/basic-contact.json";
 import { loadFormFromStorage } from "@/lib/storage";
 import AppShell from "@/components/layout/AppShell";
+import FormIssuesNotice from "@/components/ui/FormIssuesNotice";
 import { generateJsonSchema } from "@/lib/schema-generator";
+import { generateZodSchema } from "@/lib/exporters/zod";
+import { generateOpenApiDocument } from "@/lib/exporters/openapi";
 import { generateReactTsComponent } from "@/lib/exporters/react-ts";
+import { generateReactHookFormComponent } from "@/lib/exporters/react-hook-form";
+import { generateVueComponent } from "@/lib/exporters/vue";
+import { generateSvelteComponent } from "@/lib/exporters/svelte";
+import { generateWebComponent } from "@/lib/exporters/web-component";
 import { generateHtml } from "@/lib/exporters/html";
 import { generateCss } from "@/lib/exporters/css";
+import type { TailwindClassMap, TailwindRole } from "@/lib/exporters/tailwind";
+import { DEFAULT_TAILWIND_CLASSES, TAILWIND_ROLE_LABEL } from "@/lib/exporters/tailwind";
+import { withoutWebhook } from "@/lib/webhooks";
 
 /**
  * ExportPage
  *
- * Multi-format export surface for the currently active FormDefinition.
+ * Multi-format export surface for the form selected in the Library.
  *
  * Formats:
  * - Form JSON (the raw FormDefinition)
  * - JSON Schema (draft 2020-12)
+ * - Zod schema module (same rules, for TypeScript backends)
+ * - OpenAPI 3.1 document (POST submission endpoint with examples and 422 errors)
  * - React + TypeScript component (dependency-free)
+ * - React component on react-hook-form + zodResolver (Preview-identical validation)
+ * - Vue 3 single-file component (<script setup lang="ts">)
+ * - Svelte 5 component (runes, with the Preview's rule messages)
+ * - Web Component (framework-free custom element with Shadow DOM)
  * - Embedded HTML (single snippet with inline CSS)
- * - HTML + CSS (combined MVP output for download/copy)
+ * - HTML + CSS (combined MVP output for download/copy), optionally with the
+ *   inline validation script
+ *
+ * Every output that ships CSS uses generateCss(form.theme), so exports match
+ * the theme set in the Studio. React + TS and HTML + CSS can emit Tailwind
+ * utility classes instead (with per-role class overrides).
  *
  * UX goals:
  * - Stable layout: export panel scrolls internally (doesn't grow the page forever)
@@ -32,30 +53,50 @@ import { generateCss } from "@/lib/exporters/css";
 type ExportFormat =
   | "form-json"
   | "json-schema"
+  | "zod"
+  | "openapi"
   | "react-ts"
+  | "react-hook-form"
+  | "vue"
+  | "svelte"
+  | "web-component"
   | "html-css";
 
 const FORMAT_LABEL: Record<ExportFormat, string> = {
   "form-json": "Form JSON",
   "json-schema": "JSON Schema",
+  zod: "Zod Schema",
+  openapi: "OpenAPI 3.1",
   "react-ts": "React + TS",
+  "react-hook-form": "React Hook Form + Zod",
+  vue: "Vue 3 SFC",
+  svelte: "Svelte 5",
+  "web-component": "Web Component",
   "html-css": "HTML + CSS",
 };
 
+// Roles whose Tailwind classes can be overridden here (the API accepts every role).
+const TAILWIND_EDITABLE_ROLES: TailwindRole[] = ["label", "input", "error", "button"];
+
 export default function ExportPage() {
   const starter = basicContact as unknown as FormDefinition;
 
   /**
-   * Load the active form once.
+   * Load the selected form once.
    * (Export page is a snapshot; live syncing via storage event is optional later.)
    */
-  const [form] = useState<FormDefinition>(() => {
-    const saved = loadFormFromStorage();
-    return saved ?? starter;
-  });
+  const [loaded] = useState(() => loadFormFromStorage());
+  const form = loaded.status === "loaded" ? loaded.form : starter;
 
   const [format, setFormat] = useState<ExportFormat>("json-schema");
 
+  // HTML + CSS option: native rule attributes plus the inline validator script.
+  const [htmlValidation, setHtmlValidation] = useState(false);
+
+  // React + TS and HTML + CSS option: Tailwind classes instead of inline styles / styles.css.
+  const [tailwind, setTailwind] = useState(false);
+  const [tailwindClasses, setTailwindClasses] = useState<Partial<TailwindClassMap>>({});
+
   /**
    * Generate the selected export output.
    * useMemo prevents re-generating large strings on every render.
@@ -63,23 +104,50 @@ export default function ExportPage() {
   const output = useMemo(() => {
     switch (format) {
       case "form-json":
-        return JSON.stringify(form, null, 2);
+        return JSON.stringify(withoutWebhook(form), null, 2);
 
       case "json-schema":
         return JSON.stringify(generateJsonSchema(form), null, 2);
 
+      case "zod":
+        return generateZodSchema(form);
+
+      case "openapi":
+        return JSON.stringify(generateOpenApiDocument(form), null, 2);
+
       case "react-ts":
-        return generateReactTsComponent(form);
+        return generateReactTsComponent(form, {
+          styling: tailwind ? "tailwind" : "inline",
+          tailwindClasses,
+        });
+
+      case "react-hook-form":
+        return generateReactHookFormComponent(form);
+
+      case "vue":
+        return generateVueComponent(form);
 
-      case "html-css":
-        return `<!-- index.html -->\n${generateHtml(
-          form
-        )}\n\n/* styles.css */\n${generateCss()}`;
+      case "svelte":
+        return generateSvelteComponent(form);
+
+      case "web-component":
+        return generateWebComponent(form);
+
+      case "html-css": {
+        const html = generateHtml(form, {
+          validation: htmlValidation,
+          styling: tailwind ? "tailwind" : "css",
+          tailwindClasses,
+        });
+        // Tailwind markup needs no stylesheet.
+        if (tailwind) return `<!-- index.html -->\n${html}`;
+        return `<!-- index.html -->\n${html}\n\n/* styles.css */\n${generateCss(form.theme)}`;
+      }
 
       default:
         return "";
     }
-  }, [form, format]);
+  }, [form, format, htmlValidation, tailwind, tailwindClasses]);
 
   const filename = useMemo(() => {
     const safeBase =
@@ -88,8 +156,13 @@ export default function ExportPage() {
         .replace(/[^a-z0-9]+/g, "-")
         .replace(/(^-|-$)/g, "") || "form";
 
-    if (format === "react-ts") return `${safeBase}.tsx`;
+    if (format === "react-ts" || format === "react-hook-form") return `${safeBase}.tsx`;
+    if (format === "vue") return `${safeBase}.vue`;
+    if (format === "svelte") return `${safeBase}.svelte`;
+    if (format === "web-component") return `${safeBase}.js`;
     if (format === "json-schema") return `${safeBase}.schema.json`;
+    if (format === "zod") return `${safeBase}.schema.ts`;
+    if (format === "openapi") return `${safeBase}.openapi.json`;
     if (format === "html-css") return `${safeBase}.html`;
     return `${safeBase}.json`;
   }, [form.id, form.title, format]);
@@ -139,6 +212,21 @@ export default function ExportPage() {
         </>
       }
     >
+      {loaded.status === "invalid" ? (
+        <div className="mb-6">
+          <FormIssuesNotice
+            title="Saved form could not be loaded"
+            description="Exporting the starter template instead. Pick another form or delete this one in the Library."
+            issues={loaded.issues}
+            actions={
+              <Link href="/library" className="ffd-btn-ghost">
+                Open Library
+              </Link>
+            }
+          />
+        </div>
+      ) : null}
+
       <section className="grid gap-6 lg:grid-cols-[320px_1fr]">
         <aside className="ffd-card p-5">
           <h2 className="ffd-heading text-base font-semibold">Formats</h2>
@@ -152,6 +240,16 @@ export default function ExportPage() {
               label={FORMAT_LABEL["json-schema"]}
               onClick={() => setFormat("json-schema")}
             />
+            <FormatButton
+              active={format === "zod"}
+              label={FORMAT_LABEL.zod}
+              onClick={() => setFormat("zod")}
+            />
+            <FormatButton
+              active={format === "openapi"}
+              label={FORMAT_LABEL.openapi}
+              onClick={() => setFormat("openapi")}
+            />
             <FormatButton
               active={format === "form-json"}
               label={FORMAT_LABEL["form-json"]}
@@ -162,6 +260,26 @@ export default function ExportPage() {
               label={FORMAT_LABEL["react-ts"]}
               onClick={() => setFormat("react-ts")}
             />
+            <FormatButton
+              active={format === "react-hook-form"}
+              label={FORMAT_LABEL["react-hook-form"]}
+              onClick={() => setFormat("react-hook-form")}
+            />
+            <FormatButton
+              active={format === "vue"}
+              label={FORMAT_LABEL.vue}
+              onClick={() => setFormat("vue")}
+            />
+            <FormatButton
+              active={format === "svelte"}
+              label={FORMAT_LABEL.svelte}
+              onClick={() => setFormat("svelte")}
+            />
+            <FormatButton
+              active={format === "web-component"}
+              label={FORMAT_LABEL["web-component"]}
+              onClick={() => setFormat("web-component")}
+            />
             <FormatButton
               active={format === "html-css"}
               label={FORMAT_LABEL["html-css"]}
@@ -169,12 +287,77 @@ export default function ExportPage() {
             />
           </div>
 
+          {format === "html-css" ? (
+            <label className="mt-4 flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={htmlValidation}
+                onChange={(e) => setHtmlValidation(e.target.checked)}
+                className="mt-0.5 h-4 w-4 accent-(--ring)"
+              />
+              <span className="text-sm">
+                <span className="font-medium">Include validation script</span>
+                <span className="block text-xs ffd-muted">
+                  Rule attributes, Preview error messages and a typed JSON
+                  submission.
+                </span>
+              </span>
+            </label>
+          ) : null}
+
+          {format === "html-css" || format === "react-ts" ? (
+            <div className="mt-4">
+              <label className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={tailwind}
+                  onChange={(e) => setTailwind(e.target.checked)}
+                  className="mt-0.5 h-4 w-4 accent-(--ring)"
+                />
+                <span className="text-sm">
+                  <span className="font-medium">Tailwind classes</span>
+                  <span className="block text-xs ffd-muted">
+                    Utility classes instead of{" "}
+                    {format === "react-ts" ? "inline styles" : "the ffd-* stylesheet"}.
+                  </span>
+                </span>
+              </label>
+
+              {tailwind ? (
+                <div className="mt-3 space-y-2">
+                  {TAILWIND_EDITABLE_ROLES.filter(
+                    // The React + TS export relies on native validation and renders no error messages.
+                    (role) => format === "html-css" || role !== "error"
+                  ).map((role) => (
+                    <div key={role}>
+                      <label className="text-xs font-semibold">{TAILWIND_ROLE_LABEL[role]}</label>
+                      <input
+                        value={tailwindClasses[role] ?? ""}
+                        onChange={(e) => setTailwindClasses((prev) => ({ ...prev, [role]: e.target.value }))}
+                        placeholder={DEFAULT_TAILWIND_CLASSES[role]}
+                        className="mt-1 w-full ffd-input font-mono text-xs"
+                      />
+                    </div>
+                  ))}
+                  <p className="text-xs ffd-muted">Leave blank to keep the default classes.</p>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
           <div className="mt-6 rounded-lg border border-(--border) bg-(--surface-2) p-3">
             <p className="text-xs ffd-muted">
               <span className="font-semibold">Tip:</span> JSON Schema is ideal
-              for backend validation and API contracts. React+TS is a quick
-              drop-in UI starting point. Embedded HTML is useful for code blocks
-              and no-framework embeds.
+              for backend validation and API contracts; Zod gives TypeScript
+              backends the same rules with inferred types, and OpenAPI 3.1
+              drops the submission endpoint into an API spec. React+TS is a quick
+              drop-in UI starting point; the React Hook Form variant validates
+              exactly like the Preview. Vue and Svelte teams get the same form
+              as a single component file. The Web Component drops into any
+              page as one script tag; Embedded HTML is useful for code blocks
+              and static embeds. Styled exports carry the form&apos;s Studio
+              theme as <code>--ffd-*</code> CSS variables. Form JSON leaves
+              out webhook settings, so the signing secret stays in the app.
             </p>
           </div>
         </aside>
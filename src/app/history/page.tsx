@@ -0,0 +1,362 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import type { FormDefinition } from "@/lib/form-types";
+import { loadFormFromStorage, saveFormToStorage } from "@/lib/storage";
+import { formatParseIssue } from "@/lib/form-parser";
+import {
+  deleteSnapshot,
+  listSnapshots,
+  saveSnapshot,
+  type FormSnapshot,
+} from "@/lib/snapshots";
+import {
+  diffForms,
+  isEmptyDiff,
+  type FieldDiff,
+  type FormDiff,
+  type PropertyChange,
+} from "@/lib/form-diff";
+import AppShell from "@/components/layout/AppShell";
+import FormIssuesNotice from "@/components/ui/FormIssuesNotice";
+import { toast } from "@/components/ui/use-toast";
+
+/**
+ * "current" refers to the live form; anything else is a snapshot id.
+ */
+const CURRENT = "current";
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === "") return "—";
+  if (Array.isArray(value)) {
+    return value
+      .map((v) => (typeof v === "object" && v !== null && "value" in v ? String(v.value) : String(v)))
+      .join(", ");
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * HistoryPage
+ *
+ * Named snapshots of the selected form:
+ * - Save the current form under a name ("v1 sent to legal")
+ * - Restore or delete a snapshot
+ * - Compare any two versions (snapshots or the current form), with
+ *   field-level changes and JSON Schema breaking-change detection
+ */
+export default function HistoryPage() {
+  const [loaded] = useState(() => loadFormFromStorage());
+  const [current, setCurrent] = useState<FormDefinition | null>(() =>
+    loaded.status === "loaded" ? loaded.form : null
+  );
+
+  const [snapshots, setSnapshots] = useState<FormSnapshot[]>(() =>
+    current ? listSnapshots(current.id) : []
+  );
+  const [name, setName] = useState("");
+
+  /**
+   * Comparison endpoints: defaults to "newest snapshot -> current form".
+   */
+  const [fromId, setFromId] = useState<string>(() => snapshots[0]?.id ?? CURRENT);
+  const [toId, setToId] = useState<string>(CURRENT);
+
+  const resolve = (id: string): FormDefinition | null =>
+    id === CURRENT ? current : (snapshots.find((s) => s.id === id)?.form ?? null);
+
+  const fromForm = resolve(fromId);
+  const toForm = resolve(toId);
+
+  const diff = useMemo(
+    () => (fromForm && toForm ? diffForms(fromForm, toForm) : null),
+    [fromForm, toForm]
+  );
+
+  const takeSnapshot = () => {
+    if (!current) return;
+
+    const snapshot = saveSnapshot(current, name);
+    setSnapshots(listSnapshots(current.id));
+    setName("");
+
+    toast({ title: "Snapshot Saved", description: `Saved “${snapshot.name}”.`, variant: "success" });
+  };
+
+  const restore = (snapshot: FormSnapshot) => {
+    if (!current || !snapshot.form) return;
+    if (!window.confirm(`Restore “${snapshot.name}”? Changes since then are lost unless snapshotted.`)) {
+      return;
+    }
+
+    // Keep the library identity (id, creation date) of the live form.
+    const next: FormDefinition = {
+      ...snapshot.form,
+      id: current.id,
+      createdAtISO: current.createdAtISO,
+      updatedAtISO: new Date().toISOString(),
+    };
+
+    saveFormToStorage(next);
+    setCurrent(next);
+
+    toast({ title: "Snapshot Restored", description: `Restored “${snapshot.name}”.`, variant: "success" });
+  };
+
+  const remove = (snapshot: FormSnapshot) => {
+    if (!current) return;
+
+    deleteSnapshot(current.id, snapshot.id);
+    setSnapshots(listSnapshots(current.id));
+    if (fromId === snapshot.id) setFromId(CURRENT);
+    if (toId === snapshot.id) setToId(CURRENT);
+
+    toast({ title: "Snapshot Deleted", description: `Removed “${snapshot.name}”.`, variant: "destructive" });
+  };
+
+  const versionOptions = [
+    { id: CURRENT, label: "Current form" },
+    ...snapshots.filter((s) => s.form).map((s) => ({ id: s.id, label: s.name })),
+  ];
+
+  return (
+    <AppShell
+      title="History"
+      description="Save named snapshots of the open form, restore them, and compare any two versions."
+      actions={
+        <>
+          <Link href="/library" className="ffd-btn-ghost">
+            Library
+          </Link>
+          <Link href="/studio" className="ffd-btn">
+            Back to Studio
+          </Link>
+        </>
+      }
+    >
+      {loaded.status === "invalid" ? (
+        <FormIssuesNotice
+          title="Saved form could not be loaded"
+          description="Snapshots are unavailable until the form is readable. Pick another form in the Library."
+          issues={loaded.issues}
+        />
+      ) : !current ? (
+        <section className="ffd-card p-6">
+          <p className="text-sm ffd-muted">
+            No form is open yet. Open one from the{" "}
+            <Link href="/library" className="underline">
+              Library
+            </Link>{" "}
+            or start editing in the Studio.
+          </p>
+        </section>
+      ) : (
+        <section className="grid gap-6 lg:grid-cols-[360px_1fr]">
+          {/* Snapshot list */}
+          <aside className="ffd-card p-5">
+            <h2 className="ffd-heading text-base font-semibold">Snapshots</h2>
+            <p className="mt-1 text-sm ffd-muted">of “{current.title}”</p>
+
+            <div className="mt-4 flex gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") takeSnapshot();
+                }}
+                placeholder="e.g. v1 sent to legal"
+                aria-label="Snapshot name"
+                className="w-full ffd-input"
+              />
+              <button type="button" onClick={takeSnapshot} className="ffd-btn shrink-0">
+                Save
+              </button>
+            </div>
+
+            {snapshots.length === 0 ? (
+              <p className="mt-4 text-sm ffd-muted">No snapshots yet.</p>
+            ) : (
+              <ul className="mt-4 divide-y divide-[var(--border)]">
+                {snapshots.map((snapshot) => (
+                  <li key={snapshot.id} className="py-3">
+                    <p className="truncate text-sm font-semibold">{snapshot.name}</p>
+                    <p className="mt-1 text-xs ffd-muted">
+                      {snapshot.issues
+                        ? formatParseIssue(snapshot.issues[0])
+                        : new Date(snapshot.createdAtISO).toLocaleString()}
+                    </p>
+
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {snapshot.form ? (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setFromId(snapshot.id);
+                              setToId(CURRENT);
+                            }}
+                            className="ffd-btn-ghost px-3 py-1"
+                          >
+                            Compare
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => restore(snapshot)}
+                            className="ffd-btn-ghost px-3 py-1"
+                          >
+                            Restore
+                          </button>
+                        </>
+                      ) : null}
+                      <button
+                        type="button"
+                        onClick={() => remove(snapshot)}
+                        className="ffd-btn-danger px-3 py-1"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </aside>
+
+          {/* Diff view */}
+          <div className="ffd-card min-w-0 p-5">
+            <div className="flex flex-wrap items-end gap-3">
+              <VersionSelect label="From" value={fromId} options={versionOptions} onChange={setFromId} />
+              <VersionSelect label="To" value={toId} options={versionOptions} onChange={setToId} />
+            </div>
+
+            {diff ? <DiffView diff={diff} /> : null}
+          </div>
+        </section>
+      )}
+    </AppShell>
+  );
+}
+
+function VersionSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: Array<{ id: string; label: string }>;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <label className="text-sm font-medium">
+      {label}
+      <select value={value} onChange={(e) => onChange(e.target.value)} className="mt-1 block ffd-input">
+        {options.map((o) => (
+          <option key={o.id} value={o.id}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+/**
+ * DiffView
+ *
+ * Breaking-change summary followed by form-level and per-field changes.
+ */
+function DiffView({ diff }: { diff: FormDiff }) {
+  if (isEmptyDiff(diff)) {
+    return <p className="mt-6 text-sm ffd-muted">No differences.</p>;
+  }
+
+  return (
+    <div className="mt-6 space-y-6">
+      <div
+        className={[
+          "rounded-lg border p-3 text-sm",
+          diff.breaking.length > 0 ? "border-red-500/30" : "border-emerald-500/30",
+        ].join(" ")}
+      >
+        {diff.breaking.length > 0 ? (
+          <>
+            <p className="font-semibold text-red-700">
+              Breaking for the JSON Schema ({diff.breaking.length})
+            </p>
+            <ul className="mt-2 list-disc space-y-1 pl-5 text-xs">
+              {diff.breaking.map((b, i) => (
+                <li key={`${b.path}-${i}`}>
+                  <span className="font-mono">{b.path}</span>: {b.message}
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="font-semibold text-emerald-700">
+            Not breaking: submissions valid before are still valid.
+          </p>
+        )}
+      </div>
+
+      {diff.form.length > 0 ? (
+        <div>
+          <h3 className="text-sm font-semibold">Form</h3>
+          <ChangeList changes={diff.form} />
+        </div>
+      ) : null}
+
+      {diff.fields.length > 0 ? (
+        <div>
+          <h3 className="text-sm font-semibold">Fields</h3>
+          <ul className="mt-2 space-y-3">
+            {diff.fields.map((d) => (
+              <FieldDiffRow key={`${d.kind}-${d.path}`} diff={d} />
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const KIND_LABEL: Record<FieldDiff["kind"], string> = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed",
+};
+
+function FieldDiffRow({ diff }: { diff: FieldDiff }) {
+  const label = diff.kind === "changed" ? diff.after.label : diff.field.label;
+
+  return (
+    <li className="rounded-lg border border-[var(--border)] p-3">
+      <p className="text-sm">
+        <span className="font-semibold">{KIND_LABEL[diff.kind]}</span>{" "}
+        <span className="font-mono">{diff.path}</span> <span className="ffd-muted">({label})</span>
+      </p>
+
+      {diff.kind === "changed" ? (
+        <ChangeList changes={diff.changes} />
+      ) : diff.breaking ? (
+        <p className="mt-1 text-xs text-red-700">Breaking: {diff.breaking}</p>
+      ) : null}
+    </li>
+  );
+}
+
+function ChangeList({ changes }: { changes: PropertyChange[] }) {
+  return (
+    <ul className="mt-2 space-y-1 text-xs">
+      {changes.map((c) => (
+        <li key={c.property}>
+          <span className="font-mono">{c.property}</span>: {formatValue(c.before)} →{" "}
+          {formatValue(c.after)}
+          {c.breaking ? <span className="ml-2 text-red-700">Breaking: {c.breaking}</span> : null}
+        </li>
+      ))}
+    </ul>
+  );
+}
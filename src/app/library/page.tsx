@@ -0,0 +1,228 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { FormDefinition } from "@/lib/form-types";
+import basicContact from "@/templates/basic-contact.json";
+import {
+  deleteFormFromStorage,
+  getSelectedFormId,
+  listForms,
+  setSelectedFormId,
+  type FormSummary,
+} from "@/lib/storage";
+import { createForm, duplicateForm, renameForm } from "@/lib/form-library";
+import { formatParseIssue } from "@/lib/form-parser";
+import { deleteAllSnapshots } from "@/lib/snapshots";
+import AppShell from "@/components/layout/AppShell";
+import { toast } from "@/components/ui/use-toast";
+
+/**
+ * formatUpdatedAt
+ *
+ * Locale timestamp for the "Updated" column; tolerates missing/bad values.
+ */
+function formatUpdatedAt(iso: string | null): string {
+  if (!iso) return "—";
+  const date = new Date(iso);
+  return Number.isNaN(date.getTime()) ? "—" : date.toLocaleString();
+}
+
+/**
+ * LibraryPage
+ *
+ * Lists every saved form and manages the library:
+ * - Create (blank or from the starter template)
+ * - Open in Studio / Preview (selects the form id)
+ * - Duplicate, rename, delete
+ *
+ * Data source:
+ * - listForms() from storage.ts (one localStorage entry per form)
+ * - The selected id decides which form Studio, Preview and Exports open
+ */
+export default function LibraryPage() {
+  const router = useRouter();
+  const starter = basicContact as unknown as FormDefinition;
+
+  const [forms, setForms] = useState<FormSummary[]>(() => listForms());
+  const [selectedId, setSelectedId] = useState<string | null>(() => getSelectedFormId());
+
+  /**
+   * Inline rename state: the row being renamed and its draft title.
+   */
+  const [renaming, setRenaming] = useState<{ id: string; draft: string } | null>(null);
+
+  const refresh = () => {
+    setForms(listForms());
+    setSelectedId(getSelectedFormId());
+  };
+
+  const openForm = (id: string, href: "/studio" | "/preview") => {
+    setSelectedFormId(id);
+    router.push(href);
+  };
+
+  const create = (template?: FormDefinition) => {
+    const form = createForm(template);
+    router.push("/studio");
+
+    toast({
+      title: "Form Created",
+      description: `Opened "${form.title}" in the Studio.`,
+      variant: "success",
+    });
+  };
+
+  const duplicate = (id: string) => {
+    const copy = duplicateForm(id);
+    refresh();
+
+    toast(
+      copy
+        ? { title: "Form Duplicated", description: `Created "${copy.title}".`, variant: "success" }
+        : { title: "Duplicate Failed", description: "That form could not be read.", variant: "destructive" }
+    );
+  };
+
+  const commitRename = () => {
+    if (!renaming) return;
+
+    const renamed = renameForm(renaming.id, renaming.draft);
+    setRenaming(null);
+    refresh();
+
+    if (!renamed) {
+      toast({
+        title: "Rename Failed",
+        description: "Titles can't be blank, and unreadable forms can't be renamed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const remove = (summary: FormSummary) => {
+    if (!window.confirm(`Delete "${summary.title}" and its snapshots? This cannot be undone.`)) return;
+
+    deleteFormFromStorage(summary.id);
+    deleteAllSnapshots(summary.id);
+    refresh();
+
+    toast({
+      title: "Form Deleted",
+      description: `Removed "${summary.title}" from your library.`,
+      variant: "destructive",
+    });
+  };
+
+  return (
+    <AppShell
+      title="Library"
+      description="All forms saved in this browser. Pick one to open it in Studio, Preview or Export."
+      actions={
+        <>
+          <button type="button" onClick={() => create(starter)} className="ffd-btn-ghost">
+            New from template
+          </button>
+          <button type="button" onClick={() => create()} className="ffd-btn">
+            New form
+          </button>
+        </>
+      }
+    >
+      <section className="ffd-card p-5">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="ffd-heading text-lg font-semibold">Forms</h2>
+            <p className="mt-1 text-sm ffd-muted">Most recently updated first.</p>
+          </div>
+          <span className="text-xs ffd-muted">{forms.length} forms</span>
+        </div>
+
+        {forms.length === 0 ? (
+          <p className="mt-6 text-sm ffd-muted">
+            No saved forms yet. Create one, or open the Studio to start from the starter template.
+          </p>
+        ) : (
+          <ul className="mt-5 divide-y divide-[var(--border)]">
+            {forms.map((summary) => {
+              const isSelected = summary.id === selectedId;
+              const isRenaming = renaming?.id === summary.id;
+
+              return (
+                <li key={summary.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                  <div className="min-w-0 flex-1">
+                    {isRenaming ? (
+                      <input
+                        autoFocus
+                        value={renaming.draft}
+                        onChange={(e) => setRenaming({ id: summary.id, draft: e.target.value })}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") commitRename();
+                          if (e.key === "Escape") setRenaming(null);
+                        }}
+                        onBlur={commitRename}
+                        aria-label="Form title"
+                        className="w-full max-w-md ffd-input"
+                      />
+                    ) : (
+                      <p className="truncate text-sm font-semibold">
+                        {summary.title}
+                        {isSelected ? (
+                          <span className="ml-2 text-xs font-normal ffd-muted">(open)</span>
+                        ) : null}
+                      </p>
+                    )}
+
+                    <p className="mt-1 text-xs ffd-muted">
+                      {summary.issues
+                        ? formatParseIssue(summary.issues[0])
+                        : `${summary.fieldCount} fields · Updated ${formatUpdatedAt(summary.updatedAtISO)}`}
+                    </p>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {summary.issues ? null : (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => openForm(summary.id, "/studio")}
+                          className="ffd-btn"
+                        >
+                          Open
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => openForm(summary.id, "/preview")}
+                          className="ffd-btn-ghost"
+                        >
+                          Preview
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setRenaming({ id: summary.id, draft: summary.title })}
+                          className="ffd-btn-ghost"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => duplicate(summary.id)}
+                          className="ffd-btn-ghost"
+                        >
+                          Duplicate
+                        </button>
+                      </>
+                    )}
+                    <button type="button" onClick={() => remove(summary)} className="ffd-btn-danger">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </AppShell>
+  );
+}
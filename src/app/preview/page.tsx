@@ -7,11 +7,16 @@ import basicContact from "@/templates/basic-contact.json";
 import { loadFormFromStorage } from "@/lib/storage";
 import FormRenderer from "@/components/preview/FormRenderer";
 import AppShell from "@/components/layout/AppShell";
+import FormIssuesNotice from "@/components/ui/FormIssuesNotice";
+import AdminTokenField from "@/components/ui/AdminTokenField";
+import { toast } from "@/components/ui/use-toast";
+import { SUBMISSION_API_ENABLED, publishForm } from "@/lib/submission-api";
+import { submissionPath } from "@/lib/exporters/openapi";
 
 /**
  * PreviewPage
  *
- * Renders the currently active form definition as an interactive form.
+ * Renders the form selected in the Library as an interactive form.
  *
  * Purpose:
  * - Demonstrate how the saved FormDefinition becomes real UI
@@ -19,8 +24,14 @@ import AppShell from "@/components/layout/AppShell";
  * - Provide a quick QA loop while building forms
  *
  * Data source:
- * - The "active form" is loaded from localStorage via loadFormFromStorage()
- * - Falls back to the starter template if nothing has been saved yet
+ * - The selected library form is loaded via loadFormFromStorage()
+ * - Falls back to the starter template if nothing is selected yet
+ * - If the saved form fails validation, the starter is shown alongside
+ *   the path-aware issues (instead of crashing mid-render)
+ *
+ * Submission API (server builds only):
+ * - "Send to the submission API" publishes the form to the local server,
+ *   then the renderer posts each submission there instead of only showing it
  */
 export default function PreviewPage() {
   const starter = basicContact as unknown as FormDefinition;
@@ -33,10 +44,35 @@ export default function PreviewPage() {
    * you can listen to the `storage` event and update state.
    * (Not required for MVP.)
    */
-  const [form] = useState<FormDefinition>(() => {
-    const saved = loadFormFromStorage();
-    return saved ?? starter;
-  });
+  const [loaded] = useState(() => loadFormFromStorage());
+  const form = loaded.status === "loaded" ? loaded.form : starter;
+
+  // Post mode is switched on only once the server has the current definition.
+  const [postSubmissions, setPostSubmissions] = useState(false);
+  const [publishing, setPublishing] = useState(false);
+
+  const togglePostSubmissions = async (enabled: boolean) => {
+    if (!enabled) {
+      setPostSubmissions(false);
+      return;
+    }
+
+    setPublishing(true);
+    const result = await publishForm(form);
+    setPublishing(false);
+
+    if (!result.ok) {
+      toast({ title: "Publish Failed", description: result.message, variant: "destructive" });
+      return;
+    }
+
+    setPostSubmissions(true);
+    toast({
+      title: "Form Published",
+      description: `Submissions are posted to ${submissionPath(form)}.`,
+      variant: "success",
+    });
+  };
 
   return (
     <AppShell
@@ -44,6 +80,11 @@ export default function PreviewPage() {
       description="Live rendering of the active form definition with validation."
       actions={
         <>
+          {SUBMISSION_API_ENABLED ? (
+            <Link href="/submissions" className="ffd-btn-ghost">
+              Submissions
+            </Link>
+          ) : null}
           <Link href="/exports" className="ffd-btn-ghost">
             Export
           </Link>
@@ -53,6 +94,21 @@ export default function PreviewPage() {
         </>
       }
     >
+      {loaded.status === "invalid" ? (
+        <div className="mb-6">
+          <FormIssuesNotice
+            title="Saved form could not be loaded"
+            description="Previewing the starter template instead. Pick another form or delete this one in the Library."
+            issues={loaded.issues}
+            actions={
+              <Link href="/library" className="ffd-btn-ghost">
+                Open Library
+              </Link>
+            }
+          />
+        </div>
+      ) : null}
+
       {/* Preview card */}
       <section className="ffd-card p-6">
         {/* Form metadata */}
@@ -63,9 +119,31 @@ export default function PreviewPage() {
           ) : null}
         </div>
 
+        {SUBMISSION_API_ENABLED ? (
+          <>
+            <label className="mt-4 flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={postSubmissions}
+                disabled={publishing}
+                onChange={(e) => void togglePostSubmissions(e.target.checked)}
+                className="mt-0.5 h-4 w-4 accent-(--ring)"
+              />
+              <span className="text-sm">
+                <span className="font-medium">Send to the submission API</span>
+                <span className="block text-xs ffd-muted">
+                  Publishes this form to the local server, then posts each submission to{" "}
+                  <code>{submissionPath(form)}</code>; the server&apos;s validation errors appear on the fields.
+                </span>
+              </span>
+            </label>
+            <AdminTokenField className="mt-3 ml-6" />
+          </>
+        ) : null}
+
         {/* Actual form renderer driven by the FormDefinition */}
         <div className="mt-6">
-          <FormRenderer form={form} />
+          <FormRenderer form={form} postSubmissions={postSubmissions} />
         </div>
       </section>
     </AppShell>
@@ -1,13 +1,59 @@
 "use client";
 
 import Link from "next/link";
-import { useMemo, useRef, useState } from "react";
-import type { FormDefinition, Field, FieldType, FieldRules } from "@/lib/form-types";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  BaseField,
+  ChildField,
+  FormDefinition,
+  Field,
+  FieldType,
+  FieldRules,
+  FieldCondition,
+  ConditionOperator,
+  FormStep,
+  FormTheme,
+  GroupRules,
+  NumberRules,
+  SelectRules,
+  TextRules,
+  ThemeColors,
+  ThemeMode,
+  FormWebhook,
+  WebhookHeader,
+  FieldMessages,
+  MessageRule,
+} from "@/lib/form-types";
+import { parseField, type FormParseIssue } from "@/lib/form-parser";
 import basicContact from "@/templates/basic-contact.json";
-import { loadFormFromStorage, saveFormToStorage, clearFormStorage } from "@/lib/storage";
+import {
+  loadFormFromStorage,
+  parseStoredFormJson,
+  saveFormToStorage,
+  setSelectedFormId,
+} from "@/lib/storage";
+import { createForm, importForm, makeFormId } from "@/lib/form-library";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  pushHistory,
+  redo,
+  undo,
+  type History,
+} from "@/lib/history";
 import PreviewPanel from "@/components/preview/PreviewPanel1";
 import AppShell from "@/components/layout/AppShell";
 import { toast } from "@/components/ui/use-toast";
+import FormIssuesNotice from "@/components/ui/FormIssuesNotice";
+import AdminTokenField from "@/components/ui/AdminTokenField";
+import { assignFieldToStep, findStepIdForField, syncStepOrder } from "@/lib/steps";
+import { THEME_PRESETS, resolveTheme } from "@/lib/theme";
+import { importJsonSchemaText } from "@/lib/schema-importer";
+import { defaultRuleMessage, messageParams, messageRules } from "@/lib/validation-messages";
+import { DEFAULT_WEBHOOK, WEBHOOK_SIGNATURE_HEADER, webhookIssues } from "@/lib/webhooks";
+import type { WebhookDeliveryAttempt } from "@/lib/webhooks";
+import { SUBMISSION_API_ENABLED, fetchDeliveryAttempts, sendTestWebhook } from "@/lib/submission-api";
 
 /* -------------------------------------------------------------------------- */
 /* Utilities                                                                  */
@@ -61,6 +107,59 @@ function toNumberOrUndefined(value: string): number | undefined {
   return Number.isNaN(n) ? undefined : n;
 }
 
+/**
+ * FieldPatch
+ *
+ * Loose patch shape used by the property editors.
+ * `Partial<Field>` would distribute over the union and reject generic edits
+ * like `{ rules }`, so editors build patches in this shape instead.
+ */
+type FieldPatch = Partial<Omit<BaseField, "id">> & {
+  type?: FieldType;
+  rules?: FieldRules;
+  fields?: ChildField[];
+};
+
+/**
+ * applyFieldPatch
+ *
+ * Applies a patch and re-narrows the result through the runtime parser, so
+ * the field always stays a valid union member (e.g. switching type drops
+ * rules that no longer apply). Falls back to the unpatched field if invalid.
+ */
+function applyFieldPatch(field: Field, patch: FieldPatch): Field {
+  return parseField({ ...field, ...patch }) ?? field;
+}
+
+/**
+ * createField
+ *
+ * Builds a fresh field of the given type.
+ * Groups start with one child so the repeater is usable immediately.
+ */
+function createField(type: FieldType, base: Pick<BaseField, "id" | "name" | "label">): Field {
+  const common = { ...base, required: false, placeholder: "" };
+
+  if (type === "group") {
+    return { ...common, type, fields: [makeChildField("text", [])] };
+  }
+
+  return { ...common, type };
+}
+
+/**
+ * IssueNotice
+ *
+ * Validation problems shown above the Builder, tagged with where the
+ * rejected JSON came from.
+ */
+type IssueNotice = {
+  source: "storage" | "import";
+  title: string;
+  description: string;
+  issues: FormParseIssue[];
+};
+
 /* -------------------------------------------------------------------------- */
 /* Studio Page                                                                */
 /* -------------------------------------------------------------------------- */
@@ -81,23 +180,64 @@ export default function StudioPage() {
   const starter = basicContact as unknown as FormDefinition;
 
   /**
-   * Load persisted form definition (localStorage).
-   * Studio is intentionally "single active form" for MVP.
+   * Load the selected library form once.
+   * Without one, Studio starts from the starter template under a fresh id;
+   * it joins the library on the first edit.
+   */
+  const [loaded] = useState(() => loadFormFromStorage());
+
+  /**
+   * Undo/redo history; `history.present` is the form being edited.
+   * Every mutation goes through `persist`, which pushes a step.
+   */
+  const [history, setHistory] = useState<History<FormDefinition>>(() =>
+    createHistory(
+      loaded.status === "loaded"
+        ? loaded.form
+        : { ...starter, id: makeFormId(), createdAtISO: nowISO(), updatedAtISO: nowISO() }
+    )
+  );
+  const form = history.present;
+
+  /**
+   * Latest history for callbacks that outlive the render that created them
+   * (e.g. the Undo button on a toast).
    */
-  const [form, setForm] = useState<FormDefinition>(() => {
-    const saved = loadFormFromStorage();
-    return saved ?? { ...starter, updatedAtISO: nowISO() };
-  });
+  const historyRef = useRef(history);
+  useEffect(() => {
+    historyRef.current = history;
+  }, [history]);
+
+  /**
+   * Validation problems to surface above the Builder:
+   * - a saved form that failed validation (the starter is shown instead)
+   * - an imported file that failed validation (the current form is kept)
+   */
+  const [issueNotice, setIssueNotice] = useState<IssueNotice | null>(() =>
+    loaded.status === "invalid"
+      ? {
+          source: "storage",
+          title: "Saved form could not be loaded",
+          description:
+            "Showing the starter template instead. Edits are saved as a new form; the unreadable one stays in the Library.",
+          issues: loaded.issues,
+        }
+      : null
+  );
+
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  // JSON Schema import dialog (mounted only while open).
+  const [schemaDialogOpen, setSchemaDialogOpen] = useState(false);
 
   /**
    * Expanded field id (accordion behavior).
    * - Only one field expands at a time for a calmer editing surface.
    * - New fields auto-expand.
    */
-  const [expandedFieldId, setExpandedFieldId] = useState<string | null>(() => {
-    const saved = loadFormFromStorage();
-    return (saved ?? starter)?.fields?.[0]?.id ?? null;
-  });
+  const [expandedFieldId, setExpandedFieldId] = useState<string | null>(
+    () => form.fields[0]?.id ?? null
+  );
 
   /**
    * Preview visibility toggle.
@@ -123,14 +263,78 @@ export default function StudioPage() {
    * persist
    *
    * Single entry point for committing updates:
-   * - Write to localStorage
-   * - Update React state
+   * - Write to localStorage (and keep this form selected)
+   * - Record an undo step (edits sharing `coalesceKey` merge into one step)
+   *
+   * Saving replaces whatever invalid data a load notice referred to,
+   * so that notice is dismissed here.
    */
-  const persist = (next: FormDefinition) => {
+  const persist = (next: FormDefinition, coalesceKey?: string) => {
     saveFormToStorage(next);
-    setForm(next);
+    setSelectedFormId(next.id);
+    setHistory((h) => pushHistory(h, next, { coalesceKey }));
+    if (issueNotice?.source === "storage") setIssueNotice(null);
+  };
+
+  /**
+   * applyHistory
+   *
+   * Commits an undo/redo result: the restored form is saved like any edit.
+   */
+  const applyHistory = (next: History<FormDefinition>) => {
+    if (next === historyRef.current) return;
+    saveFormToStorage(next.present);
+    setHistory(next);
   };
 
+  const undoEdit = () => applyHistory(undo(historyRef.current));
+
+  /**
+   * undoIfLatest
+   *
+   * Undo for toast actions: only steps back if `state` is still the latest
+   * edit, so a late click never reverts something newer by mistake.
+   */
+  const undoIfLatest = (state: FormDefinition) => {
+    if (historyRef.current.present !== state) {
+      toast({
+        title: "Nothing to Undo",
+        description: "The form has changed since; use Ctrl+Z to step back.",
+      });
+      return;
+    }
+    undoEdit();
+  };
+  const redoEdit = () => applyHistory(redo(historyRef.current));
+
+  /**
+   * Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo.
+   *
+   * Handled globally, including inside inputs: the Builder's inputs are
+   * controlled, so the browser's own text undo can't restore them reliably.
+   */
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+
+      const key = e.key.toLowerCase();
+      const isRedo = (key === "z" && e.shiftKey) || (key === "y" && !e.shiftKey);
+      const isUndo = key === "z" && !e.shiftKey;
+      if (!isUndo && !isRedo) return;
+
+      e.preventDefault();
+      const current = historyRef.current;
+      const next = isRedo ? redo(current) : undo(current);
+      if (next === current) return;
+
+      saveFormToStorage(next.present);
+      setHistory(next);
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
   /**
    * flashField
    *
@@ -150,7 +354,7 @@ export default function StudioPage() {
    * New fields auto-expand so the user can edit immediately.
    */
   const addField = (type: FieldType) => {
-    const baseName = type === "email" ? "email" : "field";
+    const baseName = type === "email" ? "email" : type === "group" ? "group" : "field";
     let name = baseName;
     let i = 1;
 
@@ -159,18 +363,19 @@ export default function StudioPage() {
       i++;
     }
 
-    const newField: Field = {
-      id: makeId("f"),
-      name,
-      label: "New field",
-      type,
-      required: false,
-      placeholder: "",
-    };
+    const newField = createField(type, { id: makeId("f"), name, label: "New field" });
+
+    // In wizard forms, new fields land on the last step.
+    const steps = form.steps?.length
+      ? form.steps.map((step, i, all) =>
+          i === all.length - 1 ? { ...step, fieldIds: [...step.fieldIds, newField.id] } : step
+        )
+      : form.steps;
 
     const nextForm: FormDefinition = {
       ...form,
       fields: [...form.fields, newField],
+      steps,
       updatedAtISO: nowISO(),
     };
 
@@ -191,13 +396,15 @@ export default function StudioPage() {
    * updateField
    *
    * Applies a partial patch to a field by ID.
+   * Repeated patches to the same properties (typing) coalesce into one undo step.
    * We toast only on a transition from valid → invalid for the key to avoid spam.
    */
-  const updateField = (id: string, patch: Partial<Field>) => {
+  const updateField = (id: string, patch: FieldPatch) => {
     const prev = form.fields.find((f) => f.id === id);
 
-    const nextFields = form.fields.map((f) => (f.id === id ? { ...f, ...patch } : f));
-    persist({ ...form, fields: nextFields, updatedAtISO: nowISO() });
+    const nextFields = form.fields.map((f) => (f.id === id ? applyFieldPatch(f, patch) : f));
+    const coalesceKey = `field:${id}:${Object.keys(patch).sort().join(",")}`;
+    persist({ ...form, fields: nextFields, updatedAtISO: nowISO() }, coalesceKey);
 
     if (patch.name !== undefined) {
       const nextField = nextFields.find((f) => f.id === id);
@@ -220,12 +427,21 @@ export default function StudioPage() {
    *
    * Removes a field from the definition.
    * If the deleted field was expanded, we expand the next available one.
+   * Conditions on other fields that referenced it are dropped as well.
    */
   const deleteField = (id: string) => {
     const targetField = form.fields.find((f) => f.id === id);
-    const nextFields = form.fields.filter((f) => f.id !== id);
+    const nextFields = form.fields
+      .filter((f) => f.id !== id)
+      .map((f) => ({
+        ...f,
+        visibleWhen: f.visibleWhen?.fieldId === id ? undefined : f.visibleWhen,
+        requiredWhen: f.requiredWhen?.fieldId === id ? undefined : f.requiredWhen,
+      }));
+    const steps = form.steps ? syncStepOrder(form.steps, nextFields) : form.steps;
+    const next = { ...form, fields: nextFields, steps, updatedAtISO: nowISO() };
 
-    persist({ ...form, fields: nextFields, updatedAtISO: nowISO() });
+    persist(next);
 
     if (expandedFieldId === id) {
       setExpandedFieldId(nextFields[0]?.id ?? null);
@@ -235,6 +451,7 @@ export default function StudioPage() {
       title: "Field Deleted",
       description: targetField ? `Removed “${targetField.label}”.` : "Removed field.",
       variant: "destructive",
+      action: { label: "Undo", onClick: () => undoIfLatest(next) },
     });
   };
 
@@ -253,28 +470,200 @@ export default function StudioPage() {
 
     const next = [...form.fields];
     [next[idx], next[target]] = [next[target], next[idx]];
+    const steps = form.steps ? syncStepOrder(form.steps, next) : form.steps;
+
+    persist({ ...form, fields: next, steps, updatedAtISO: nowISO() });
+  };
+
+  /**
+   * addStep
+   *
+   * Adds a wizard step. The first step adopts every existing field so turning
+   * a single-page form into a wizard never changes what is rendered.
+   */
+  const addStep = () => {
+    const existing = form.steps ?? [];
+    const step: FormStep = {
+      id: makeId("s"),
+      title: `Step ${existing.length + 1}`,
+      fieldIds: existing.length === 0 ? form.fields.map((f) => f.id) : [],
+    };
 
-    persist({ ...form, fields: next, updatedAtISO: nowISO() });
+    persist({ ...form, steps: [...existing, step], updatedAtISO: nowISO() });
+  };
+
+  /**
+   * updateStep / moveStep
+   *
+   * Rename and reorder wizard steps.
+   */
+  const updateStep = (id: string, patch: Partial<FormStep>) => {
+    const steps = (form.steps ?? []).map((s) => (s.id === id ? { ...s, ...patch } : s));
+    persist({ ...form, steps, updatedAtISO: nowISO() });
+  };
+
+  const moveStep = (id: string, direction: "up" | "down") => {
+    const steps = [...(form.steps ?? [])];
+    const idx = steps.findIndex((s) => s.id === id);
+    const target = direction === "up" ? idx - 1 : idx + 1;
+    if (idx === -1 || target < 0 || target >= steps.length) return;
+
+    [steps[idx], steps[target]] = [steps[target], steps[idx]];
+    persist({ ...form, steps, updatedAtISO: nowISO() });
+  };
+
+  /**
+   * deleteStep
+   *
+   * Removes a step without losing its fields: they move to the previous step
+   * (or the next one when deleting the first). Deleting the last remaining
+   * step turns the form back into a single page.
+   */
+  const deleteStep = (id: string) => {
+    const steps = form.steps ?? [];
+    const idx = steps.findIndex((s) => s.id === id);
+    if (idx === -1) return;
+
+    const removed = steps[idx];
+    const heirIdx = idx > 0 ? idx - 1 : 1;
+    const next = steps
+      .map((s, i) => (i === heirIdx ? { ...s, fieldIds: [...s.fieldIds, ...removed.fieldIds] } : s))
+      .filter((s) => s.id !== id);
+
+    persist({
+      ...form,
+      steps: next.length > 0 ? syncStepOrder(next, form.fields) : undefined,
+      updatedAtISO: nowISO(),
+    });
+  };
+
+  /**
+   * assignStep
+   *
+   * Moves a field to another wizard step.
+   */
+  const assignStep = (fieldId: string, stepId: string) => {
+    if (!form.steps) return;
+    const steps = assignFieldToStep(form.steps, fieldId, stepId, form.fields);
+    persist({ ...form, steps, updatedAtISO: nowISO() });
+  };
+
+  /**
+   * updateTheme / applyThemePreset
+   *
+   * Any manual token edit turns the theme into a custom one (no preset id).
+   * Typing in one token coalesces into a single undo step.
+   */
+  const updateTheme = (patch: Partial<FormTheme>, coalesceKey: string) => {
+    const theme: FormTheme = { ...resolveTheme(form), ...patch, preset: undefined };
+    persist({ ...form, theme, updatedAtISO: nowISO() }, `theme:${coalesceKey}`);
+  };
+
+  const applyThemePreset = (id: string) => {
+    const preset = THEME_PRESETS.find((p) => p.id === id);
+    if (!preset) return;
+    persist({ ...form, theme: preset.theme, updatedAtISO: nowISO() });
+  };
+
+  /**
+   * updateWebhook / removeWebhook
+   *
+   * The first edit creates the webhook (enabled). Typing in one setting
+   * coalesces into a single undo step.
+   */
+  const updateWebhook = (patch: Partial<FormWebhook>, coalesceKey: string) => {
+    const webhook: FormWebhook = { ...(form.webhook ?? DEFAULT_WEBHOOK), ...patch };
+    persist({ ...form, webhook, updatedAtISO: nowISO() }, `webhook:${coalesceKey}`);
+  };
+
+  const removeWebhook = () => {
+    const next: FormDefinition = { ...form, updatedAtISO: nowISO() };
+    delete next.webhook;
+    persist(next);
   };
 
   /**
    * resetToTemplate
    *
-   * Clears storage and restores the starter template.
+   * Replaces this form's content with the starter template.
+   * The id and creation date are kept, so it stays the same library entry.
    * Also restores the expanded field to the first field, if present.
    */
   const resetToTemplate = () => {
-    clearFormStorage();
-
-    const next = { ...starter, updatedAtISO: nowISO() };
+    const next = { ...starter, id: form.id, createdAtISO: form.createdAtISO, updatedAtISO: nowISO() };
     persist(next);
 
     setExpandedFieldId(next.fields?.[0]?.id ?? null);
+    setIssueNotice(null);
 
     toast({
       title: "Studio Reset",
-      description: "Restored the starter template and cleared saved edits.",
+      description: "Restored the starter template and discarded this form's edits.",
       variant: "destructive",
+      action: { label: "Undo", onClick: () => undoIfLatest(next) },
+    });
+  };
+
+  /**
+   * importFromFile
+   *
+   * Adds a Form JSON file (as produced by Export) to the library and opens it.
+   * Older versions are migrated and the result validated first; on failure
+   * nothing is saved and the path-aware issues are shown above the Builder.
+   */
+  const importFromFile = async (file: File) => {
+    const parsed = parseStoredFormJson(await file.text());
+
+    if (!parsed.ok) {
+      setIssueNotice({
+        source: "import",
+        title: `Couldn't import ${file.name}`,
+        description: "The file is not a valid form definition. Your current form was not changed.",
+        issues: parsed.issues,
+      });
+      return;
+    }
+
+    // A different form: its history starts fresh.
+    const imported = importForm(parsed.form);
+    setHistory(createHistory(imported));
+    setExpandedFieldId(imported.fields[0]?.id ?? null);
+    setIssueNotice(null);
+
+    toast({
+      title: "Form Imported",
+      description: `Added "${imported.title}" from ${file.name} to your library.`,
+      variant: "success",
+    });
+  };
+
+  /**
+   * importFromSchema
+   *
+   * Adds a form built from a JSON Schema (see SchemaImportDialog) to the
+   * library and opens it. Keywords the importer could not represent stay
+   * listed above the Builder until dismissed.
+   */
+  const importFromSchema = (imported: FormDefinition, unsupported: FormParseIssue[]) => {
+    const created = createForm(imported);
+    setHistory(createHistory(created));
+    setExpandedFieldId(created.fields[0]?.id ?? null);
+    setSchemaDialogOpen(false);
+    setIssueNotice(
+      unsupported.length > 0
+        ? {
+            source: "import",
+            title: `Imported "${created.title}" with ${unsupported.length} unsupported schema keyword${unsupported.length === 1 ? "" : "s"}`,
+            description: "These parts of the schema have no form equivalent and were left out. Review the fields below.",
+            issues: unsupported,
+          }
+        : null
+    );
+
+    toast({
+      title: "Schema Imported",
+      description: `Added "${created.title}" with ${created.fields.length} fields to your library.`,
+      variant: "success",
     });
   };
 
@@ -293,6 +682,10 @@ export default function StudioPage() {
             Export
           </Link>
 
+          <Link href="/history" className="ffd-btn-ghost">
+            History
+          </Link>
+
           <button
             type="button"
             onClick={() => setShowPreview((v) => !v)}
@@ -302,6 +695,48 @@ export default function StudioPage() {
             {showPreview ? "Hide preview" : "Show preview"}
           </button>
 
+          <button
+            type="button"
+            onClick={undoEdit}
+            disabled={!canUndo(history)}
+            className="ffd-btn-ghost disabled:opacity-50"
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            type="button"
+            onClick={redoEdit}
+            disabled={!canRedo(history)}
+            className="ffd-btn-ghost disabled:opacity-50"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+
+          <button
+            type="button"
+            onClick={() => importInputRef.current?.click()}
+            className="ffd-btn-ghost"
+          >
+            Import JSON
+          </button>
+          <button type="button" onClick={() => setSchemaDialogOpen(true)} className="ffd-btn-ghost">
+            Import JSON Schema
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              // Reset so picking the same file again still fires onChange.
+              e.target.value = "";
+              if (file) void importFromFile(file);
+            }}
+          />
+
           {/* Reset should be "danger" since it destroys local work */}
           <button type="button" onClick={resetToTemplate} className="ffd-btn-danger">
             Reset
@@ -309,6 +744,25 @@ export default function StudioPage() {
         </>
       }
     >
+      {schemaDialogOpen ? (
+        <SchemaImportDialog onClose={() => setSchemaDialogOpen(false)} onImport={importFromSchema} />
+      ) : null}
+
+      {issueNotice ? (
+        <div className="mb-6">
+          <FormIssuesNotice
+            title={issueNotice.title}
+            description={issueNotice.description}
+            issues={issueNotice.issues}
+            actions={
+              <button type="button" onClick={() => setIssueNotice(null)} className="ffd-btn-ghost">
+                Dismiss
+              </button>
+            }
+          />
+        </div>
+      ) : null}
+
       {/* One stretched grid row; both columns fill height and scroll internally. */}
       <section className={`grid gap-6 items-stretch ${gridCols}`}>
         {/* ------------------------------------------------------------------ */}
@@ -331,7 +785,9 @@ export default function StudioPage() {
               <label className="text-sm font-medium">Form Title</label>
               <input
                 value={form.title}
-                onChange={(e) => persist({ ...form, title: e.target.value, updatedAtISO: nowISO() })}
+                onChange={(e) =>
+                  persist({ ...form, title: e.target.value, updatedAtISO: nowISO() }, "form:title")
+                }
                 className="mt-1 w-full ffd-input"
               />
             </div>
@@ -341,13 +797,31 @@ export default function StudioPage() {
               <input
                 value={form.description ?? ""}
                 onChange={(e) =>
-                  persist({ ...form, description: e.target.value, updatedAtISO: nowISO() })
+                  persist(
+                    { ...form, description: e.target.value, updatedAtISO: nowISO() },
+                    "form:description"
+                  )
                 }
                 className="mt-1 w-full ffd-input"
               />
             </div>
           </div>
 
+          {/* Wizard steps */}
+          <StepsEditor
+            steps={form.steps ?? []}
+            onAdd={addStep}
+            onUpdate={updateStep}
+            onMove={moveStep}
+            onDelete={deleteStep}
+          />
+
+          {/* Theme */}
+          <ThemeEditor theme={resolveTheme(form)} onUpdate={updateTheme} onApplyPreset={applyThemePreset} />
+
+          {/* Webhook */}
+          <WebhookEditor form={form} onUpdate={updateWebhook} onRemove={removeWebhook} />
+
           {/* Add field controls */}
           <div className="mt-6">
             <div className="flex items-center justify-between">
@@ -363,6 +837,7 @@ export default function StudioPage() {
               <AddButton label="Date" onClick={() => addField("date")} />
               <AddButton label="Select" onClick={() => addField("select")} />
               <AddButton label="Checkbox" onClick={() => addField("checkbox")} />
+              <AddButton label="Group (repeatable)" onClick={() => addField("group")} />
             </div>
           </div>
 
@@ -394,7 +869,13 @@ export default function StudioPage() {
                     onMoveDown={() => moveField(field.id, "down")}
                     onDelete={() => deleteField(field.id)}
                   >
-                    <FieldProperties field={field} onPatch={(patch) => updateField(field.id, patch)} />
+                    <FieldProperties
+                      field={field}
+                      fields={form.fields}
+                      steps={form.steps ?? []}
+                      onPatch={(patch) => updateField(field.id, patch)}
+                      onStepChange={(stepId) => assignStep(field.id, stepId)}
+                    />
                   </FieldAccordion>
                 );
               })}
@@ -584,11 +1065,20 @@ function FieldAccordion({
  */
 function FieldProperties({
   field,
+  fields,
+  steps,
   onPatch,
+  onStepChange,
 }: {
   field: Field;
-  onPatch: (patch: Partial<Field>) => void;
+  fields: Field[];
+  steps: FormStep[];
+  onPatch: (patch: FieldPatch) => void;
+  onStepChange: (stepId: string) => void;
 }) {
+  // Unassigned fields render on the last step (see resolveFormSteps).
+  const stepId = findStepIdForField(steps, field.id) ?? steps[steps.length - 1]?.id ?? "";
+
   return (
     <div className="space-y-4">
       <div className="grid gap-3 md:grid-cols-2">
@@ -603,9 +1093,10 @@ function FieldProperties({
 
         <div>
           <label className="text-sm font-medium">Name (key)</label>
-          <input
+          <FieldNameInput
             value={field.name}
-            onChange={(e) => onPatch({ name: e.target.value })}
+            siblings={fields.filter((f) => f.id !== field.id)}
+            onChange={(name) => onPatch({ name })}
             className="mt-1 w-full ffd-input font-mono"
           />
           {!isValidFieldName(field.name) ? (
@@ -637,13 +1128,971 @@ function FieldProperties({
             className="mt-1 w-full ffd-input"
           />
         </div>
+
+        {steps.length > 0 ? (
+          <div>
+            <label className="text-sm font-medium">Step</label>
+            <select
+              value={stepId}
+              onChange={(e) => onStepChange(e.target.value)}
+              className="mt-1 w-full ffd-input"
+            >
+              {steps.map((step, i) => (
+                <option key={step.id} value={step.id}>
+                  {i + 1}. {step.title || "Untitled step"}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
       </div>
 
+      <div className="grid gap-3 md:grid-cols-2">
+        <ConditionEditor
+          label="Show only when"
+          condition={field.visibleWhen}
+          sources={fields.filter((f) => f.id !== field.id && f.type !== "group")}
+          onChange={(visibleWhen) => onPatch({ visibleWhen })}
+        />
+        <ConditionEditor
+          label="Required when"
+          condition={field.requiredWhen}
+          sources={fields.filter((f) => f.id !== field.id && f.type !== "group")}
+          onChange={(requiredWhen) => onPatch({ requiredWhen })}
+        />
+      </div>
+
+      {field.type === "group" ? (
+        <GroupChildrenEditor
+          items={field.fields ?? []}
+          onChange={(items) => onPatch({ fields: items })}
+        />
+      ) : null}
+
       <AdvancedRules field={field} onPatch={onPatch} />
     </div>
   );
 }
 
+/**
+ * FieldNameInput
+ *
+ * Name (key) input that never stores a name a sibling already uses: such a
+ * form no longer parses (see form-parser), so it could not be reopened. A
+ * duplicate stays in the input with an error until it is edited further or
+ * the input loses focus (which restores the stored name).
+ */
+function FieldNameInput({
+  value,
+  siblings,
+  onChange,
+  className,
+}: {
+  value: string;
+  siblings: Array<Field | ChildField>;
+  onChange: (next: string) => void;
+  className?: string;
+}) {
+  const [duplicate, setDuplicate] = useState<string | null>(null);
+
+  const change = (next: string) => {
+    if (next.trim() && siblings.some((f) => f.name === next)) return setDuplicate(next);
+    setDuplicate(null);
+    onChange(next);
+  };
+
+  return (
+    <>
+      <input
+        value={duplicate ?? value}
+        onChange={(e) => change(e.target.value)}
+        onBlur={() => setDuplicate(null)}
+        className={className}
+      />
+      {duplicate !== null ? (
+        <p className="mt-1 text-xs text-red-600">Another field already uses this name.</p>
+      ) : null}
+    </>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/* Group Children Editor                                                      */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * makeChildField
+ *
+ * Creates a child field for a repeatable group with a name unique among its siblings.
+ */
+function makeChildField(type: ChildField["type"], siblings: ChildField[]): ChildField {
+  const taken = new Set(siblings.map((f) => f.name));
+  let name = "item";
+  let i = 1;
+
+  while (taken.has(name)) {
+    name = `item${i}`;
+    i++;
+  }
+
+  return { id: makeId("f"), name, label: "Item", type, required: false, placeholder: "" };
+}
+
+/**
+ * GroupChildrenEditor
+ *
+ * Edits the child fields rendered once per item of a repeatable group.
+ * Children are flat (no nested groups), so the type picker excludes "group".
+ */
+function GroupChildrenEditor({
+  items,
+  onChange,
+}: {
+  items: ChildField[];
+  onChange: (next: ChildField[]) => void;
+}) {
+  const update = (id: string, patch: FieldPatch) =>
+    onChange(items.map((c) => (c.id === id ? (applyFieldPatch(c, patch) as ChildField) : c)));
+
+  const add = () => onChange([...items, makeChildField("text", items)]);
+
+  const remove = (id: string) => onChange(items.filter((c) => c.id !== id));
+
+  return (
+    <div className="space-y-2 rounded-xl border border-[var(--border)] bg-[var(--surface)] p-3">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Item fields</p>
+        <button type="button" onClick={add} className="ffd-btn-ghost px-3 py-1">
+          Add item field
+        </button>
+      </div>
+
+      {items.length === 0 ? (
+        <p className="text-sm ffd-muted">No item fields yet. Add one to use this group.</p>
+      ) : null}
+
+      {items.map((child) => (
+        <div key={child.id} className="space-y-2 border-t border-[var(--border)] pt-2">
+          <div className="grid gap-2 md:grid-cols-[1fr_1fr_auto_auto_auto]">
+            <div>
+              <label className="text-xs font-medium">Label</label>
+              <input
+                value={child.label}
+                onChange={(e) => update(child.id, { label: e.target.value })}
+                className="mt-1 w-full ffd-input"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium">Name (key)</label>
+              <FieldNameInput
+                value={child.name}
+                siblings={items.filter((c) => c.id !== child.id)}
+                onChange={(name) => update(child.id, { name })}
+                className="mt-1 w-full ffd-input font-mono"
+              />
+            </div>
+            <div>
+              <label className="text-xs font-medium">Type</label>
+              <select
+                value={child.type}
+                onChange={(e) => update(child.id, { type: e.target.value as ChildField["type"] })}
+                className="mt-1 w-full ffd-input"
+              >
+                {CHILD_FIELD_TYPES.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-end gap-2 pb-3">
+              <input
+                type="checkbox"
+                checked={!!child.required}
+                onChange={(e) => update(child.id, { required: e.target.checked })}
+                className="h-4 w-4 accent-(--ring)"
+              />
+              <span className="text-xs font-medium">Required</span>
+            </label>
+            <div className="flex items-end">
+              <button type="button" onClick={() => remove(child.id)} className="ffd-btn-danger">
+                Remove
+              </button>
+            </div>
+          </div>
+
+          {!isValidFieldName(child.name) ? (
+            <p className="text-sm text-red-600">
+              Field name must start with a letter and contain only letters, numbers, or underscores.
+            </p>
+          ) : null}
+
+          <AdvancedRules field={child} onPatch={(patch) => update(child.id, patch)} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const CHILD_FIELD_TYPES: ChildField["type"][] = [
+  "text",
+  "textarea",
+  "email",
+  "number",
+  "date",
+  "select",
+  "checkbox",
+];
+
+/* -------------------------------------------------------------------------- */
+/* Steps Editor                                                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * StepsEditor
+ *
+ * Manages wizard steps (add, rename, reorder, delete).
+ * Field-to-step assignment lives in each field's properties panel.
+ */
+function StepsEditor({
+  steps,
+  onAdd,
+  onUpdate,
+  onMove,
+  onDelete,
+}: {
+  steps: FormStep[];
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<FormStep>) => void;
+  onMove: (id: string, direction: "up" | "down") => void;
+  onDelete: (id: string) => void;
+}) {
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-semibold">Steps</p>
+        <button type="button" onClick={onAdd} className="ffd-btn-ghost px-3 py-1">
+          Add step
+        </button>
+      </div>
+
+      {steps.length === 0 ? (
+        <p className="mt-2 text-xs ffd-muted">
+          Single page. Add a step to turn this form into a multi-step wizard.
+        </p>
+      ) : (
+        <div className="mt-3 space-y-2">
+          {steps.map((step, index) => (
+            <div key={step.id} className="flex items-center gap-2">
+              <span className="w-6 text-xs ffd-muted">{index + 1}.</span>
+              <input
+                value={step.title}
+                onChange={(e) => onUpdate(step.id, { title: e.target.value })}
+                className="w-full ffd-input"
+                aria-label={`Step ${index + 1} title`}
+              />
+              <span className="shrink-0 text-xs ffd-muted">{step.fieldIds.length} fields</span>
+              <button
+                type="button"
+                onClick={() => onMove(step.id, "up")}
+                disabled={index === 0}
+                className="ffd-btn px-3 py-1 disabled:opacity-40"
+                aria-label={`Move step ${index + 1} up`}
+              >
+                Up
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(step.id, "down")}
+                disabled={index === steps.length - 1}
+                className="ffd-btn px-3 py-1 disabled:opacity-40"
+                aria-label={`Move step ${index + 1} down`}
+              >
+                Down
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(step.id)}
+                className="ffd-btn-danger px-3 py-1"
+                aria-label={`Delete step ${index + 1}`}
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/* JSON Schema Import                                                         */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * SchemaImportDialog
+ *
+ * Modal for building a form from an existing JSON Schema (pasted or loaded
+ * from a file). Shows the fields it maps to and every keyword it cannot
+ * represent before anything is imported.
+ */
+function SchemaImportDialog({
+  onClose,
+  onImport,
+}: {
+  onClose: () => void;
+  onImport: (form: FormDefinition, unsupported: FormParseIssue[]) => void;
+}) {
+  const dialogRef = useRef<HTMLDialogElement | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [text, setText] = useState("");
+
+  // Mounted means open: show as a modal (Escape closes via onClose).
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (dialog && !dialog.open) dialog.showModal();
+  }, []);
+
+  const result = useMemo(() => (text.trim() ? importJsonSchemaText(text) : null), [text]);
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClose={onClose}
+      className="ffd-card m-auto w-full max-w-2xl p-5 backdrop:bg-black/40"
+      aria-labelledby="schema-import-title"
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 id="schema-import-title" className="ffd-heading text-lg font-semibold">
+            Import JSON Schema
+          </h2>
+          <p className="mt-1 text-sm ffd-muted">
+            Each top-level property becomes a field. The form is added to your library as a new entry.
+          </p>
+        </div>
+        <button type="button" onClick={() => fileInputRef.current?.click()} className="ffd-btn-ghost shrink-0">
+          Choose file
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={async (e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) setText(await file.text());
+          }}
+        />
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder='{ "type": "object", "properties": { … } }'
+        className="mt-4 h-48 w-full ffd-input font-mono text-xs"
+        aria-label="JSON Schema"
+        spellCheck={false}
+      />
+
+      {result && !result.ok ? (
+        <div className="mt-4">
+          <FormIssuesNotice title="This schema can't be imported" issues={result.issues} />
+        </div>
+      ) : null}
+
+      {result?.ok ? (
+        <div className="mt-4 space-y-4">
+          <div>
+            <p className="text-sm font-semibold">
+              {result.form.fields.length} field{result.form.fields.length === 1 ? "" : "s"} for “{result.form.title}”
+            </p>
+            <ul className="mt-2 max-h-40 space-y-1 overflow-auto text-xs">
+              {result.form.fields.map((field) => (
+                <li key={field.id} className="flex justify-between gap-3">
+                  <span>
+                    {field.label}
+                    {field.required ? <span className="ffd-muted"> (required)</span> : null}
+                  </span>
+                  <span className="font-mono ffd-muted">
+                    {field.type === "group" ? `group of ${field.fields.length}` : field.type}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {result.unsupported.length > 0 ? (
+            <FormIssuesNotice
+              title={`${result.unsupported.length} keyword${result.unsupported.length === 1 ? "" : "s"} can't be represented`}
+              description="They will be left out of the imported form."
+              issues={result.unsupported}
+            />
+          ) : (
+            <p className="text-xs ffd-muted">Every keyword in this schema maps to the form.</p>
+          )}
+        </div>
+      ) : null}
+
+      <div className="mt-5 flex justify-end gap-2">
+        <button type="button" onClick={onClose} className="ffd-btn-ghost">
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => result?.ok && onImport(result.form, result.unsupported)}
+          disabled={!result?.ok}
+          className="ffd-btn disabled:opacity-50"
+        >
+          Import
+        </button>
+      </div>
+    </dialog>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/* Theme Editor                                                               */
+/* -------------------------------------------------------------------------- */
+
+const THEME_MODE_LABEL: Record<ThemeMode, string> = {
+  light: "Light",
+  dark: "Dark",
+  auto: "Auto (follow system)",
+};
+
+const THEME_COLOR_LABEL: Record<keyof ThemeColors, string> = {
+  primary: "Primary",
+  primaryText: "Primary text",
+  text: "Text",
+  muted: "Muted text",
+  background: "Background",
+  surface: "Inputs",
+  border: "Borders",
+  error: "Errors",
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * ThemeEditor
+ *
+ * Edits the form theme: a preset picker plus every token (mode, both color
+ * palettes, typography, spacing, radius). Collapsed by default.
+ */
+function ThemeEditor({
+  theme,
+  onUpdate,
+  onApplyPreset,
+}: {
+  theme: FormTheme;
+  onUpdate: (patch: Partial<FormTheme>, coalesceKey: string) => void;
+  onApplyPreset: (id: string) => void;
+}) {
+  const palette = (key: "light" | "dark") => (
+    <div>
+      <p className="text-xs font-semibold">{key === "light" ? "Light colors" : "Dark colors"}</p>
+      <div className="mt-2 space-y-2">
+        {(Object.keys(THEME_COLOR_LABEL) as Array<keyof ThemeColors>).map((color) => {
+          const value = theme[key][color];
+          const update = (next: string) => onUpdate({ [key]: { ...theme[key], [color]: next } }, `${key}.${color}`);
+
+          return (
+            <div key={color} className="flex items-center gap-2">
+              <input
+                type="color"
+                value={HEX_COLOR.test(value) ? value : "#ffffff"}
+                onChange={(e) => update(e.target.value)}
+                className="h-8 w-10 shrink-0 cursor-pointer"
+                aria-label={`${THEME_COLOR_LABEL[color]} (${key})`}
+              />
+              <input
+                value={value}
+                onChange={(e) => update(e.target.value)}
+                className="w-full ffd-input"
+                aria-label={`${THEME_COLOR_LABEL[color]} (${key}) value`}
+              />
+              <span className="w-24 shrink-0 text-xs ffd-muted">{THEME_COLOR_LABEL[color]}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  const size = (key: "fontSize" | "spacing" | "radius", label: string, min: number) => (
+    <div>
+      <label className="text-xs font-semibold">{label} (px)</label>
+      <input
+        type="number"
+        min={min}
+        value={theme[key]}
+        onChange={(e) => {
+          const next = toNumberOrUndefined(e.target.value);
+          if (next != null && next >= min) onUpdate({ [key]: next }, key);
+        }}
+        className="mt-1 w-full ffd-input"
+      />
+    </div>
+  );
+
+  return (
+    <details className="mt-6">
+      <summary className="cursor-pointer text-sm font-semibold">
+        Theme
+        <span className="ml-2 text-xs font-normal ffd-muted">
+          {THEME_PRESETS.find((p) => p.id === theme.preset)?.label ?? "Custom"}
+        </span>
+      </summary>
+
+      <div className="mt-3 space-y-4">
+        <div className="grid gap-3 md:grid-cols-2">
+          <div>
+            <label className="text-xs font-semibold">Preset</label>
+            <select
+              value={theme.preset ?? ""}
+              onChange={(e) => onApplyPreset(e.target.value)}
+              className="mt-1 w-full ffd-input"
+            >
+              {theme.preset ? null : <option value="">Custom</option>}
+              {THEME_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-xs font-semibold">Mode</label>
+            <select
+              value={theme.mode}
+              onChange={(e) => onUpdate({ mode: e.target.value as ThemeMode }, "mode")}
+              className="mt-1 w-full ffd-input"
+            >
+              {(Object.keys(THEME_MODE_LABEL) as ThemeMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {THEME_MODE_LABEL[mode]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="text-xs font-semibold">Font family</label>
+          <input
+            value={theme.fontFamily}
+            onChange={(e) => onUpdate({ fontFamily: e.target.value }, "fontFamily")}
+            className="mt-1 w-full ffd-input"
+            placeholder="Arial, sans-serif"
+          />
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3">
+          {size("fontSize", "Font size", 1)}
+          {size("spacing", "Spacing", 0)}
+          {size("radius", "Radius", 0)}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {palette("light")}
+          {palette("dark")}
+        </div>
+      </div>
+    </details>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/* Webhook Editor                                                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Random 32-byte hex string for the signing secret.
+ */
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * WebhookEditor
+ *
+ * Edits the form's webhook (URL, signing secret, extra headers), sends a
+ * test payload and shows the delivery log. Collapsed by default; the log is
+ * loaded when the section is opened.
+ */
+function WebhookEditor({
+  form,
+  onUpdate,
+  onRemove,
+}: {
+  form: FormDefinition;
+  onUpdate: (patch: Partial<FormWebhook>, coalesceKey: string) => void;
+  onRemove: () => void;
+}) {
+  const webhook = form.webhook ?? DEFAULT_WEBHOOK;
+  const issues = form.webhook ? webhookIssues(webhook) : [];
+  const [attempts, setAttempts] = useState<WebhookDeliveryAttempt[] | null>(null);
+  const [sending, setSending] = useState(false);
+
+  const loadLog = async () => {
+    if (!SUBMISSION_API_ENABLED) return;
+    const result = await fetchDeliveryAttempts(form.id);
+    if (result.ok) setAttempts(result.attempts);
+    else toast({ title: "Delivery Log Unavailable", description: result.message, variant: "destructive" });
+  };
+
+  const sendTest = async () => {
+    setSending(true);
+    const result = await sendTestWebhook(form);
+    setSending(false);
+
+    if (!result.ok) {
+      toast({ title: "Test Not Sent", description: result.message, variant: "destructive" });
+      return;
+    }
+
+    const { attempt } = result;
+    toast({
+      title: attempt.ok ? "Test Delivered" : "Test Delivery Failed",
+      description: attempt.status !== null ? `The endpoint answered ${attempt.status}.` : attempt.error,
+      variant: attempt.ok ? "success" : "destructive",
+    });
+    await loadLog();
+  };
+
+  const updateHeader = (index: number, patch: Partial<WebhookHeader>) => {
+    const headers = webhook.headers.map((header, i) => (i === index ? { ...header, ...patch } : header));
+    onUpdate({ headers }, `headers.${index}`);
+  };
+
+  const status = !form.webhook ? "Off" : issues.length > 0 ? "Incomplete" : webhook.enabled ? "On" : "Paused";
+
+  return (
+    <details
+      className="mt-6"
+      onToggle={(e) => {
+        if (e.currentTarget.open && attempts === null) void loadLog();
+      }}
+    >
+      <summary className="cursor-pointer text-sm font-semibold">
+        Webhook
+        <span className="ml-2 text-xs font-normal ffd-muted">{status}</span>
+      </summary>
+
+      <div className="mt-3 space-y-4">
+        <p className="text-xs ffd-muted">
+          The submission API POSTs every accepted submission here as JSON, signed with HMAC-SHA256 in the{" "}
+          <code>{WEBHOOK_SIGNATURE_HEADER}</code> header. Failed deliveries are retried with exponential backoff.
+        </p>
+
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={webhook.enabled}
+            onChange={(e) => onUpdate({ enabled: e.target.checked }, "enabled")}
+          />
+          Deliver submissions
+        </label>
+
+        <div>
+          <label className="text-xs font-semibold">URL</label>
+          <input
+            value={webhook.url}
+            onChange={(e) => onUpdate({ url: e.target.value }, "url")}
+            className="mt-1 w-full ffd-input"
+            placeholder="https://example.com/hooks/forms"
+            spellCheck={false}
+          />
+        </div>
+
+        <div>
+          <label className="text-xs font-semibold">Signing secret</label>
+          <div className="mt-1 flex gap-2">
+            <input
+              type="password"
+              value={webhook.secret}
+              onChange={(e) => onUpdate({ secret: e.target.value }, "secret")}
+              className="w-full ffd-input font-mono"
+              autoComplete="off"
+              spellCheck={false}
+            />
+            <button
+              type="button"
+              onClick={() => onUpdate({ secret: generateSecret() }, "secret")}
+              className="ffd-btn-ghost shrink-0"
+            >
+              Generate
+            </button>
+            <button
+              type="button"
+              onClick={() => void navigator.clipboard.writeText(webhook.secret)}
+              disabled={!webhook.secret}
+              className="ffd-btn-ghost shrink-0 disabled:opacity-50"
+            >
+              Copy
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between">
+            <p className="text-xs font-semibold">Headers</p>
+            <button
+              type="button"
+              onClick={() => onUpdate({ headers: [...webhook.headers, { name: "", value: "" }] }, "headers")}
+              className="ffd-btn-ghost px-3 py-1"
+            >
+              Add header
+            </button>
+          </div>
+          <div className="mt-2 space-y-2">
+            {webhook.headers.map((header, index) => (
+              <div key={index} className="flex gap-2">
+                <input
+                  value={header.name}
+                  onChange={(e) => updateHeader(index, { name: e.target.value })}
+                  className="w-2/5 ffd-input"
+                  placeholder="Authorization"
+                  aria-label={`Header ${index + 1} name`}
+                  spellCheck={false}
+                />
+                <input
+                  value={header.value}
+                  onChange={(e) => updateHeader(index, { value: e.target.value })}
+                  className="w-full ffd-input"
+                  aria-label={`Header ${index + 1} value`}
+                  spellCheck={false}
+                />
+                <button
+                  type="button"
+                  onClick={() => onUpdate({ headers: webhook.headers.filter((_, i) => i !== index) }, "headers")}
+                  className="ffd-btn-danger px-3 py-1"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {issues.length > 0 ? (
+          <ul className="list-disc space-y-1 pl-5 text-xs text-[var(--danger)]">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        ) : null}
+
+        {SUBMISSION_API_ENABLED ? <AdminTokenField /> : null}
+
+        <div className="flex flex-wrap gap-2">
+          {SUBMISSION_API_ENABLED ? (
+            <>
+              <button
+                type="button"
+                onClick={() => void sendTest()}
+                disabled={sending || !form.webhook || issues.length > 0}
+                className="ffd-btn disabled:opacity-50"
+              >
+                {sending ? "Sending…" : "Send test payload"}
+              </button>
+              <button type="button" onClick={() => void loadLog()} className="ffd-btn-ghost">
+                Refresh log
+              </button>
+            </>
+          ) : null}
+          {form.webhook ? (
+            <button type="button" onClick={onRemove} className="ffd-btn-danger">
+              Remove webhook
+            </button>
+          ) : null}
+        </div>
+
+        {!SUBMISSION_API_ENABLED ? (
+          <p className="text-xs ffd-muted">
+            Deliveries are sent by the submission API, which static builds don&apos;t include.
+          </p>
+        ) : attempts && attempts.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-left text-xs">
+              <thead>
+                <tr className="border-b border-[var(--border)]">
+                  <th className="px-2 py-1 font-semibold">Time</th>
+                  <th className="px-2 py-1 font-semibold">Event</th>
+                  <th className="px-2 py-1 font-semibold">Attempt</th>
+                  <th className="px-2 py-1 font-semibold">Response</th>
+                  <th className="px-2 py-1 font-semibold">Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...attempts]
+                  .reverse()
+                  .slice(0, 25)
+                  .map((attempt) => (
+                    <tr key={`${attempt.deliveryId}:${attempt.attempt}`} className="border-b border-[var(--border)]">
+                      <td className="whitespace-nowrap px-2 py-1">{new Date(attempt.atISO).toLocaleString()}</td>
+                      <td className="px-2 py-1">{attempt.event}</td>
+                      <td className="px-2 py-1">{attempt.attempt}</td>
+                      <td className={`px-2 py-1 ${attempt.ok ? "" : "text-[var(--danger)]"}`}>
+                        {attempt.status ?? attempt.error}
+                        {attempt.nextRetryAtISO ? (
+                          <span className="block ffd-muted">
+                            Retry at {new Date(attempt.nextRetryAtISO).toLocaleTimeString()}
+                          </span>
+                        ) : null}
+                      </td>
+                      <td className="px-2 py-1">{attempt.durationMs} ms</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        ) : attempts ? (
+          <p className="text-xs ffd-muted">No deliveries yet.</p>
+        ) : null}
+      </div>
+    </details>
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/* Condition Editor                                                           */
+/* -------------------------------------------------------------------------- */
+
+const OPERATOR_LABEL: Record<ConditionOperator, string> = {
+  equals: "equals",
+  notEquals: "does not equal",
+  isEmpty: "is empty",
+  isNotEmpty: "is not empty",
+};
+
+/**
+ * ConditionEditor
+ *
+ * Edits a single FieldCondition (visibleWhen / requiredWhen).
+ * - Source "None" clears the condition
+ * - The value control adapts to the source field type so the stored value
+ *   keeps the source's native type (see FieldCondition)
+ * - A checkbox source stores `false` until changed, which is what its
+ *   "Unchecked" option shows (older conditions without a value get it when
+ *   the form is parsed, see form-parser)
+ */
+function ConditionEditor({
+  label,
+  condition,
+  sources,
+  onChange,
+}: {
+  label: string;
+  condition?: FieldCondition;
+  sources: Field[];
+  onChange: (next: FieldCondition | undefined) => void;
+}) {
+  const source = condition ? sources.find((f) => f.id === condition.fieldId) : undefined;
+  const needsValue = condition?.operator === "equals" || condition?.operator === "notEquals";
+
+  const setSource = (fieldId: string) => {
+    if (!fieldId) return onChange(undefined);
+    const next = sources.find((f) => f.id === fieldId);
+    onChange({ fieldId, operator: condition?.operator ?? "equals", value: next?.type === "checkbox" ? false : undefined });
+  };
+
+  const setOperator = (operator: ConditionOperator) => {
+    if (!condition) return;
+    onChange({ ...condition, operator });
+  };
+
+  const setValue = (value: string | number | boolean | undefined) => {
+    if (!condition) return;
+    onChange({ ...condition, value });
+  };
+
+  const selectOptions = source?.type === "select" ? (source.rules?.options ?? []) : [];
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">{label}</label>
+
+      <select
+        value={source ? source.id : ""}
+        onChange={(e) => setSource(e.target.value)}
+        className="w-full ffd-input"
+      >
+        <option value="">None (always)</option>
+        {sources.map((f) => (
+          <option key={f.id} value={f.id}>
+            {f.label || f.name}
+          </option>
+        ))}
+      </select>
+
+      {condition && source ? (
+        <select
+          value={condition.operator}
+          onChange={(e) => setOperator(e.target.value as ConditionOperator)}
+          className="w-full ffd-input"
+        >
+          {(Object.keys(OPERATOR_LABEL) as ConditionOperator[]).map((op) => (
+            <option key={op} value={op}>
+              {OPERATOR_LABEL[op]}
+            </option>
+          ))}
+        </select>
+      ) : null}
+
+      {condition && source && needsValue ? (
+        source.type === "checkbox" ? (
+          <select
+            value={condition.value === true ? "true" : "false"}
+            onChange={(e) => setValue(e.target.value === "true")}
+            className="w-full ffd-input"
+          >
+            <option value="true">Checked</option>
+            <option value="false">Unchecked</option>
+          </select>
+        ) : source.type === "select" ? (
+          <select
+            value={typeof condition.value === "string" ? condition.value : ""}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-full ffd-input"
+          >
+            <option value="">Select an option</option>
+            {selectOptions.map((opt) => (
+              <option key={opt.value} value={opt.value}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+        ) : source.type === "number" ? (
+          <input
+            inputMode="numeric"
+            value={typeof condition.value === "number" ? condition.value : ""}
+            onChange={(e) => setValue(toNumberOrUndefined(e.target.value))}
+            className="w-full ffd-input"
+            placeholder="Value"
+          />
+        ) : (
+          <input
+            value={typeof condition.value === "string" ? condition.value : ""}
+            onChange={(e) => setValue(e.target.value)}
+            className="w-full ffd-input"
+            placeholder="Value"
+          />
+        )
+      ) : null}
+
+      {condition && !source ? (
+        <p className="text-xs text-red-600">The referenced field no longer exists.</p>
+      ) : null}
+    </div>
+  );
+}
+
 /* -------------------------------------------------------------------------- */
 /* Advanced Rules + Select Options Editor                                     */
 /* -------------------------------------------------------------------------- */
@@ -651,8 +2100,8 @@ function FieldProperties({
 /**
  * AdvancedRules
  *
- * Collapsible editor for optional validation rules.
- * Rules are stored on the field definition so they can be reused by:
+ * Collapsible editor for optional validation rules and their custom error
+ * messages. Both are stored on the field definition so they can be reused by:
  * - runtime validation in Preview
  * - JSON Schema export
  * - React/TS export generator
@@ -662,19 +2111,14 @@ function AdvancedRules({
   onPatch,
 }: {
   field: Field;
-  onPatch: (patch: Partial<Field>) => void;
+  onPatch: (patch: FieldPatch) => void;
 }) {
   const [open, setOpen] = useState(false);
 
-  const rules = (field.rules ?? {}) as Partial<{
-    minLength: number;
-    maxLength: number;
-    pattern: string;
-    min: number;
-    max: number;
-    integer: boolean;
-    options: Array<{ label: string; value: string }>;
-  }>;
+  // The panel edits rules generically; only the inputs for `field.type` are shown,
+  // and applyFieldPatch re-narrows whatever is saved.
+  const rules: Partial<TextRules & NumberRules & SelectRules & GroupRules> =
+    "rules" in field ? field.rules ?? {} : {};
 
   const setRules = (next: FieldRules | undefined) => onPatch({ rules: next });
 
@@ -789,6 +2233,42 @@ function AdvancedRules({
             </div>
           )}
 
+          {field.type === "group" && (
+            <div className="grid gap-3 md:grid-cols-2">
+              <div>
+                <label className="text-sm font-medium">Min items</label>
+                <input
+                  inputMode="numeric"
+                  value={numOrEmpty(rules.minItems)}
+                  onChange={(e) =>
+                    setRules({
+                      ...(rules as object),
+                      minItems: toNumberOrUndefined(e.target.value),
+                    } as FieldRules)
+                  }
+                  className="mt-1 w-full ffd-input"
+                  placeholder="e.g., 1"
+                />
+              </div>
+
+              <div>
+                <label className="text-sm font-medium">Max items</label>
+                <input
+                  inputMode="numeric"
+                  value={numOrEmpty(rules.maxItems)}
+                  onChange={(e) =>
+                    setRules({
+                      ...(rules as object),
+                      maxItems: toNumberOrUndefined(e.target.value),
+                    } as FieldRules)
+                  }
+                  className="mt-1 w-full ffd-input"
+                  placeholder="e.g., 5"
+                />
+              </div>
+            </div>
+          )}
+
           {field.type === "select" && (
             <SelectOptionsEditor
               options={Array.isArray(rules.options) ? rules.options : []}
@@ -801,6 +2281,8 @@ function AdvancedRules({
             />
           )}
 
+          <RuleMessagesEditor field={field} onChange={(messages) => onPatch({ messages })} />
+
           <div className="pt-2">
             <button type="button" onClick={clearRules} className="ffd-btn-ghost">
               Clear rules
@@ -812,6 +2294,75 @@ function AdvancedRules({
   );
 }
 
+/**
+ * Names of the rules in the messages editor.
+ */
+const MESSAGE_RULE_LABELS: Record<MessageRule, string> = {
+  required: "Required",
+  email: "Email format",
+  date: "Date format",
+  minLength: "Min length",
+  maxLength: "Max length",
+  pattern: "Pattern",
+  number: "Not a number",
+  integer: "Whole number",
+  min: "Min",
+  max: "Max",
+  option: "Unknown option",
+  minItems: "Min items",
+  maxItems: "Max items",
+};
+
+/**
+ * RuleMessagesEditor
+ *
+ * Custom error message per rule the field currently has. A blank input keeps
+ * the built-in message (shown as the placeholder); messages of rules the
+ * field no longer has are kept but not shown.
+ */
+function RuleMessagesEditor({
+  field,
+  onChange,
+}: {
+  field: Field;
+  onChange: (next: FieldMessages | undefined) => void;
+}) {
+  const rules = messageRules(field);
+  if (rules.length === 0) return null;
+
+  const params = messageParams(field);
+
+  const update = (rule: MessageRule, text: string) => {
+    const next: FieldMessages = { ...field.messages, [rule]: text };
+    if (text === "") delete next[rule];
+    onChange(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-2 pt-2">
+      <div>
+        <p className="text-sm font-medium">Error messages</p>
+        <p className="text-xs ffd-muted">
+          Leave blank for the default. <code>{"{label}"}</code>, <code>{"{min}"}</code> and <code>{"{max}"}</code> are
+          replaced with the field&apos;s label and bounds.
+        </p>
+      </div>
+
+      {rules.map((rule) => (
+        <div key={rule}>
+          <label className="text-xs font-semibold">{MESSAGE_RULE_LABELS[rule]}</label>
+          <input
+            value={field.messages?.[rule] ?? ""}
+            onChange={(e) => update(rule, e.target.value)}
+            className="mt-1 w-full ffd-input"
+            placeholder={defaultRuleMessage(rule, params)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
 /**
  * SelectOptionsEditor
  *
@@ -0,0 +1,351 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { FormDefinition } from "@/lib/form-types";
+import basicContact from "@/templates/basic-contact.json";
+import { loadFormFromStorage } from "@/lib/storage";
+import { SUBMISSION_API_ENABLED, fetchSubmissions } from "@/lib/submission-api";
+import type { StoredSubmission } from "@/lib/submission-api";
+import {
+  exportSubmissions,
+  filterSubmissions,
+  formatSubmissionValue,
+  sortSubmissions,
+  submissionColumns,
+} from "@/lib/submissions";
+import type { SubmissionColumn, SubmissionExportFormat, SubmissionSort } from "@/lib/submissions";
+import AppShell from "@/components/layout/AppShell";
+import AdminTokenField from "@/components/ui/AdminTokenField";
+
+/**
+ * Export formats offered by the toolbar, with file extension and MIME type.
+ */
+const EXPORT_FORMATS: { id: SubmissionExportFormat; label: string; extension: string; mime: string }[] = [
+  { id: "csv", label: "CSV", extension: "csv", mime: "text/csv" },
+  { id: "ndjson", label: "NDJSON", extension: "ndjson", mime: "application/x-ndjson" },
+  { id: "json", label: "JSON", extension: "json", mime: "application/json" },
+];
+
+type LoadState =
+  | { status: "loading" }
+  | { status: "ready"; submissions: StoredSubmission[] }
+  | { status: "error"; message: string };
+
+/**
+ * SubmissionsPage
+ *
+ * Inbox for the selected form's submissions (stored by the submission API):
+ * - Table with one column per field, sortable by clicking a header
+ * - Free-text filter across all answers
+ * - Detail drawer per submission
+ * - Export of the filtered, sorted rows as CSV, NDJSON or JSON
+ *
+ * Answers to fields that were removed since are kept in extra columns
+ * marked "removed".
+ */
+export default function SubmissionsPage() {
+  const starter = basicContact as unknown as FormDefinition;
+  const [loaded] = useState(() => loadFormFromStorage());
+  const form = loaded.status === "loaded" ? loaded.form : starter;
+
+  const [state, setState] = useState<LoadState>({ status: "loading" });
+  const [reloadKey, setReloadKey] = useState(0);
+  const [query, setQuery] = useState("");
+  const [sort, setSort] = useState<SubmissionSort>({ column: null, direction: "desc" });
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!SUBMISSION_API_ENABLED) return;
+
+    let cancelled = false;
+    fetchSubmissions(form.id).then((result) => {
+      if (cancelled) return;
+      setState(
+        result.ok
+          ? { status: "ready", submissions: result.submissions }
+          : { status: "error", message: result.message }
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [form.id, reloadKey]);
+
+  const submissions = useMemo(() => (state.status === "ready" ? state.submissions : []), [state]);
+  const columns = useMemo(() => submissionColumns(form, submissions), [form, submissions]);
+  const rows = useMemo(
+    () => sortSubmissions(filterSubmissions(submissions, columns, query), columns, sort),
+    [submissions, columns, query, sort]
+  );
+  const selected = submissions.find((submission) => submission.id === selectedId) ?? null;
+
+  /**
+   * Clicking the active column flips the direction; a new column starts
+   * ascending (newest first for the received time).
+   */
+  const toggleSort = (column: string | null) => {
+    setSort((prev) =>
+      prev.column === column
+        ? { column, direction: prev.direction === "asc" ? "desc" : "asc" }
+        : { column, direction: column === null ? "desc" : "asc" }
+    );
+  };
+
+  const sortIndicator = (column: string | null) =>
+    sort.column === column ? (sort.direction === "asc" ? " ▲" : " ▼") : "";
+
+  /**
+   * Downloads the rows currently shown.
+   */
+  const download = (format: (typeof EXPORT_FORMATS)[number]) => {
+    const blob = new Blob([exportSubmissions(format.id, rows, columns)], { type: `${format.mime};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${form.id}-submissions.${format.extension}`;
+    a.click();
+
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <AppShell
+      title="Submissions"
+      description={`Responses collected for “${form.title}” by the submission API.`}
+      actions={
+        <>
+          <Link href="/preview" className="ffd-btn-ghost">
+            Preview
+          </Link>
+          <Link href="/studio" className="ffd-btn">
+            Back to Studio
+          </Link>
+        </>
+      }
+    >
+      {!SUBMISSION_API_ENABLED ? (
+        <section className="ffd-card p-6">
+          <p className="text-sm ffd-muted">
+            This build has no submission API (static exports can&apos;t run one). Run the app with{" "}
+            <code>npm run dev</code> or an <code>FFD_SERVER=1</code> build to collect submissions.
+          </p>
+        </section>
+      ) : (
+        <section className="ffd-card p-6">
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Filter submissions…"
+              aria-label="Filter submissions"
+              className="ffd-input w-full max-w-xs"
+            />
+            <p className="text-sm ffd-muted">
+              {rows.length} of {submissions.length} submission{submissions.length === 1 ? "" : "s"}
+            </p>
+            <div className="ml-auto flex flex-wrap gap-2">
+              <button type="button" onClick={() => setReloadKey((key) => key + 1)} className="ffd-btn-ghost">
+                Refresh
+              </button>
+              {EXPORT_FORMATS.map((format) => (
+                <button
+                  key={format.id}
+                  type="button"
+                  onClick={() => download(format)}
+                  disabled={rows.length === 0}
+                  className="ffd-btn-ghost disabled:opacity-50"
+                >
+                  Export {format.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {state.status === "loading" ? <p className="mt-6 text-sm ffd-muted">Loading submissions…</p> : null}
+
+          {state.status === "error" ? (
+            <div className="mt-6 space-y-3">
+              <p className="text-sm text-[var(--danger)]">{state.message}</p>
+              <AdminTokenField />
+            </div>
+          ) : null}
+
+          {state.status === "ready" && submissions.length === 0 ? (
+            <p className="mt-6 text-sm ffd-muted">
+              No submissions yet. Turn on “Send to the submission API” in the Preview and submit the form.
+            </p>
+          ) : null}
+
+          {/* Table */}
+          {submissions.length > 0 ? (
+            <div className="mt-6 overflow-x-auto">
+              <table className="w-full border-collapse text-left text-sm">
+                <thead>
+                  <tr className="border-b border-[var(--border)]">
+                    <th className="whitespace-nowrap px-3 py-2 font-semibold">
+                      <button type="button" onClick={() => toggleSort(null)} className="hover:opacity-80">
+                        Received{sortIndicator(null)}
+                      </button>
+                    </th>
+                    {columns.map((column) => (
+                      <th
+                        key={column.key}
+                        className={`whitespace-nowrap px-3 py-2 font-semibold ${column.removed ? "ffd-muted" : ""}`}
+                        title={column.removed ? `“${column.key}” is no longer a field of this form` : column.key}
+                      >
+                        <button type="button" onClick={() => toggleSort(column.key)} className="hover:opacity-80">
+                          {column.label}
+                          {column.removed ? <span className="ml-1 text-xs font-normal">(removed)</span> : null}
+                          {sortIndicator(column.key)}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((submission) => (
+                    <tr
+                      key={submission.id}
+                      onClick={() => setSelectedId(submission.id)}
+                      className="cursor-pointer border-b border-[var(--border)] hover:bg-[var(--surface-2)]"
+                    >
+                      <td className="whitespace-nowrap px-3 py-2">
+                        <button
+                          type="button"
+                          onClick={() => setSelectedId(submission.id)}
+                          className="underline-offset-2 hover:underline"
+                        >
+                          {new Date(submission.receivedAtISO).toLocaleString()}
+                        </button>
+                      </td>
+                      {columns.map((column) => (
+                        <td
+                          key={column.key}
+                          className={`max-w-60 truncate px-3 py-2 ${column.removed ? "ffd-muted" : ""}`}
+                        >
+                          {formatSubmissionValue(column.field, submission.values[column.key])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </section>
+      )}
+
+      {selected ? (
+        <SubmissionDrawer submission={selected} columns={columns} onClose={() => setSelectedId(null)} />
+      ) : null}
+    </AppShell>
+  );
+}
+
+/**
+ * SubmissionDrawer
+ *
+ * Every answer of one submission, in form order, as a side panel (native
+ * <dialog>, so Escape and the backdrop close it). Group items list their
+ * children; answers to removed fields or group children are marked.
+ */
+function SubmissionDrawer({
+  submission,
+  columns,
+  onClose,
+}: {
+  submission: StoredSubmission;
+  columns: SubmissionColumn[];
+  onClose: () => void;
+}) {
+  const dialogRef = useRef<HTMLDialogElement | null>(null);
+
+  // Mounted means open: show as a modal (Escape closes via onClose).
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (dialog && !dialog.open) dialog.showModal();
+  }, []);
+
+  const removedTag = <span className="ml-1 text-xs font-normal ffd-muted">(removed)</span>;
+
+  return (
+    <dialog
+      ref={dialogRef}
+      onClose={onClose}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) dialogRef.current?.close();
+      }}
+      className="ffd-card m-0 ml-auto h-full max-h-none w-full max-w-md overflow-y-auto p-5 backdrop:bg-black/40"
+      aria-labelledby="submission-drawer-title"
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 id="submission-drawer-title" className="ffd-heading text-lg font-semibold">
+            Submission
+          </h2>
+          <p className="mt-1 text-xs ffd-muted">
+            {new Date(submission.receivedAtISO).toLocaleString()} · <code>{submission.id}</code>
+          </p>
+        </div>
+        <button type="button" onClick={() => dialogRef.current?.close()} className="ffd-btn-ghost shrink-0">
+          Close
+        </button>
+      </div>
+
+      <dl className="mt-5 space-y-4 text-sm">
+        {columns.map((column) => {
+          const value = submission.values[column.key];
+          const field = column.field;
+
+          return (
+            <div key={column.key}>
+              <dt className="font-semibold">
+                {column.label}
+                {column.removed ? removedTag : null}
+              </dt>
+              <dd className="mt-1 break-words">
+                {value === undefined || value === null ? (
+                  <span className="ffd-muted">—</span>
+                ) : field?.type === "group" && Array.isArray(value) ? (
+                  <ol className="space-y-2">
+                    {value.map((item, index) => {
+                      const answers = (item ?? {}) as Record<string, unknown>;
+                      const childNames = new Set(field.fields.map((child) => child.name));
+                      const extra = Object.keys(answers).filter((key) => !childNames.has(key));
+
+                      return (
+                        <li key={index} className="rounded-lg border border-[var(--border)] p-2">
+                          <p className="text-xs ffd-muted">Item {index + 1}</p>
+                          {field.fields.map((child) => (
+                            <p key={child.id}>
+                              <span className="font-medium">{child.label}:</span>{" "}
+                              {formatSubmissionValue(child, answers[child.name]) || (
+                                <span className="ffd-muted">—</span>
+                              )}
+                            </p>
+                          ))}
+                          {extra.map((key) => (
+                            <p key={key} className="ffd-muted">
+                              <span className="font-medium">{key}</span>
+                              {removedTag}: {formatSubmissionValue(undefined, answers[key])}
+                            </p>
+                          ))}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                ) : (
+                  formatSubmissionValue(field, value)
+                )}
+              </dd>
+            </div>
+          );
+        })}
+      </dl>
+    </dialog>
+  );
+}
@@ -6,7 +6,7 @@ import Toaster from "@/components/ui/Toaster";
  * AppShell
  *
  * Shared application chrome for all pages:
- * - Top navigation (consistent across routes)
+ * - Top navigation (consistent across routes, including the form Library)
  * - Optional action slot on the right (page-specific controls like Reset)
  * - Footer
  *
@@ -44,6 +44,13 @@ export default function AppShell({
             >
               Forms For Devs
             </Link>
+
+            {/* Global nav */}
+            <nav aria-label="Main" className="text-sm">
+              <Link href="/library" className="ffd-muted hover:opacity-80 transition">
+                Library
+              </Link>
+            </nav>
           </div>
 
           {/* Right-side action slot (page-specific) */}
@@ -1,28 +1,27 @@
 "use client";
 
-import { useMemo, useState } from "react";
-import { useForm } from "react-hook-form";
-import type { UseFormRegister } from "react-hook-form";
-import type { FormDefinition, Field } from "@/lib/form-types";
-
-/**
- * FieldRules
- *
- * A lightweight, UI-oriented view of the optional rules a field may carry.
- * These rules are authored in the Builder and reused here for runtime validation.
- *
- * Note: This intentionally stays flexible. Different field types support different
- * subsets of rules (e.g., minLength for text, min/max for number, options for select).
- */
-type FieldRules = {
-  minLength?: number;
-  maxLength?: number;
-  pattern?: string;
-  integer?: boolean;
-  min?: number;
-  max?: number;
-  options?: { value: string; label: string }[];
-};
+import { useMemo, useState, useSyncExternalStore } from "react";
+import type { CSSProperties } from "react";
+import { get, useFieldArray, useForm, useWatch } from "react-hook-form";
+import type { Control, FieldErrors, UseFormRegister } from "react-hook-form";
+import type {
+  ChildField,
+  DateField,
+  EmailField,
+  Field,
+  FormDefinition,
+  GroupField,
+  NumberField,
+  TextField,
+} from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { isFieldRequired, isFieldVisible } from "@/lib/conditions";
+import { isMultiStep, resolveFormSteps } from "@/lib/steps";
+import { buildSubmission, validateSubmission } from "@/lib/validation";
+import { postSubmission } from "@/lib/submission-api";
+import type { SubmissionReceipt } from "@/lib/submission-api";
+import { resolveTheme, themeVariables } from "@/lib/theme";
+import { toast } from "@/components/ui/use-toast";
 
 /**
  * FormValues
@@ -32,16 +31,51 @@ type FieldRules = {
  * - checkbox values are booleans
  * - number inputs arrive as strings unless coerced
  * - text/email/date are strings
+ * - group values are arrays of item objects keyed by child name
  *
  * The form definition drives validation/interpretation.
  */
 type FormValues = Record<string, unknown>;
 
+/**
+ * Control classes. Colors, radius and spacing come from the form theme's
+ * `--ffd-*` custom properties, set on the renderer's root element.
+ */
+const INPUT_CLASS =
+  "w-full rounded-(--ffd-radius) border border-(--ffd-color-border) bg-(--ffd-color-surface) px-3 py-2 focus:outline-2 focus:outline-(--ffd-color-primary)";
+const PRIMARY_BUTTON_CLASS =
+  "rounded-(--ffd-radius) bg-(--ffd-color-primary) text-(--ffd-color-primary-text) hover:opacity-90";
+const SECONDARY_BUTTON_CLASS =
+  "rounded-(--ffd-radius) border border-(--ffd-color-border) bg-(--ffd-color-surface) hover:opacity-80";
+
+/**
+ * usePrefersDark
+ *
+ * Tracks the OS color scheme, for themes in "auto" mode.
+ * Always false during server rendering.
+ */
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+function subscribeToColorScheme(onChange: () => void): () => void {
+  const query = window.matchMedia(DARK_QUERY);
+  query.addEventListener("change", onChange);
+  return () => query.removeEventListener("change", onChange);
+}
+
+function usePrefersDark(): boolean {
+  return useSyncExternalStore(
+    subscribeToColorScheme,
+    () => window.matchMedia(DARK_QUERY).matches,
+    () => false
+  );
+}
+
 /**
  * buildDefaultValues
  *
  * Creates initial values for the form based on field type.
  * - checkbox defaults to false (unchecked)
+ * - group defaults to its minimum item count (at least one item if required)
  * - all other inputs default to empty string
  *
  * Keeping defaults explicit avoids uncontrolled->controlled warnings and ensures
@@ -50,74 +84,16 @@ type FormValues = Record<string, unknown>;
 function buildDefaultValues(fields: Field[]): FormValues {
   const defaults: FormValues = {};
   for (const field of fields) {
+    if (field.type === "group") {
+      const count = Math.max(field.rules?.minItems ?? 0, field.required ? 1 : 0);
+      defaults[field.name] = Array.from({ length: count }, () => buildDefaultValues(field.fields));
+      continue;
+    }
     defaults[field.name] = field.type === "checkbox" ? false : "";
   }
   return defaults;
 }
 
-/**
- * validateValue
- *
- * Manual validation layer based on the active FormDefinition.
- * This is a "data-first" approach:
- * - Builder defines the rules
- * - Runtime enforces them
- *
- * In a future iteration, you can swap this with an Ajv-based validator using the
- * exported JSON Schema — but this is a clean MVP that keeps dependencies low.
- *
- * Returns:
- * - string: user-facing error message
- * - null: valid
- */
-function validateValue(field: Field, value: unknown): string | null {
-  // --- Required validation ---------------------------------------------------
-  if (field.required) {
-    const isEmpty =
-      field.type === "checkbox" ? value !== true : value === "" || value == null;
-
-    if (isEmpty) return `${field.label} is required.`;
-  }
-
-  // --- Type-specific rules ---------------------------------------------------
-  const rules: FieldRules = field.rules as FieldRules;
-
-  // Text-like fields: minLength/maxLength/pattern
-  if (field.type === "text" || field.type === "textarea" || field.type === "email") {
-    if (typeof value === "string") {
-      if (rules.minLength != null && value.length < rules.minLength) {
-        return `${field.label} must be at least ${rules.minLength} characters.`;
-      }
-      if (rules.maxLength != null && value.length > rules.maxLength) {
-        return `${field.label} must be at most ${rules.maxLength} characters.`;
-      }
-      if (rules.pattern) {
-        try {
-          const re = new RegExp(rules.pattern);
-          if (!re.test(value)) return `${field.label} format is invalid.`;
-        } catch {
-          // If pattern is invalid, we don't block the user in MVP.
-          // (Builder can later validate pattern syntax to prevent this.)
-        }
-      }
-    }
-  }
-
-  // Number fields: integer/min/max
-  // NOTE: HTML inputs return strings; we coerce to Number for validation.
-  if (field.type === "number") {
-    if (value !== "" && value != null) {
-      const num = Number(value);
-      if (Number.isNaN(num)) return `${field.label} must be a number.`;
-      if (rules.integer && !Number.isInteger(num)) return `${field.label} must be a whole number.`;
-      if (rules.min != null && num < rules.min) return `${field.label} must be at least ${rules.min}.`;
-      if (rules.max != null && num > rules.max) return `${field.label} must be at most ${rules.max}.`;
-    }
-  }
-
-  return null;
-}
-
 /**
  * FormRenderer
  *
@@ -127,12 +103,47 @@ function validateValue(field: Field, value: unknown): string | null {
  * Current behaviors:
  * - Renders controls based on field.type
  * - Uses react-hook-form for lightweight state management
- * - Performs manual validation on submit using the same rules created in Builder
+ * - Validates on submit with validateSubmission, the rules shared with the exports
+ * - Evaluates visibleWhen / requiredWhen conditions live against watched values
+ * - Multi-step forms: Next/Back navigation, advancing only when the current step validates
  * - Displays submitted payload for quick iteration/testing
+ * - With `postSubmissions`, posts the payload to the local submission API and
+ *   shows the server's 422 errors on their fields
  */
-export default function FormRenderer({ form }: { form: FormDefinition }) {
+export default function FormRenderer({
+  form,
+  postSubmissions = false,
+}: {
+  form: FormDefinition;
+  postSubmissions?: boolean;
+}) {
   // Stores the last successfully submitted payload (MVP feedback loop).
   const [submitted, setSubmitted] = useState<FormValues | null>(null);
+  // Set when the payload was stored by the submission API.
+  const [receipt, setReceipt] = useState<SubmissionReceipt | null>(null);
+
+  /**
+   * Wizard state.
+   * Single-page forms resolve to one implicit step, so the same code path applies.
+   * The index is clamped in case steps are removed while previewing in Studio.
+   */
+  const steps = useMemo(() => resolveFormSteps(form), [form]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const currentIndex = Math.min(stepIndex, steps.length - 1);
+  const currentStep = steps[currentIndex];
+  const isLastStep = currentIndex === steps.length - 1;
+  const showSteps = isMultiStep(form);
+
+  /**
+   * Theme: the form's `--ffd-*` custom properties, applied inline so the
+   * Preview matches the exported CSS. "auto" follows the OS color scheme.
+   */
+  const theme = resolveTheme(form);
+  const prefersDark = usePrefersDark();
+  const themeStyle = themeVariables(
+    theme,
+    theme.mode === "dark" || (theme.mode === "auto" && prefersDark)
+  ) as CSSProperties;
 
   /**
    * Default values are computed from the field list.
@@ -146,37 +157,141 @@ export default function FormRenderer({ form }: { form: FormDefinition }) {
    * - handleSubmit: manages submit lifecycle
    * - setError: manual validation errors
    * - reset: reset back to defaults
+   * - control: feeds useWatch for live condition evaluation
    */
   const {
     register,
     handleSubmit,
     setError,
+    clearErrors,
+    getValues,
+    control,
     formState: { errors, isSubmitting },
     reset,
   } = useForm<FormValues>({ defaultValues });
 
+  /**
+   * Live answers drive conditional visibility/requiredness on every change.
+   * Each visible field is paired with its effective `required` flag.
+   */
+  const liveValues: FormValues = useWatch({ control });
+  const visibleFields = currentStep.fields
+    .filter((field) => isFieldVisible(field, form.fields, liveValues))
+    .map((field) => ({ ...field, required: isFieldRequired(field, form.fields, liveValues) }));
+
+  /**
+   * validateFields
+   *
+   * Validates the answers with validateSubmission and reports the errors of
+   * the given fields (including their group items) through react-hook-form.
+   * Hidden fields are never submitted, so they never fail.
+   *
+   * Returns true when none of the given fields fails.
+   */
+  const validateFields = (fields: Field[], values: FormValues): boolean => {
+    const { errors: failures } = validateSubmission(form, buildSubmission(form, values));
+    let valid = true;
+
+    for (const field of fields) {
+      clearErrors(field.name);
+
+      for (const [path, error] of Object.entries(failures)) {
+        if (path !== field.name && !path.startsWith(`${field.name}.`)) continue;
+        valid = false;
+        setError(path, { type: error.code, message: error.message });
+      }
+    }
+
+    return valid;
+  };
+
+  /**
+   * goNext / goBack
+   *
+   * Moving forward requires the current step to validate; moving back never does.
+   */
+  const goNext = () => {
+    if (!validateFields(currentStep.fields, getValues())) return;
+    setStepIndex(Math.min(currentIndex + 1, steps.length - 1));
+  };
+
+  const goBack = () => setStepIndex(Math.max(currentIndex - 1, 0));
+
   /**
    * onSubmit
    *
    * Runs our definition-driven validation and, if valid,
-   * stores the payload for display (MVP behavior).
+   * stores the submission body for display (MVP behavior).
+   *
+   * The body is buildSubmission's: hidden fields and blank answers are left
+   * out and numbers are numbers, so it validates against the JSON Schema export.
    */
   const onSubmit = async (values: FormValues) => {
-    let hasError = false;
-
-    // Validate each field based on our definition.
-    for (const field of form.fields) {
-      const message = validateValue(field, values[field.name]);
-      if (message) {
-        hasError = true;
-        setError(field.name, { type: "manual", message });
-      }
+    // Enter on an intermediate step behaves like "Next".
+    if (!isLastStep) return goNext();
+
+    // Re-validate every step; jump back to the first one that fails.
+    const failingIndex = steps.findIndex((step) => !validateFields(step.fields, values));
+    if (failingIndex !== -1) {
+      setStepIndex(failingIndex);
+      return;
+    }
+
+    const payload = buildSubmission(form, values);
+
+    if (!postSubmissions) {
+      // MVP: display the result rather than posting to a backend.
+      setSubmitted(payload);
+      setReceipt(null);
+      return;
+    }
+
+    const result = await postSubmission(form, payload);
+
+    if (result.status === "accepted") {
+      setSubmitted(payload);
+      setReceipt(result.receipt);
+      return;
+    }
+
+    if (result.status === "invalid") {
+      showServerErrors(result.message, result.errors);
+      return;
     }
 
-    if (hasError) return;
+    toast({ title: "Submission Failed", description: result.message, variant: "destructive" });
+  };
+
+  /**
+   * showServerErrors
+   *
+   * Maps a 422 response onto the fields (same paths as validateFields) and
+   * opens the first step with a failing field. Errors that match no field
+   * (e.g. after the server's copy of the form changed) are reported in a toast.
+   */
+  const showServerErrors = (message: string, serverErrors: Record<string, string>) => {
+    const owner = (path: string) =>
+      form.fields.find((field) => path === field.name || path.startsWith(`${field.name}.`));
+
+    const unmatched: string[] = [];
+    let firstStep = -1;
 
-    // MVP: display the result rather than posting to a backend.
-    setSubmitted(values);
+    for (const [path, text] of Object.entries(serverErrors)) {
+      const field = owner(path);
+      if (!field) {
+        unmatched.push(text);
+        continue;
+      }
+
+      setError(path, { type: "server", message: text });
+      const index = steps.findIndex((step) => step.fields.some((f) => f.id === field.id));
+      if (index !== -1 && (firstStep === -1 || index < firstStep)) firstStep = index;
+    }
+
+    if (firstStep !== -1) setStepIndex(firstStep);
+    if (unmatched.length > 0 || firstStep === -1) {
+      toast({ title: message, description: unmatched.join(" "), variant: "destructive" });
+    }
   };
 
   /**
@@ -187,36 +302,81 @@ export default function FormRenderer({ form }: { form: FormDefinition }) {
   const onReset = () => {
     reset(defaultValues);
     setSubmitted(null);
+    setReceipt(null);
+    setStepIndex(0);
   };
 
   return (
-    <div className="rounded-lg border bg-white p-5">
-      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-        {/* Render each field dynamically */}
-        {form.fields.map((field) => (
-          <FieldRow
-            key={field.id}
-            field={field}
-            register={register}
-            // RHF error messages are unknown-ish; we narrow for display.
-            error={errors[field.name]?.message as string | undefined}
-          />
+    <div
+      style={themeStyle}
+      className="rounded-(--ffd-radius) border border-(--ffd-color-border) bg-(--ffd-color-background) p-5 font-(family-name:--ffd-font-family) text-(length:--ffd-font-size) text-(--ffd-color-text)"
+    >
+      <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-(--ffd-space)">
+        {/* Step header (wizard forms only) */}
+        {showSteps ? (
+          <div className="flex items-baseline justify-between border-b border-(--ffd-color-border) pb-3">
+            <p className="font-semibold">{currentStep.title || `Step ${currentIndex + 1}`}</p>
+            <p className="text-xs text-(--ffd-color-muted)">
+              Step {currentIndex + 1} of {steps.length}
+            </p>
+          </div>
+        ) : null}
+
+        {/* Render each visible field of the current step dynamically */}
+        {visibleFields.map((field) => (
+          field.type === "group" ? (
+            <GroupFieldRow
+              key={field.id}
+              field={field}
+              control={control}
+              register={register}
+              errors={errors}
+            />
+          ) : (
+            <FieldRow
+              key={field.id}
+              field={field}
+              register={register}
+              // RHF error messages are unknown-ish; we narrow for display.
+              error={errors[field.name]?.message as string | undefined}
+            />
+          )
         ))}
 
         {/* Primary form actions */}
         <div className="flex gap-3 pt-2">
-          <button
-            type="submit"
-            disabled={isSubmitting}
-            className="rounded-md bg-black px-4 py-2 text-white hover:opacity-90 disabled:opacity-60"
-          >
-            Submit
-          </button>
+          {currentIndex > 0 ? (
+            <button
+              type="button"
+              onClick={goBack}
+              className={`${SECONDARY_BUTTON_CLASS} px-4 py-2`}
+            >
+              Back
+            </button>
+          ) : null}
+
+          {isLastStep ? (
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`${PRIMARY_BUTTON_CLASS} px-4 py-2 disabled:opacity-60`}
+            >
+              Submit
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={goNext}
+              className={`${PRIMARY_BUTTON_CLASS} px-4 py-2`}
+            >
+              Next
+            </button>
+          )}
 
           <button
             type="button"
             onClick={onReset}
-            className="rounded-md border px-4 py-2 hover:bg-gray-50"
+            className={`${SECONDARY_BUTTON_CLASS} px-4 py-2`}
           >
             Reset
           </button>
@@ -225,8 +385,13 @@ export default function FormRenderer({ form }: { form: FormDefinition }) {
 
       {/* Submission output (MVP only) */}
       {submitted ? (
-        <div className="mt-6 rounded-md border bg-gray-50 p-4">
+        <div className="mt-6 rounded-(--ffd-radius) border border-(--ffd-color-border) bg-(--ffd-color-surface) p-4">
           <p className="font-medium">Submitted values</p>
+          {receipt ? (
+            <p className="mt-1 text-xs text-(--ffd-color-muted)">
+              Stored as {receipt.id} at {new Date(receipt.receivedAtISO).toLocaleString()}
+            </p>
+          ) : null}
           <pre className="mt-2 overflow-auto text-sm">{JSON.stringify(submitted, null, 2)}</pre>
         </div>
       ) : null}
@@ -243,15 +408,20 @@ export default function FormRenderer({ form }: { form: FormDefinition }) {
  * Props:
  * - register: typed react-hook-form register function for our values dictionary
  * - error: optional display string for this field
+ * - path: RHF value path (defaults to field.name; group children use "group.index.child")
+ *
+ * Groups are rendered by GroupFieldRow, so this only accepts child-capable fields.
  */
 function FieldRow({
   field,
   register,
   error,
+  path = field.name,
 }: {
-  field: Field;
+  field: ChildField;
   register: UseFormRegister<FormValues>;
   error?: string;
+  path?: string;
 }) {
   /**
    * commonLabel
@@ -265,9 +435,9 @@ function FieldRow({
     <div className="flex items-baseline justify-between">
       <label className="font-medium">
         {field.label}
-        {field.required ? <span className="text-red-600"> *</span> : null}
+        {field.required ? <span className="text-(--ffd-color-error)"> *</span> : null}
       </label>
-      {field.helperText ? <span className="text-xs text-gray-500">{field.helperText}</span> : null}
+      {field.helperText ? <span className="text-xs text-(--ffd-color-muted)">{field.helperText}</span> : null}
     </div>
   );
 
@@ -277,27 +447,26 @@ function FieldRow({
       <div className="space-y-1">
         {commonLabel}
         <textarea
-          {...register(field.name)}
+          {...register(path)}
           placeholder={field.placeholder}
-          className="w-full rounded-md border px-3 py-2"
+          className={INPUT_CLASS}
           rows={4}
         />
-        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+        {error ? <p className="text-sm text-(--ffd-color-error)">{error}</p> : null}
       </div>
     );
   }
 
   // --- Select ----------------------------------------------------------------
   if (field.type === "select") {
-    const rules: FieldRules = field.rules as FieldRules;
-    const options = Array.isArray(rules?.options) ? rules.options : [];
+    const options = field.rules?.options ?? [];
 
     return (
       <div className="space-y-1">
         {commonLabel}
         <select
-          {...register(field.name)}
-          className="w-full rounded-md border px-3 py-2"
+          {...register(path)}
+          className={INPUT_CLASS}
           defaultValue=""
         >
           <option value="">Select an option</option>
@@ -307,7 +476,7 @@ function FieldRow({
             </option>
           ))}
         </select>
-        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+        {error ? <p className="text-sm text-(--ffd-color-error)">{error}</p> : null}
       </div>
     );
   }
@@ -317,37 +486,133 @@ function FieldRow({
     return (
       <div className="space-y-1">
         <label className="flex items-center gap-2">
-          <input type="checkbox" {...register(field.name)} className="h-4 w-4" />
+          <input type="checkbox" {...register(path)} className="h-4 w-4 accent-(--ffd-color-primary)" />
           <span className="font-medium">
             {field.label}
-            {field.required ? <span className="text-red-600"> *</span> : null}
+            {field.required ? <span className="text-(--ffd-color-error)"> *</span> : null}
           </span>
         </label>
-        {error ? <p className="text-sm text-red-600">{error}</p> : null}
+        {error ? <p className="text-sm text-(--ffd-color-error)">{error}</p> : null}
       </div>
     );
   }
 
   // --- Default input types ---------------------------------------------------
-  const inputType =
-    field.type === "email"
-      ? "email"
-      : field.type === "number"
-      ? "number"
-      : field.type === "date"
-      ? "date"
-      : "text";
-
   return (
     <div className="space-y-1">
       {commonLabel}
       <input
-        type={inputType}
-        {...register(field.name)}
+        type={htmlInputType(field)}
+        {...register(path)}
         placeholder={field.placeholder}
-        className="w-full rounded-md border px-3 py-2"
+        className={INPUT_CLASS}
       />
-      {error ? <p className="text-sm text-red-600">{error}</p> : null}
+      {error ? <p className="text-sm text-(--ffd-color-error)">{error}</p> : null}
     </div>
   );
 }
+
+/**
+ * htmlInputType
+ *
+ * Maps the remaining single-input field types to an <input type>.
+ * Exhaustive so a new input-like FieldType must be mapped explicitly.
+ */
+function htmlInputType(field: TextField | EmailField | NumberField | DateField): string {
+  switch (field.type) {
+    case "text":
+      return "text";
+    case "email":
+      return "email";
+    case "number":
+      return "number";
+    case "date":
+      return "date";
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * GroupFieldRow
+ *
+ * Renders a repeatable group: one bordered block per item with the group's
+ * child fields, plus add/remove controls bounded by minItems / maxItems.
+ * Item state is managed by react-hook-form's useFieldArray.
+ */
+function GroupFieldRow({
+  field,
+  control,
+  register,
+  errors,
+}: {
+  field: GroupField;
+  control: Control<FormValues>;
+  register: UseFormRegister<FormValues>;
+  errors: FieldErrors<FormValues>;
+}) {
+  // FormValues is an open dictionary, so RHF cannot infer array paths from it;
+  // view the control as "every key is an item array" for this group only.
+  const { fields: items, append, remove } = useFieldArray({
+    control: control as unknown as Control<Record<string, FormValues[]>>,
+    name: field.name,
+  });
+
+  const rules = field.rules ?? {};
+  const children = field.fields;
+  const canAdd = rules.maxItems == null || items.length < rules.maxItems;
+  const canRemove = items.length > (rules.minItems ?? 0);
+  const error = errors[field.name]?.message as string | undefined;
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="font-medium">
+        {field.label}
+        {field.required ? <span className="text-(--ffd-color-error)"> *</span> : null}
+      </legend>
+      {field.helperText ? <p className="text-xs text-(--ffd-color-muted)">{field.helperText}</p> : null}
+
+      {items.map((item, index) => (
+        <div key={item.id} className="space-y-3 rounded-(--ffd-radius) border border-(--ffd-color-border) p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-(--ffd-color-muted)">
+              {field.label} #{index + 1}
+            </span>
+            <button
+              type="button"
+              onClick={() => remove(index)}
+              disabled={!canRemove}
+              className={`${SECONDARY_BUTTON_CLASS} px-2 py-1 text-xs disabled:opacity-40`}
+            >
+              Remove
+            </button>
+          </div>
+
+          {children.map((child) => {
+            const path = `${field.name}.${index}.${child.name}`;
+            return (
+              <FieldRow
+                key={child.id}
+                field={child}
+                path={path}
+                register={register}
+                error={get(errors, path)?.message as string | undefined}
+              />
+            );
+          })}
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => append(buildDefaultValues(children))}
+        disabled={!canAdd}
+        className={`${SECONDARY_BUTTON_CLASS} px-3 py-1 text-sm disabled:opacity-40`}
+      >
+        Add {field.label.toLowerCase() || "item"}
+      </button>
+
+      {error ? <p className="text-sm text-(--ffd-color-error)">{error}</p> : null}
+    </fieldset>
+  );
+}
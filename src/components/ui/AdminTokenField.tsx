@@ -0,0 +1,38 @@
+"use client";
+
+import { useState } from "react";
+import { loadAdminToken, saveAdminToken } from "@/lib/submission-api";
+
+/**
+ * AdminTokenField
+ *
+ * Password input for the submission API's admin token (the server's
+ * FFD_ADMIN_TOKEN). Saved in this browser as it is typed and sent with
+ * publishing, test webhooks and reads of submissions and deliveries.
+ *
+ * Servers started without FFD_ADMIN_TOKEN ignore it.
+ */
+export default function AdminTokenField({ className = "" }: { className?: string }) {
+  const [token, setToken] = useState(() => loadAdminToken());
+
+  return (
+    <label className={`block ${className}`}>
+      <span className="text-xs font-semibold">Admin token</span>
+      <input
+        type="password"
+        value={token}
+        onChange={(e) => {
+          setToken(e.target.value);
+          saveAdminToken(e.target.value);
+        }}
+        className="mt-1 w-full max-w-xs ffd-input font-mono"
+        placeholder="FFD_ADMIN_TOKEN"
+        autoComplete="off"
+        spellCheck={false}
+      />
+      <span className="mt-1 block text-xs ffd-muted">
+        Needed when the server sets <code>FFD_ADMIN_TOKEN</code>; kept in this browser only.
+      </span>
+    </label>
+  );
+}
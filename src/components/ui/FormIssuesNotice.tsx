@@ -0,0 +1,48 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { formatParseIssue, type FormParseIssue } from "@/lib/form-parser";
+
+// The first few issues are usually enough to locate the problem.
+const MAX_VISIBLE_ISSUES = 8;
+
+/**
+ * FormIssuesNotice
+ *
+ * Inline panel listing path-aware FormDefinition issues
+ * (e.g. "fields[3].rules.options[1].value must be a string").
+ *
+ * Used when saved or imported form JSON fails validation, so the user sees
+ * exactly what is wrong instead of a crash or a silent fallback.
+ */
+export default function FormIssuesNotice({
+  title,
+  description,
+  issues,
+  actions,
+}: {
+  title: string;
+  description?: string;
+  issues: FormParseIssue[];
+  actions?: ReactNode;
+}) {
+  const visible = issues.slice(0, MAX_VISIBLE_ISSUES);
+  const hidden = issues.length - visible.length;
+
+  return (
+    <section role="alert" className="ffd-card border-red-500/30 p-5">
+      <h2 className="text-sm font-semibold text-red-700">{title}</h2>
+      {description ? <p className="mt-1 text-sm ffd-muted">{description}</p> : null}
+
+      <ul className="mt-3 list-disc space-y-1 pl-5 font-mono text-xs">
+        {visible.map((issue, i) => (
+          <li key={`${issue.path}-${i}`}>{formatParseIssue(issue)}</li>
+        ))}
+      </ul>
+
+      {hidden > 0 ? <p className="mt-2 text-xs ffd-muted">…and {hidden} more.</p> : null}
+
+      {actions ? <div className="mt-4 flex flex-wrap gap-2">{actions}</div> : null}
+    </section>
+  );
+}
@@ -47,6 +47,19 @@ export default function Toaster() {
                 {t.description ? <div className="mt-1 text-sm ffd-muted">{t.description}</div> : null}
               </div>
 
+              {t.action ? (
+                <button
+                  type="button"
+                  onClick={() => {
+                    t.action?.onClick();
+                    dismiss(t.id);
+                  }}
+                  className="ffd-btn pointer-events-auto shrink-0 px-3 py-1"
+                >
+                  {t.action.label}
+                </button>
+              ) : null}
+
               <button
                 type="button"
                 onClick={() => dismiss(t.id)}
@@ -4,11 +4,17 @@ import * as React from "react";
 
 type ToastVariant = "default" | "success" | "destructive";
 
+export type ToastAction = {
+  label: string;
+  onClick: () => void;
+};
+
 export type ToastInput = {
   title?: string;
   description?: string;
   variant?: ToastVariant;
   duration?: number; // ms
+  action?: ToastAction; // e.g. "Undo"; the toast is dismissed after it runs
 };
 
 export type ToastItem = ToastInput & {
@@ -43,6 +49,7 @@ export function toast(input: ToastInput) {
     duration: input.duration ?? 3200,
     title: input.title,
     description: input.description,
+    action: input.action,
   };
 
   store.toasts = [item, ...store.toasts].slice(0, 5);
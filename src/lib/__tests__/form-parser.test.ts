@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { formatParseIssue, parseFormDefinition } from "@/lib/form-parser";
+
+/**
+ * Field names are submission keys: the parser reports a name an earlier
+ * sibling already uses (top level or within one group), located by path.
+ * Blank names are left to the Builder.
+ */
+
+function form(fields: unknown[]) {
+  return {
+    id: "names",
+    title: "Names",
+    version: 2,
+    fields,
+    createdAtISO: "2026-01-01T00:00:00.000Z",
+    updatedAtISO: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+function issuesOf(raw: unknown): string[] {
+  const result = parseFormDefinition(raw);
+  return result.ok ? [] : result.issues.map(formatParseIssue);
+}
+
+describe("duplicate field names", () => {
+  it("reports each later duplicate against the first use", () => {
+    const raw = form([
+      { id: "f1", name: "email", label: "Email", type: "email" },
+      { id: "f2", name: "name", label: "Name", type: "text" },
+      { id: "f3", name: "phone", label: "Phone", type: "text" },
+      { id: "f4", name: "name", label: "Full name", type: "text" },
+      { id: "f5", name: "email", label: "Work email", type: "email" },
+      { id: "f6", name: "name", label: "Nickname", type: "text" },
+    ]);
+
+    expect(issuesOf(raw)).toEqual([
+      "fields[3].name duplicates fields[1].name",
+      "fields[4].name duplicates fields[0].name",
+      "fields[5].name duplicates fields[1].name",
+    ]);
+  });
+
+  it("checks group children among their siblings only", () => {
+    const raw = form([
+      { id: "f1", name: "number", label: "Number", type: "text" },
+      {
+        id: "f2",
+        name: "phones",
+        label: "Phones",
+        type: "group",
+        fields: [
+          { id: "c1", name: "number", label: "Number", type: "text" },
+          { id: "c2", name: "kind", label: "Kind", type: "text" },
+          { id: "c3", name: "number", label: "Other number", type: "text" },
+        ],
+      },
+    ]);
+
+    expect(issuesOf(raw)).toEqual(["fields[1].fields[2].name duplicates fields[1].fields[0].name"]);
+  });
+
+  it("allows several blank names", () => {
+    const raw = form([
+      { id: "f1", name: "", label: "One", type: "text" },
+      { id: "f2", name: "", label: "Two", type: "text" },
+    ]);
+
+    expect(parseFormDefinition(raw).ok).toBe(true);
+  });
+});
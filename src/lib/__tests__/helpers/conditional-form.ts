@@ -0,0 +1,58 @@
+import type { FormDefinition } from "@/lib/form-types";
+
+/**
+ * A form whose fields depend on each other, for the exporter tests:
+ * - `company` (required) shows only for business accounts
+ * - `petName` is required only while `hasPet` is ticked
+ * - `phones` (a group with a select child) shows only for business accounts
+ */
+export const CONDITIONAL_FORM: FormDefinition = {
+  id: "conditional",
+  title: "Conditional",
+  version: 2,
+  fields: [
+    {
+      id: "f1",
+      name: "accountType",
+      label: "Account type",
+      type: "select",
+      required: true,
+      rules: { options: [{ label: "Personal", value: "personal" }, { label: "Business", value: "business" }] },
+    },
+    {
+      id: "f2",
+      name: "company",
+      label: "Company",
+      type: "text",
+      required: true,
+      visibleWhen: { fieldId: "f1", operator: "equals", value: "business" },
+    },
+    { id: "f3", name: "hasPet", label: "Has a pet", type: "checkbox" },
+    {
+      id: "f4",
+      name: "petName",
+      label: "Pet name",
+      type: "text",
+      requiredWhen: { fieldId: "f3", operator: "equals", value: true },
+    },
+    {
+      id: "f5",
+      name: "phones",
+      label: "Phones",
+      type: "group",
+      visibleWhen: { fieldId: "f1", operator: "equals", value: "business" },
+      fields: [
+        { id: "c1", name: "number", label: "Number", type: "text", required: true },
+        {
+          id: "c2",
+          name: "kind",
+          label: "Kind",
+          type: "select",
+          rules: { options: [{ label: "Mobile", value: "mobile" }, { label: "Office", value: "office" }] },
+        },
+      ],
+    },
+  ],
+  createdAtISO: "2026-01-01T00:00:00.000Z",
+  updatedAtISO: "2026-01-01T00:00:00.000Z",
+};
@@ -0,0 +1,51 @@
+import path from "node:path";
+import ts from "typescript";
+
+/**
+ * Type-checks generated modules in memory with the strict settings an
+ * exported file gets in a typical app (modules resolve from this repo's
+ * node_modules, e.g. React's types).
+ *
+ * `files` maps file names (e.g. "Form.tsx") to source; the result lists one
+ * "file:line message" per diagnostic, empty when everything compiles.
+ */
+export function typeCheck(files: Record<string, string>): string[] {
+  const root = path.join(process.cwd(), "__generated__");
+  const sources = new Map(Object.entries(files).map(([name, text]) => [path.join(root, name), text]));
+
+  const options: ts.CompilerOptions = {
+    strict: true,
+    noEmit: true,
+    skipLibCheck: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    lib: ["lib.es2022.d.ts", "lib.dom.d.ts", "lib.dom.iterable.d.ts"],
+    types: [],
+  };
+
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile.bind(host);
+  const fileExists = host.fileExists.bind(host);
+  const readFile = host.readFile.bind(host);
+
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const text = sources.get(fileName);
+    return text === undefined
+      ? getSourceFile(fileName, languageVersion, ...rest)
+      : ts.createSourceFile(fileName, text, languageVersion, true);
+  };
+  host.fileExists = (fileName) => sources.has(fileName) || fileExists(fileName);
+  host.readFile = (fileName) => sources.get(fileName) ?? readFile(fileName);
+
+  const program = ts.createProgram([...sources.keys()], options, host);
+
+  return ts.getPreEmitDiagnostics(program).map((diagnostic) => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
+    if (!diagnostic.file || diagnostic.start === undefined) return message;
+
+    const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    return `${path.basename(diagnostic.file.fileName)}:${line + 1} ${message}`;
+  });
+}
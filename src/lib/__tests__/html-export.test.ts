@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { generateHtml } from "@/lib/exporters/html";
+import type { FormDefinition } from "@/lib/form-types";
+import { CONDITIONAL_FORM } from "./helpers/conditional-form";
+
+/**
+ * Without the validation option the HTML export relies on native constraint
+ * validation, so its inline script hides and disables fields whose
+ * visibleWhen fails (neither validated nor submitted) and toggles `required`
+ * for requiredWhen. The script runs here against a minimal stand-in for the
+ * rendered form.
+ */
+
+type FakeControl = { name: string; type: string; value: string; checked: boolean; disabled: boolean; required: boolean };
+type FakeWrapper = { dataset: { ffdField: string }; hidden: boolean; querySelectorAll: () => FakeControl[] };
+
+function control(name: string, type = "text"): FakeControl {
+  return { name, type, value: "", checked: false, disabled: false, required: false };
+}
+
+function scriptOf(html: string): string {
+  const match = /<script>\n([\s\S]*?)\n<\/script>/.exec(html);
+  if (!match) throw new Error("No <script> block.");
+  return match[1];
+}
+
+/** Runs the export's script against the conditional form's controls; returns them and a change trigger. */
+function mount(html: string) {
+  const controls = {
+    accountType: control("accountType", "select-one"),
+    company: control("company"),
+    hasPet: control("hasPet", "checkbox"),
+    petName: { ...control("petName"), dataset: { ffdRequired: "petName" } },
+    number: control("phones[0][number]"),
+    kind: control("phones[0][kind]", "select-one"),
+  };
+  const wrapper = (name: string, inner: FakeControl[]): FakeWrapper => ({
+    dataset: { ffdField: name },
+    hidden: false,
+    querySelectorAll: () => inner,
+  });
+  const wrappers = [wrapper("company", [controls.company]), wrapper("phones", [controls.number, controls.kind])];
+  const listeners: Array<() => void> = [];
+
+  const form = {
+    elements: Object.values(controls),
+    addEventListener: (_type: string, listener: () => void) => listeners.push(listener),
+    querySelectorAll: (selector: string) => {
+      if (selector === "[data-ffd-field]") return wrappers;
+      if (selector === "[data-ffd-required]") return [controls.petName];
+      throw new Error(`Unexpected selector ${selector}`);
+    },
+  };
+
+  new Function("document", scriptOf(html))({ currentScript: { previousElementSibling: form } });
+
+  return { controls, wrappers, change: () => listeners.forEach((listener) => listener()) };
+}
+
+describe("HTML export conditions without the validation option", () => {
+  const html = generateHtml(CONDITIONAL_FORM);
+
+  it("marks conditional fields for the script", () => {
+    expect(html).toContain(`<div class="ffd-field" data-ffd-field="company">`);
+    expect(html).toContain(`<fieldset class="ffd-field ffd-group" data-ffd-field="phones">`);
+    expect(html).toContain(`<input type="text" id="f4" name="petName" class="ffd-input" data-ffd-required="petName" />`);
+  });
+
+  it("hides and disables fields whose condition fails", () => {
+    const { controls, wrappers, change } = mount(html);
+
+    expect(wrappers.map((wrapper) => wrapper.hidden)).toEqual([true, true]);
+    expect([controls.company, controls.number, controls.kind].every((c) => c.disabled)).toBe(true);
+
+    controls.accountType.value = "business";
+    change();
+
+    expect(wrappers.map((wrapper) => wrapper.hidden)).toEqual([false, false]);
+    expect([controls.company, controls.number, controls.kind].some((c) => c.disabled)).toBe(false);
+  });
+
+  it("requires requiredWhen fields while the condition holds", () => {
+    const { controls, change } = mount(html);
+    expect(controls.petName.required).toBe(false);
+
+    controls.hasPet.checked = true;
+    change();
+    expect(controls.petName.required).toBe(true);
+
+    controls.hasPet.checked = false;
+    change();
+    expect(controls.petName.required).toBe(false);
+  });
+
+  it("keeps wizard navigation in the same script", () => {
+    const steps: FormDefinition = {
+      ...CONDITIONAL_FORM,
+      steps: [
+        { id: "s1", title: "Account", fieldIds: ["f1", "f2"] },
+        { id: "s2", title: "Details", fieldIds: ["f3", "f4", "f5"] },
+      ],
+    };
+    const wizard = generateHtml(steps);
+
+    expect(wizard.match(/<script>/g)).toHaveLength(1);
+    expect(scriptOf(wizard)).toContain("data-ffd-next");
+    expect(scriptOf(wizard)).toContain("function syncConditions()");
+  });
+
+  it("emits no script for a plain single-page form", () => {
+    const plain: FormDefinition = { ...CONDITIONAL_FORM, fields: [CONDITIONAL_FORM.fields[0]] };
+    expect(generateHtml(plain)).not.toContain("<script>");
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { Field, FormDefinition } from "@/lib/form-types";
+import { validateSubmission } from "@/lib/validation";
+import { exampleSubmission, generateOpenApiDocument } from "@/lib/exporters/openapi";
+
+/**
+ * The OpenAPI export's examples pass the document's own rules: sample values
+ * are tried against each field's pattern, optional answers no sample matches
+ * are left out, and a required one leaves the document without examples.
+ */
+
+function makeForm(fields: Field[]): FormDefinition {
+  return {
+    id: "examples",
+    title: "Examples",
+    version: 2,
+    fields,
+    createdAtISO: "2026-01-01T00:00:00.000Z",
+    updatedAtISO: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+const CONTACT_FORM = makeForm([
+  { id: "f1", name: "name", label: "Name", type: "text", required: true, rules: { minLength: 2 } },
+  { id: "f2", name: "code", label: "Code", type: "text", rules: { pattern: "^[A-Z]{3}$" } },
+  { id: "f3", name: "email", label: "Email", type: "email", placeholder: "Your email" },
+  {
+    id: "f4",
+    name: "phones",
+    label: "Phones",
+    type: "group",
+    required: true,
+    rules: { minItems: 1 },
+    fields: [
+      { id: "c1", name: "number", label: "Number", type: "text", required: true, rules: { pattern: "^[0-9+ ]+$" } },
+      { id: "c2", name: "ext", label: "Ext", type: "text", rules: { pattern: "^x\\d{4}$" } },
+    ],
+  },
+]);
+
+type RequestBody = {
+  description?: string;
+  content: Record<string, { examples?: Record<string, unknown> }>;
+};
+
+function requestBody(form: FormDefinition): RequestBody {
+  const [operations] = Object.values(generateOpenApiDocument(form).paths);
+  return (operations.post as { requestBody: RequestBody }).requestBody;
+}
+
+describe("OpenAPI examples", () => {
+  it("picks sample values that match the fields' patterns and leaves out optional misses", () => {
+    const example = exampleSubmission(CONTACT_FORM);
+
+    expect(example).toStrictEqual({
+      name: "Name",
+      email: "jane@example.com",
+      phones: [{ number: "12345" }],
+    });
+  });
+
+  it("produces examples that validate", () => {
+    for (const requiredOnly of [false, true]) {
+      const example = exampleSubmission(CONTACT_FORM, requiredOnly);
+      expect(example && validateSubmission(CONTACT_FORM, example).valid).toBe(true);
+    }
+  });
+
+  it("omits the examples when a required pattern can't be satisfied", () => {
+    const form = makeForm([
+      { id: "f1", name: "serial", label: "Serial", type: "text", required: true, rules: { pattern: "^SN-\\d{6}$" } },
+    ]);
+
+    expect(exampleSubmission(form)).toBeNull();
+
+    const body = requestBody(form);
+    expect(body.content["application/json"].examples).toBeUndefined();
+    expect(body.description).toMatch(/No example/);
+  });
+});
@@ -0,0 +1,70 @@
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { FormDefinition } from "@/lib/form-types";
+import { loadPublishedForm } from "@/lib/submission-store";
+import { PUT } from "@/app/api/forms/[id]/route.api";
+
+/**
+ * Publishing through `PUT /api/forms/[id]`:
+ * - with FFD_ADMIN_TOKEN set, only requests bearing it may publish
+ * - the webhook (and its secret) is stored apart from the definition
+ */
+
+const FORM: FormDefinition = {
+  id: "contact",
+  title: "Contact",
+  version: 2,
+  fields: [{ id: "f1", name: "email", label: "Email", type: "email", required: true }],
+  webhook: { enabled: true, url: "https://example.com/hook", secret: "s3cret", headers: [] },
+  createdAtISO: "2026-01-01T00:00:00.000Z",
+  updatedAtISO: "2026-01-01T00:00:00.000Z",
+};
+
+function publish(token?: string): Promise<Response> {
+  const request = new Request("http://localhost/api/forms/contact", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(FORM),
+  });
+  return PUT(request, { params: Promise.resolve({ id: FORM.id }) });
+}
+
+describe("publishing a form", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "ffd-publish-"));
+    vi.stubEnv("FFD_DATA_DIR", dataDir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  it("requires the admin token when the server sets one", async () => {
+    vi.stubEnv("FFD_ADMIN_TOKEN", "letmein");
+
+    expect((await publish()).status).toBe(401);
+    expect((await publish("wrong")).status).toBe(401);
+    expect(await readdir(dataDir)).toEqual([]);
+
+    expect((await publish("letmein")).status).toBe(200);
+  });
+
+  it("is open without an admin token", async () => {
+    expect((await publish()).status).toBe(200);
+  });
+
+  it("keeps the webhook out of the stored definition", async () => {
+    await publish();
+
+    const stored = await readFile(path.join(dataDir, "forms", "contact.json"), "utf8");
+    expect(stored).not.toContain("s3cret");
+    expect(JSON.parse(stored)).not.toHaveProperty("webhook");
+
+    expect((await loadPublishedForm(FORM.id))?.webhook).toEqual(FORM.webhook);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { generateReactTsComponent } from "@/lib/exporters/react-ts";
+import type { FormDefinition } from "@/lib/form-types";
+import { CONDITIONAL_FORM } from "./helpers/conditional-form";
+import { typeCheck } from "./helpers/typecheck";
+
+/**
+ * The React + TS export compiles under strict TypeScript, including a form
+ * whose conditional fields make `Values` keys optional (a conditional group
+ * with a select child). Custom messages reach the browser's validation UI.
+ */
+
+describe("React + TS export", () => {
+  it("type-checks with conditional fields and groups", () => {
+    const source = generateReactTsComponent(CONDITIONAL_FORM);
+
+    expect(source).toContain("phones?:");
+    expect(typeCheck({ "Form.tsx": source })).toEqual([]);
+  });
+
+  it("applies custom messages through setCustomValidity", () => {
+    // A blank template (pattern) counts as none.
+    const messages = { required: "Tell us your {label}.", minLength: "{min}+ please.", pattern: " " };
+    const form: FormDefinition = {
+      ...CONDITIONAL_FORM,
+      fields: [
+        { id: "f2", name: "company", label: "Company", type: "text", required: true, rules: { minLength: 2 }, messages },
+        ...CONDITIONAL_FORM.fields.filter((field) => field.name !== "company"),
+      ],
+    };
+    const source = generateReactTsComponent(form);
+
+    expect(source).toContain(`"messages": {
+      "required": "Tell us your Company.",
+      "minLength": "2+ please."
+    }`);
+    expect(source).toContain("onInvalid={showMessage}");
+    expect(typeCheck({ "Form.tsx": source })).toEqual([]);
+  });
+
+  it("leaves the message handling out when no field has custom messages", () => {
+    expect(generateReactTsComponent(CONDITIONAL_FORM)).not.toContain("setCustomValidity");
+  });
+});
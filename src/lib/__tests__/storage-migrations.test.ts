@@ -0,0 +1,181 @@
+import { readFileSync } from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { parseFormDefinition } from "@/lib/form-parser";
+import {
+  CURRENT_FORM_VERSION,
+  getSelectedFormId,
+  listForms,
+  loadForm,
+  loadFormFromStorage,
+  migrateFormDefinition,
+  parseStoredFormJson,
+  saveFormToStorage,
+  setSelectedFormId,
+} from "@/lib/storage";
+
+/**
+ * Stored forms from older releases load through the migrations and come out
+ * as valid current FormDefinitions.
+ *
+ * Fixtures (as saved by those releases):
+ * - form-v0.json: no `version` (the first release), radio type, top-level
+ *   options, numeric rules as strings
+ * - form-v1.json: `version: 1`, select options at the top level, some
+ *   numeric rules as strings
+ *
+ * Pre-library "active form" values move into the library, readable or not.
+ */
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), "utf8");
+}
+
+function load(name: string) {
+  const result = parseStoredFormJson(fixture(name));
+  if (!result.ok) throw new Error(`${name}: ${JSON.stringify(result.issues)}`);
+  return result.form;
+}
+
+describe("stored form migrations", () => {
+  for (const name of ["form-v0.json", "form-v1.json"]) {
+    it(`loads ${name} as a valid current form`, () => {
+      const form = load(name);
+
+      expect(form.version).toBe(CURRENT_FORM_VERSION);
+      expect(parseFormDefinition(form)).toEqual({ ok: true, form });
+    });
+  }
+
+  it("upgrades the unversioned (v0) shape", () => {
+    const form = load("form-v0.json");
+    const [name, attendance, guests] = form.fields;
+
+    expect(name).toMatchObject({ type: "text", rules: { minLength: 2, maxLength: 80 } });
+    expect(attendance).toMatchObject({
+      type: "select",
+      rules: { options: [{ label: "Yes", value: "yes" }, { label: "No", value: "no" }] },
+    });
+    expect(attendance).not.toHaveProperty("options");
+    expect(guests).toMatchObject({ type: "number", rules: { min: 0, max: 5 } });
+  });
+
+  it("upgrades the v1 shape", () => {
+    const form = load("form-v1.json");
+    const [email, size, quantity, notes] = form.fields;
+
+    expect(email).toMatchObject({ type: "email", required: true });
+    expect(size).toMatchObject({
+      type: "select",
+      rules: { options: [{ label: "Small", value: "s" }, { label: "Large", value: "l" }] },
+    });
+    expect(quantity).toMatchObject({ type: "number", rules: { min: 1, max: 10 } });
+    expect(notes).toMatchObject({ type: "textarea", rules: { maxLength: 500 } });
+    expect(form.description).toBe("Saved by a v1 release.");
+  });
+
+  it("gives checkbox conditions saved without a value `false`", () => {
+    const raw = {
+      ...JSON.parse(fixture("form-v1.json")),
+      version: CURRENT_FORM_VERSION,
+      fields: [
+        { id: "f1", name: "hasPet", label: "Has a pet", type: "checkbox" },
+        { id: "f2", name: "petName", label: "Pet name", type: "text", visibleWhen: { fieldId: "f1", operator: "equals" } },
+        { id: "f3", name: "vet", label: "Vet", type: "text", requiredWhen: { fieldId: "f2", operator: "isNotEmpty" } },
+      ],
+    };
+    const result = migrateFormDefinition(raw);
+    if (!result.ok) throw new Error(JSON.stringify(result.issues));
+    const [, petName, vet] = result.form.fields;
+
+    expect(petName.visibleWhen).toEqual({ fieldId: "f1", operator: "equals", value: false });
+    expect(vet.requiredWhen).toEqual({ fieldId: "f2", operator: "isNotEmpty" });
+  });
+
+  it("rejects forms from a newer release", () => {
+    const raw = { ...JSON.parse(fixture("form-v1.json")), version: CURRENT_FORM_VERSION + 1 };
+    const result = migrateFormDefinition(raw);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.issues[0].path).toBe("version");
+  });
+});
+
+/** In-memory localStorage for the library functions. */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+describe("legacy active-form import", () => {
+  const LEGACY_KEY = "forms-for-devs:activeForm:v1";
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    vi.stubGlobal("window", { localStorage: storage });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("imports and selects a readable legacy form", () => {
+    storage.setItem(LEGACY_KEY, fixture("form-v0.json"));
+
+    const result = loadFormFromStorage();
+
+    expect(result).toMatchObject({ status: "loaded", form: { id: "legacy-survey", version: CURRENT_FORM_VERSION } });
+    expect(storage.getItem(LEGACY_KEY)).toBeNull();
+  });
+
+  it("lists an unreadable legacy form with its issues", () => {
+    storage.setItem(LEGACY_KEY, JSON.stringify({ id: "broken", title: "Broken", fields: "nope" }));
+
+    const summary = listForms().find((form) => form.id === "broken");
+
+    expect(summary?.issues?.length).toBeGreaterThan(0);
+    expect(loadForm("broken")).toMatchObject({ status: "invalid" });
+    expect(getSelectedFormId()).toBe("broken");
+    expect(storage.getItem(LEGACY_KEY)).toBeNull();
+  });
+
+  it("imports next to an existing library without overwriting or reselecting", () => {
+    const existing = load("form-v0.json");
+    saveFormToStorage(existing);
+    setSelectedFormId(existing.id);
+    storage.setItem(LEGACY_KEY, fixture("form-v0.json").replace('"Event survey"', '"Old survey"'));
+
+    const titles = listForms().map((form) => [form.id, form.title]);
+
+    expect(titles).toEqual(
+      expect.arrayContaining([
+        ["legacy-survey", "Event survey"],
+        ["legacy-survey-2", "Old survey"],
+      ])
+    );
+    expect(getSelectedFormId()).toBe("legacy-survey");
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { generateSvelteComponent } from "@/lib/exporters/svelte";
+import { CONDITIONAL_FORM } from "./helpers/conditional-form";
+import { typeCheck } from "./helpers/typecheck";
+
+/**
+ * The Svelte export's scripts compile under strict TypeScript, including a
+ * form whose conditional fields make `Values` keys optional.
+ */
+
+// The runes the generated scripts use.
+const RUNE_DECLARATIONS = `
+declare function $state<T>(initial: T): T;
+declare function $props<T>(): T;
+`;
+
+function scriptsOf(component: string): string {
+  const scripts = [...component.matchAll(/<script lang="ts"(?: module)?>([\s\S]*?)<\/script>/g)];
+  if (scripts.length === 0) throw new Error("No <script> block.");
+  return scripts.map((match) => match[1]).join("\n");
+}
+
+describe("Svelte export", () => {
+  it("type-checks with conditional fields and groups", () => {
+    const component = generateSvelteComponent(CONDITIONAL_FORM);
+
+    expect(typeCheck({ "runes.d.ts": RUNE_DECLARATIONS, "Form.ts": scriptsOf(component) })).toEqual([]);
+  });
+});
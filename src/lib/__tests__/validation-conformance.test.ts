@@ -0,0 +1,493 @@
+import Ajv2020 from "ajv/dist/2020";
+import addFormats from "ajv-formats";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { z } from "zod";
+import type { ChildField, Field, FormDefinition } from "@/lib/form-types";
+import { generateJsonSchema } from "@/lib/schema-generator";
+import { buildSubmission, validateSubmission } from "@/lib/validation";
+import type { FieldValues } from "@/lib/conditions";
+import { buildClientHelpers, buildValidateFunction, fieldDescriptor } from "@/lib/exporters/rule-checks";
+import { generateZodSchema } from "@/lib/exporters/zod";
+
+/**
+ * Conformance of the validators:
+ * - validateSubmission accepts exactly the bodies the JSON Schema export accepts
+ * - so does the Zod export
+ * - the exported client validators (Svelte, Web Component, HTML script) report
+ *   the same errors as validateSubmission for the same input, and submit the
+ *   body buildSubmission builds
+ *
+ * Inputs are generated from a fixed seed, so failures reproduce.
+ */
+
+/* -------------------------------------------------------------------------- */
+/* Forms                                                                      */
+/* -------------------------------------------------------------------------- */
+
+function makeForm(fields: Field[]): FormDefinition {
+  return {
+    id: "conformance",
+    title: "Conformance",
+    version: 3,
+    fields,
+    createdAtISO: "2026-01-01T00:00:00.000Z",
+    updatedAtISO: "2026-01-01T00:00:00.000Z",
+  };
+}
+
+const RULES_FORM = makeForm([
+  { id: "f1", name: "name", label: "Name", type: "text", required: true, rules: { minLength: 2, maxLength: 5 } },
+  { id: "f2", name: "code", label: "Code", type: "text", rules: { minLength: 3, pattern: "^[A-Z]+$" } },
+  { id: "f3", name: "email", label: "Email", type: "email", rules: { maxLength: 20 } },
+  { id: "f4", name: "bio", label: "Bio", type: "textarea", rules: { maxLength: 4 } },
+  { id: "f5", name: "age", label: "Age", type: "number", rules: { integer: true, min: 0, max: 120 } },
+  { id: "f6", name: "score", label: "Score", type: "number", required: true, rules: { min: 1 } },
+  { id: "f7", name: "start", label: "Start", type: "date" },
+  { id: "f8", name: "end", label: "End", type: "date", required: true },
+  {
+    id: "f9",
+    name: "plan",
+    label: "Plan",
+    type: "select",
+    required: true,
+    rules: { options: [{ label: "Basic", value: "basic" }, { label: "Pro", value: "pro" }] },
+  },
+  { id: "f10", name: "terms", label: "Terms", type: "checkbox", required: true },
+  { id: "f11", name: "news", label: "News", type: "checkbox" },
+  { id: "f14", name: "initials", label: "Initials", type: "text", rules: { pattern: "^\\p{Lu}+$" } },
+  {
+    id: "f12",
+    name: "phones",
+    label: "Phones",
+    type: "group",
+    rules: { minItems: 1, maxItems: 2 },
+    fields: [
+      { id: "c1", name: "kind", label: "Kind", type: "text", required: true },
+      { id: "c2", name: "number", label: "Number", type: "text", rules: { minLength: 3, pattern: "^[0-9+ ]+$" } },
+      { id: "c3", name: "primary", label: "Primary", type: "checkbox" },
+    ],
+  },
+  {
+    id: "f13",
+    name: "items",
+    label: "Items",
+    type: "group",
+    required: true,
+    fields: [{ id: "c4", name: "qty", label: "Qty", type: "number", required: true, rules: { integer: true } }],
+  },
+]);
+
+// visibleWhen / requiredWhen on every source type, including a chained condition.
+const CONDITIONS_FORM = makeForm([
+  {
+    id: "k1",
+    name: "accountType",
+    label: "Account type",
+    type: "select",
+    rules: { options: [{ label: "Personal", value: "personal" }, { label: "Business", value: "business" }] },
+  },
+  {
+    id: "k2",
+    name: "company",
+    label: "Company",
+    type: "text",
+    required: true,
+    rules: { minLength: 2 },
+    visibleWhen: { fieldId: "k1", operator: "equals", value: "business" },
+  },
+  {
+    id: "k3",
+    name: "vat",
+    label: "VAT",
+    type: "text",
+    visibleWhen: { fieldId: "k2", operator: "isNotEmpty" },
+    requiredWhen: { fieldId: "k1", operator: "equals", value: "business" },
+  },
+  { id: "k4", name: "hasPet", label: "Has pet", type: "checkbox" },
+  {
+    id: "k5",
+    name: "petName",
+    label: "Pet name",
+    type: "text",
+    requiredWhen: { fieldId: "k4", operator: "equals", value: true },
+  },
+  { id: "k6", name: "guests", label: "Guests", type: "number" },
+  {
+    id: "k7",
+    name: "dietary",
+    label: "Dietary",
+    type: "textarea",
+    visibleWhen: { fieldId: "k6", operator: "notEquals", value: 0 },
+  },
+  {
+    id: "k8",
+    name: "consent",
+    label: "Consent",
+    type: "checkbox",
+    requiredWhen: { fieldId: "k6", operator: "isNotEmpty" },
+  },
+  {
+    id: "k9",
+    name: "attendees",
+    label: "Attendees",
+    type: "group",
+    requiredWhen: { fieldId: "k4", operator: "isEmpty" },
+    fields: [{ id: "k10", name: "who", label: "Who", type: "text", required: true }],
+  },
+]);
+
+/* -------------------------------------------------------------------------- */
+/* Random input                                                               */
+/* -------------------------------------------------------------------------- */
+
+type Random = {
+  next: () => number;
+  pick: <T>(items: readonly T[]) => T;
+  chance: (p: number) => boolean;
+};
+
+// mulberry32: small, seedable, good enough for test inputs.
+function seeded(seed: number): Random {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    pick: (items) => items[Math.floor(next() * items.length)],
+    chance: (p) => next() < p,
+  };
+}
+
+const TEXTS = [
+  "",
+  " ",
+  "a",
+  "ab",
+  "abc",
+  "ABC",
+  "ABCDEF",
+  "hello",
+  "hello world",
+  "😀",
+  "😀😀😀",
+  "😀😀😀😀😀",
+  "+1 555",
+  "12",
+  "ada@example.com",
+  "Ada@Example.COM",
+  "a@b",
+  "ÄÖ",
+  "not-an-email",
+  "x".repeat(25),
+  "business",
+  "personal",
+];
+const NUMBERS = [0, 1, -3, 1.5, 10, 100, 121, 2 ** 53];
+const DATES = ["2024-02-29", "2023-02-29", "2024-13-01", "24-01-01", "2024-1-1", "0001-01-01"];
+
+/**
+ * Input state as the exported validators read it: "" for blank text, date and
+ * select answers, `number | null` (NaN for unparseable input) for numbers.
+ */
+function randomInput(fields: Array<Field | ChildField>, random: Random): FieldValues {
+  const values: FieldValues = {};
+
+  for (const field of fields) {
+    switch (field.type) {
+      case "text":
+      case "textarea":
+      case "email":
+        values[field.name] = random.pick(TEXTS);
+        break;
+      case "number":
+        values[field.name] = random.chance(0.3) ? null : random.chance(0.1) ? NaN : random.pick(NUMBERS);
+        break;
+      case "date":
+        // Date inputs only ever hold a valid date or "".
+        values[field.name] = random.chance(0.4) ? "" : "2024-02-29";
+        break;
+      case "select":
+        values[field.name] = random.pick(["", ...(field.rules?.options ?? []).map((o) => o.value)]);
+        break;
+      case "checkbox":
+        values[field.name] = random.chance(0.5);
+        break;
+      case "group": {
+        const count = Math.floor(random.next() * 4);
+        values[field.name] = Array.from({ length: count }, () => randomInput(field.fields, random));
+        break;
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * The submission body for an input state: blank answers left out (as
+ * buildSubmission does), hidden fields left in (validateSubmission reports them).
+ */
+function toBody(fields: Array<Field | ChildField>, values: FieldValues): FieldValues {
+  const body: FieldValues = {};
+  for (const field of fields) {
+    const value = values[field.name];
+    if (field.type === "group") {
+      body[field.name] = (value as FieldValues[]).map((item) => toBody(field.fields, item));
+    } else if (value !== "" && value !== null) {
+      body[field.name] = value;
+    }
+  }
+  return body;
+}
+
+/**
+ * A JSON body for the schema comparison: mostly well-typed answers, with
+ * missing keys, wrong types and unknown keys mixed in.
+ */
+function randomBody(fields: Array<Field | ChildField>, random: Random): FieldValues {
+  const body: FieldValues = {};
+
+  for (const field of fields) {
+    if (random.chance(0.25)) continue;
+
+    if (random.chance(0.05)) {
+      body[field.name] = random.pick<unknown>(["x", 1, true, null, [], {}]);
+      continue;
+    }
+
+    switch (field.type) {
+      case "text":
+      case "textarea":
+      case "email":
+        body[field.name] = random.pick(TEXTS);
+        break;
+      case "number":
+        body[field.name] = random.pick(NUMBERS);
+        break;
+      case "date":
+        body[field.name] = random.pick(DATES);
+        break;
+      case "select":
+        body[field.name] = random.pick(["", "other", ...(field.rules?.options ?? []).map((o) => o.value)]);
+        break;
+      case "checkbox":
+        body[field.name] = random.chance(0.5);
+        break;
+      case "group": {
+        const count = Math.floor(random.next() * 4);
+        body[field.name] = Array.from({ length: count }, () =>
+          random.chance(0.05) ? "item" : randomBody(field.fields, random)
+        );
+        break;
+      }
+    }
+  }
+
+  if (random.chance(0.05)) body.extra = "x";
+  return body;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Validators under test                                                      */
+/* -------------------------------------------------------------------------- */
+
+// A stock validator: Ajv's draft 2020-12 defaults plus ajv-formats.
+function schemaValidator(form: FormDefinition) {
+  const ajv = new Ajv2020();
+  addFormats(ajv);
+  return ajv.compile(generateJsonSchema(form));
+}
+
+/**
+ * Evaluates the generated Zod module (compiled to CommonJS, with this repo's zod).
+ */
+function zodValidator(form: FormDefinition): (body: FieldValues) => boolean {
+  const { outputText } = ts.transpileModule(generateZodSchema(form), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const exports: { formSchema?: z.ZodType } = {};
+  new Function("require", "exports", outputText)(() => ({ z }), exports);
+
+  const schema = exports.formSchema;
+  if (!schema) throw new Error("The Zod module exports no formSchema.");
+  return (body) => schema.safeParse(body).success;
+}
+
+type ClientValidator = {
+  validate: (values: FieldValues, names?: string[]) => Record<string, string>;
+  toPayload: (values: FieldValues) => FieldValues;
+};
+
+/**
+ * Evaluates the generated vanilla JS validator (as the Web Component and the
+ * HTML script embed it).
+ */
+function clientValidator(form: FormDefinition): ClientValidator {
+  const source = `const FIELDS = ${JSON.stringify(form.fields.map(fieldDescriptor))};
+${buildValidateFunction(form.fields)}
+${buildClientHelpers(form.fields)}
+return { validate, toPayload };`;
+  return new Function(source)() as ClientValidator;
+}
+
+function messages(form: FormDefinition, body: FieldValues): Record<string, string> {
+  const { errors } = validateSubmission(form, body);
+  return Object.fromEntries(Object.entries(errors).map(([path, error]) => [path, error.message]));
+}
+
+/* -------------------------------------------------------------------------- */
+/* Tests                                                                      */
+/* -------------------------------------------------------------------------- */
+
+describe("validateSubmission and the JSON Schema export", () => {
+  for (const [name, form] of [
+    ["rules", RULES_FORM],
+    ["conditions", CONDITIONS_FORM],
+  ] as const) {
+    it(`accept the same bodies (${name})`, () => {
+      const random = seeded(21);
+      const schema = schemaValidator(form);
+
+      for (let i = 0; i < 3000; i++) {
+        const body = randomBody(form.fields, random);
+        const expected = schema(body);
+        const { valid } = validateSubmission(form, body);
+        if (valid !== expected) expect({ body, valid }).toEqual({ body, valid: expected });
+      }
+    });
+  }
+});
+
+describe("the Zod export and the JSON Schema export", () => {
+  for (const [name, form] of [
+    ["rules", RULES_FORM],
+    ["conditions", CONDITIONS_FORM],
+  ] as const) {
+    it(`accept the same bodies (${name})`, () => {
+      const random = seeded(25);
+      const schema = schemaValidator(form);
+      const zod = zodValidator(form);
+
+      for (let i = 0; i < 3000; i++) {
+        const body = randomBody(form.fields, random);
+        const expected = schema(body);
+        const valid = zod(body);
+        if (valid !== expected) expect({ body, valid }).toEqual({ body, valid: expected });
+      }
+    });
+  }
+
+  it("require ticked checkboxes, also under requiredWhen", () => {
+    const form = makeForm([
+      { id: "t1", name: "terms", label: "Terms", type: "checkbox", required: true },
+      { id: "t2", name: "guests", label: "Guests", type: "number" },
+      { id: "t3", name: "consent", label: "Consent", type: "checkbox", requiredWhen: { fieldId: "t2", operator: "isNotEmpty" } },
+    ]);
+    const schema = schemaValidator(form);
+    const zod = zodValidator(form);
+
+    for (const body of [{ terms: false }, { terms: true, guests: 2, consent: false }, { terms: true, guests: 2, consent: true }]) {
+      expect({ body, valid: zod(body) }).toEqual({ body, valid: schema(body) });
+    }
+  });
+
+  it("count lengths in code points", () => {
+    const form = makeForm([{ id: "n1", name: "notes", label: "Notes", type: "textarea", rules: { minLength: 2, maxLength: 100 } }]);
+    const schema = schemaValidator(form);
+    const zod = zodValidator(form);
+
+    for (const notes of ["😀".repeat(60), "😀", "😀".repeat(101)]) {
+      expect({ notes, valid: zod({ notes }) }).toEqual({ notes, valid: schema({ notes }) });
+    }
+  });
+});
+
+describe("validateSubmission and a stock JSON Schema validator", () => {
+  const schema = schemaValidator(RULES_FORM);
+  const base = { name: "Ada", score: 1, end: "2024-02-29", plan: "pro", terms: true, items: [{ qty: 1 }] };
+
+  it("agree on email addresses without a dotted domain", () => {
+    const body = { ...base, email: "a@b" };
+    expect(schema(body)).toBe(false);
+    expect(validateSubmission(RULES_FORM, body).errors.email?.code).toBe("email");
+  });
+
+  it("read patterns as Unicode regular expressions", () => {
+    const body = { ...base, initials: "ÄB" };
+    expect(schema(body)).toBe(true);
+    expect(validateSubmission(RULES_FORM, body).valid).toBe(true);
+  });
+});
+
+describe("exported client validators", () => {
+  it("report validateSubmission's errors for the same input", () => {
+    const random = seeded(16);
+    const client = clientValidator(RULES_FORM);
+
+    for (let i = 0; i < 3000; i++) {
+      const values = randomInput(RULES_FORM.fields, random);
+      const expected = messages(RULES_FORM, toBody(RULES_FORM.fields, values));
+      const actual = client.validate(values);
+      if (!isDeepEqual(actual, expected)) expect({ values, errors: actual }).toEqual({ values, errors: expected });
+    }
+  });
+
+  it("skip hidden fields and apply requiredWhen like the Preview", () => {
+    const random = seeded(15);
+    const client = clientValidator(CONDITIONS_FORM);
+
+    for (let i = 0; i < 3000; i++) {
+      const values = randomInput(CONDITIONS_FORM.fields, random);
+      const payload = client.toPayload(values);
+      expect(payload).toEqual(buildSubmission(CONDITIONS_FORM, values));
+
+      const expected = messages(CONDITIONS_FORM, payload);
+      const actual = client.validate(values);
+      if (!isDeepEqual(actual, expected)) expect({ values, errors: actual }).toEqual({ values, errors: expected });
+    }
+  });
+
+  it("submit blank optional answers as absent", () => {
+    const client = clientValidator(RULES_FORM);
+    const values = { ...randomInput(RULES_FORM.fields, seeded(3)), code: "", start: "", age: null };
+
+    const payload = client.toPayload(values);
+    expect(payload).toEqual(buildSubmission(RULES_FORM, values));
+    expect(payload).not.toHaveProperty("start");
+    expect(validateSubmission(RULES_FORM, payload).errors.start).toBeUndefined();
+  });
+
+  it("skip length and pattern rules for blank optional answers", () => {
+    const client = clientValidator(RULES_FORM);
+    const values = randomInput(RULES_FORM.fields, seeded(1));
+    Object.assign(values, { code: "", email: "", bio: "" });
+
+    const errors = client.validate(values);
+    expect(errors.code).toBeUndefined();
+    expect(errors.email).toBeUndefined();
+    expect(errors.bio).toBeUndefined();
+  });
+
+  it("count lengths in code points", () => {
+    const client = clientValidator(RULES_FORM);
+    const values = { ...randomInput(RULES_FORM.fields, seeded(2)), bio: "😀😀😀😀" };
+
+    expect(client.validate(values).bio).toBeUndefined();
+    expect(validateSubmission(RULES_FORM, toBody(RULES_FORM.fields, values)).errors.bio).toBeUndefined();
+  });
+});
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  try {
+    expect(a).toEqual(b);
+    return true;
+  } catch {
+    return false;
+  }
+}
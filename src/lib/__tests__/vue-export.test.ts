@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { generateVueComponent } from "@/lib/exporters/vue";
+import { CONDITIONAL_FORM } from "./helpers/conditional-form";
+import { typeCheck } from "./helpers/typecheck";
+
+/**
+ * The Vue export applies visibleWhen / requiredWhen: conditional fields are
+ * rendered with `v-if`, requiredWhen binds `:required`, and hidden answers
+ * stay out of the emitted values. The `<script setup>` block type-checks.
+ */
+
+// The parts of Vue (and its compiler macros) the generated script uses.
+const VUE_DECLARATIONS = `
+declare module "vue" {
+  export function reactive<T extends object>(value: T): T;
+  export function ref<T>(value: T): { value: T };
+  export function ref<T>(): { value: T | undefined };
+}
+declare function defineProps<T>(): T;
+declare function withDefaults<T, D extends Partial<T>>(props: T, defaults: D): T;
+declare function defineEmits<T>(): (event: keyof T, ...args: unknown[]) => void;
+`;
+
+function scriptOf(sfc: string): string {
+  const match = /<script setup lang="ts">([\s\S]*?)<\/script>/.exec(sfc);
+  if (!match) throw new Error("No <script setup> block.");
+  return match[1];
+}
+
+describe("Vue export conditions", () => {
+  const sfc = generateVueComponent(CONDITIONAL_FORM);
+
+  it("renders conditional fields with v-if and binds :required", () => {
+    expect(sfc).toContain(`<template v-if="isVisible('company', form)">`);
+    expect(sfc).toContain(`<template v-if="isVisible('phones', form)">`);
+    expect(sfc).toContain(`<input id="f4" v-model="form.petName" type="text" class="ffd-input" :required="isRequired('petName', form)" />`);
+    // Required only where it is rendered.
+    expect(sfc).toMatch(/<template v-if="isVisible\('company', form\)">\s*<div class="ffd-field">\s*<label[^>]*>Company<\/label>\s*<input id="f2"[^>]* required/);
+  });
+
+  it("types conditional values as optional and leaves hidden answers out", () => {
+    expect(sfc).toContain("company?: string;");
+    expect(sfc).toContain(`...(isVisible("company", form) ? { company: form.company } : {})`);
+  });
+
+  it("emits a script that type-checks", () => {
+    expect(typeCheck({ "vue.d.ts": VUE_DECLARATIONS, "Form.ts": scriptOf(sfc) })).toEqual([]);
+  });
+});
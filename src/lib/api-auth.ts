@@ -0,0 +1,44 @@
+// lib/api-auth.ts
+import { createHash, timingSafeEqual } from "node:crypto";
+
+/**
+ * Access control for the submission API's admin routes (server only: uses
+ * node:crypto).
+ *
+ * Publishing a definition (which carries the webhook URL and secret), sending
+ * test webhooks and reading submissions or the delivery log require
+ * `Authorization: Bearer <FFD_ADMIN_TOKEN>`. Posting a submission never does.
+ *
+ * Design note:
+ * - Without FFD_ADMIN_TOKEN the admin routes are open: fine for `npm run dev`
+ *   on your own machine, never for a server others can reach
+ * - Tokens are compared as SHA-256 digests with timingSafeEqual, so neither
+ *   the content nor the length leaks through timing
+ */
+
+function adminToken(): string | null {
+  return process.env.FFD_ADMIN_TOKEN || null;
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * requireAdmin
+ *
+ * Null when the request may use an admin route, otherwise the 401 response
+ * to send.
+ */
+export function requireAdmin(request: Request): Response | null {
+  const expected = adminToken();
+  if (expected === null) return null;
+
+  const match = /^Bearer (.+)$/.exec(request.headers.get("authorization") ?? "");
+  if (match && timingSafeEqual(digest(match[1]), digest(expected))) return null;
+
+  return Response.json(
+    { message: "This server requires its admin token (FFD_ADMIN_TOKEN) for this request." },
+    { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+  );
+}
@@ -0,0 +1,115 @@
+// lib/conditions.ts
+import type { Field, FieldCondition } from "./form-types";
+
+/**
+ * FieldValues
+ *
+ * Answers keyed by field.name, as produced by react-hook-form in the Preview.
+ * Values stay `unknown` because number inputs arrive as strings and
+ * checkboxes as booleans.
+ */
+export type FieldValues = Record<string, unknown>;
+
+/**
+ * normalizeConditionValue
+ *
+ * Converts a raw answer into the referenced field's native type so comparisons
+ * agree with the JSON Schema `const` we export:
+ * - number  -> number (blank stays undefined)
+ * - checkbox -> boolean
+ * - other   -> string
+ */
+export function normalizeConditionValue(
+  source: Field,
+  raw: unknown
+): string | number | boolean | undefined {
+  if (raw === undefined || raw === null) return undefined;
+
+  if (source.type === "number") {
+    if (raw === "") return undefined;
+    const n = Number(raw);
+    return Number.isNaN(n) ? undefined : n;
+  }
+
+  if (source.type === "checkbox") return raw === true || raw === "true";
+
+  return String(raw);
+}
+
+/**
+ * isEmptyConditionValue
+ *
+ * "Empty" mirrors the schema predicate: missing, null, "" or false.
+ */
+function isEmptyConditionValue(value: unknown): boolean {
+  return value === undefined || value === null || value === "" || value === false;
+}
+
+/**
+ * evaluateCondition
+ *
+ * Evaluates a single condition against the current answers.
+ *
+ * A source field that is itself hidden counts as empty, because hidden answers
+ * are never submitted. `visiting` guards against condition cycles.
+ */
+export function evaluateCondition(
+  condition: FieldCondition,
+  fields: Field[],
+  values: FieldValues,
+  visiting: Set<string> = new Set()
+): boolean {
+  const source = fields.find((f) => f.id === condition.fieldId);
+
+  // Dangling reference (e.g. the source field was deleted) never matches.
+  if (!source) return false;
+
+  const sourceVisible = isFieldVisible(source, fields, values, visiting);
+  const actual = sourceVisible ? normalizeConditionValue(source, values[source.name]) : undefined;
+
+  switch (condition.operator) {
+    case "equals":
+      return actual !== undefined && actual === normalizeConditionValue(source, condition.value);
+    case "notEquals":
+      return actual !== normalizeConditionValue(source, condition.value);
+    case "isEmpty":
+      return isEmptyConditionValue(actual);
+    case "isNotEmpty":
+      return !isEmptyConditionValue(actual);
+    default:
+      return false;
+  }
+}
+
+/**
+ * isFieldVisible
+ *
+ * Fields without `visibleWhen` are always visible.
+ */
+export function isFieldVisible(
+  field: Field,
+  fields: Field[],
+  values: FieldValues,
+  visiting: Set<string> = new Set()
+): boolean {
+  if (!field.visibleWhen) return true;
+
+  // Cycle: treat the field as hidden rather than recursing forever.
+  if (visiting.has(field.id)) return false;
+
+  const next = new Set(visiting);
+  next.add(field.id);
+  return evaluateCondition(field.visibleWhen, fields, values, next);
+}
+
+/**
+ * isFieldRequired
+ *
+ * Effective requiredness for the current answers:
+ * static `required` OR a matching `requiredWhen`.
+ */
+export function isFieldRequired(field: Field, fields: Field[], values: FieldValues): boolean {
+  if (field.required) return true;
+  if (!field.requiredWhen) return false;
+  return evaluateCondition(field.requiredWhen, fields, values);
+}
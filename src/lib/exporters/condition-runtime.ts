@@ -0,0 +1,194 @@
+// lib/exporters/condition-runtime.ts
+import type { Field, FieldCondition } from "@/lib/form-types";
+import { normalizeConditionValue } from "@/lib/conditions";
+import { propertyKey } from "@/lib/exporters/zod";
+
+/**
+ * visibleWhen / requiredWhen for exported code: the conditions resolved by
+ * field name, and an emitted evaluator (`isVisible`, `isRequired`) that ports
+ * lib/conditions.ts.
+ *
+ * Design note:
+ * - Shared by the exporters that evaluate conditions at runtime
+ *   (react-hook-form, React TS, Svelte, and the vanilla JS validators via rule-checks)
+ * - The evaluator reads answers by field name and normalizes them like the
+ *   Preview, so it accepts both raw input strings and typed values
+ * - Only top-level fields carry conditions; group children never do
+ */
+
+/**
+ * EmittedCondition
+ *
+ * Condition as emitted into the generated module: the source field is
+ * referenced by name and the value is pre-normalized to the source's type.
+ */
+export type EmittedCondition = {
+  field: string;
+  kind: "string" | "number" | "boolean";
+  operator: FieldCondition["operator"];
+  value?: string | number | boolean;
+};
+
+/**
+ * ResolvedConditions
+ *
+ * visibleWhen / requiredWhen resolved by field name.
+ *
+ * A visibleWhen whose source no longer exists resolves to null (the Preview
+ * never shows such a field); a dangling requiredWhen is dropped (never required).
+ */
+export type ResolvedConditions = {
+  visible: Map<string, EmittedCondition | null>;
+  required: Map<string, EmittedCondition>;
+};
+
+function emitCondition(condition: FieldCondition, fields: Field[]): EmittedCondition | null {
+  const source = fields.find((f) => f.id === condition.fieldId);
+  if (!source) return null;
+
+  const kind = source.type === "number" ? "number" : source.type === "checkbox" ? "boolean" : "string";
+  const value = normalizeConditionValue(source, condition.value);
+
+  return value === undefined
+    ? { field: source.name, kind, operator: condition.operator }
+    : { field: source.name, kind, operator: condition.operator, value };
+}
+
+export function resolveConditions(fields: Field[]): ResolvedConditions {
+  const visible = new Map<string, EmittedCondition | null>();
+  const required = new Map<string, EmittedCondition>();
+
+  for (const field of fields) {
+    if (field.visibleWhen) visible.set(field.name, emitCondition(field.visibleWhen, fields));
+
+    if (field.requiredWhen && !field.required) {
+      const condition = emitCondition(field.requiredWhen, fields);
+      if (condition) required.set(field.name, condition);
+    }
+  }
+
+  return { visible, required };
+}
+
+/**
+ * isConditional
+ *
+ * True when the field's visibility or requiredness depends on other answers.
+ */
+export function isConditional(field: Field, conditions: ResolvedConditions): boolean {
+  return conditions.visible.has(field.name) || conditions.required.has(field.name);
+}
+
+/**
+ * requiredExpression
+ *
+ * Effective requiredness of a top-level field as a generated expression over
+ * the answers in `values`: "true", an `isRequired(...)` call, or null when
+ * the field is never required.
+ */
+export function requiredExpression(field: Field, conditions: ResolvedConditions, values: string): string | null {
+  if (field.required) return "true";
+  if (conditions.required.has(field.name)) return `isRequired(${JSON.stringify(field.name)}, ${values})`;
+  return null;
+}
+
+function conditionMap(entries: Map<string, EmittedCondition | null>): string {
+  if (entries.size === 0) return "{}";
+  const lines = [...entries].map(
+    ([name, condition]) => `  ${propertyKey(name)}: ${condition ? literal(condition) : "null"},`
+  );
+  return `{\n${lines.join("\n")}\n}`;
+}
+
+/**
+ * Single-line object literal: `{ field: "method", operator: "equals" }`.
+ */
+function literal(value: Record<string, unknown>): string {
+  const entries = Object.entries(value).map(([key, v]) => `${propertyKey(key)}: ${JSON.stringify(v)}`);
+  return `{ ${entries.join(", ")} }`;
+}
+
+/**
+ * buildConditionRuntime
+ *
+ * Emits the condition evaluator in TypeScript or plain JavaScript: a port of
+ * lib/conditions.ts (hidden source fields count as empty, cycles resolve to
+ * hidden). `isRequired` is only emitted when some field has a requiredWhen.
+ */
+export function buildConditionRuntime(conditions: ResolvedConditions, language: "ts" | "js"): string {
+  // Type annotations, dropped for plain JavaScript.
+  const t = (annotation: string) => (language === "ts" ? annotation : "");
+
+  const isRequired =
+    conditions.required.size > 0
+      ? `
+const REQUIRED_WHEN${t(": Record<string, Condition>")} = ${conditionMap(conditions.required)};
+
+function isRequired(name${t(": string")}, values${t(": Answers")})${t(": boolean")} {
+  const condition = REQUIRED_WHEN[name];
+  return condition ? matches(condition, values, new Set()) : false;
+}
+`
+      : "";
+
+  const types =
+    language === "ts"
+      ? `
+type Answers = Record<string, unknown>;
+
+type Condition = {
+  field: string;
+  kind: "string" | "number" | "boolean";
+  operator: "equals" | "notEquals" | "isEmpty" | "isNotEmpty";
+  value?: string | number | boolean;
+};
+`
+      : "";
+
+  return `
+/* -------------------------------------------------------------------------- */
+/* Conditions                                                                 */
+/* -------------------------------------------------------------------------- */
+${types}
+// null: the condition's source field no longer exists, so the field never shows.
+const VISIBLE_WHEN${t(": Record<string, Condition | null>")} = ${conditionMap(conditions.visible)};
+
+function normalize(kind${t(': Condition["kind"]')}, raw${t(": unknown")})${t(": string | number | boolean | undefined")} {
+  if (raw === undefined || raw === null) return undefined;
+  if (kind === "number") {
+    if (raw === "") return undefined;
+    const n = Number(raw);
+    return Number.isNaN(n) ? undefined : n;
+  }
+  if (kind === "boolean") return raw === true || raw === "true";
+  return String(raw);
+}
+
+function matches(condition${t(": Condition")}, values${t(": Answers")}, visiting${t(": Set<string>")})${t(": boolean")} {
+  // A hidden source field counts as empty: its answer is never submitted.
+  const actual = isVisible(condition.field, values, visiting)
+    ? normalize(condition.kind, values[condition.field])
+    : undefined;
+  const empty = actual === undefined || actual === "" || actual === false;
+
+  switch (condition.operator) {
+    case "equals":
+      return actual !== undefined && actual === condition.value;
+    case "notEquals":
+      return actual !== condition.value;
+    case "isEmpty":
+      return empty;
+    case "isNotEmpty":
+      return !empty;
+  }${language === "js" ? "\n  return false;" : ""}
+}
+
+function isVisible(name${t(": string")}, values${t(": Answers")}, visiting${t(": Set<string>")} = new Set())${t(": boolean")} {
+  if (!(name in VISIBLE_WHEN)) return true;
+
+  const condition = VISIBLE_WHEN[name];
+  if (!condition || visiting.has(name)) return false;
+  return matches(condition, values, new Set(visiting).add(name));
+}
+${isRequired}`;
+}
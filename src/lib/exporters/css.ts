@@ -1,47 +1,68 @@
-export function generateCss(): string {
-  return `.ffd-form {
+import type { FormTheme } from "@/lib/form-types";
+import { DEFAULT_THEME, themeCss } from "@/lib/theme";
+
+/**
+ * generateCss
+ *
+ * Stylesheet for the exported markup. The theme is emitted as `--ffd-*`
+ * custom properties on `.ffd-form`; every rule below reads those variables.
+ */
+export function generateCss(theme: FormTheme = DEFAULT_THEME): string {
+  return `${themeCss(theme, ".ffd-form")}
+
+.ffd-form {
   max-width: 640px;
   margin: 0 auto;
   display: grid;
-  gap: 1rem;
-  font-family: Arial, sans-serif;
+  gap: var(--ffd-space);
+  padding: var(--ffd-space);
+  border-radius: var(--ffd-radius);
+  background: var(--ffd-color-background);
+  color: var(--ffd-color-text);
+  font-family: var(--ffd-font-family);
+  font-size: var(--ffd-font-size);
 }
 
 .ffd-title {
   margin: 0;
-  font-size: 1.5rem;
+  font-size: 1.5em;
   line-height: 1.2;
 }
 
 .ffd-description {
-  margin: -0.25rem 0 0;
-  color: #4b5563;
-  font-size: 0.95rem;
+  margin: calc(var(--ffd-space) * -0.25) 0 0;
+  color: var(--ffd-color-muted);
+  font-size: 0.95em;
   line-height: 1.5;
 }
 
 .ffd-field {
   display: grid;
-  gap: 0.45rem;
+  gap: calc(var(--ffd-space) * 0.45);
   margin: 0;
   border: 0;
   padding: 0;
 }
 
 .ffd-label {
-  font-size: 0.95rem;
+  font-size: 0.95em;
   font-weight: 600;
 }
 
 .ffd-input {
   width: 100%;
-  padding: 0.75rem 0.875rem;
-  border: 1px solid #d1d5db;
-  border-radius: 0.5rem;
+  padding: 0.75em 0.875em;
+  border: 1px solid var(--ffd-color-border);
+  border-radius: var(--ffd-radius);
   font: inherit;
   box-sizing: border-box;
-  background: #ffffff;
-  color: #111827;
+  background: var(--ffd-color-surface);
+  color: var(--ffd-color-text);
+}
+
+.ffd-input:focus {
+  outline: 2px solid var(--ffd-color-primary);
+  outline-offset: 1px;
 }
 
 textarea.ffd-input {
@@ -52,19 +73,69 @@ textarea.ffd-input {
 .ffd-choice {
   display: flex;
   align-items: center;
-  gap: 0.5rem;
-  font-size: 0.95rem;
+  gap: 0.5em;
+  font-size: 0.95em;
+}
+
+.ffd-choice input {
+  accent-color: var(--ffd-color-primary);
+}
+
+.ffd-error {
+  margin: 0;
+  color: var(--ffd-color-error);
+  font-size: 0.85em;
 }
 
 .ffd-button {
   appearance: none;
   border: 0;
-  border-radius: 0.5rem;
-  padding: 0.85rem 1rem;
+  border-radius: var(--ffd-radius);
+  padding: 0.85em 1em;
   font: inherit;
   font-weight: 600;
   cursor: pointer;
-  background: #111827;
-  color: #ffffff;
+  background: var(--ffd-color-primary);
+  color: var(--ffd-color-primary-text);
+}
+
+.ffd-group-item {
+  display: grid;
+  gap: calc(var(--ffd-space) * 0.75);
+  padding: calc(var(--ffd-space) * 0.75);
+  border: 1px solid var(--ffd-color-border);
+  border-radius: var(--ffd-radius);
+}
+
+.ffd-button-secondary {
+  background: var(--ffd-color-surface);
+  color: var(--ffd-color-text);
+  border: 1px solid var(--ffd-color-border);
+}
+
+.ffd-step {
+  display: grid;
+  gap: var(--ffd-space);
+}
+
+.ffd-step[hidden],
+.ffd-field[hidden] {
+  display: none;
+}
+
+.ffd-step-title {
+  margin: 0;
+  font-size: 1.125em;
+}
+
+.ffd-progress {
+  margin: 0;
+  color: var(--ffd-color-muted);
+  font-size: 0.85em;
+}
+
+.ffd-nav {
+  display: flex;
+  gap: calc(var(--ffd-space) * 0.75);
 }`;
-}
\ No newline at end of file
+}
@@ -1,11 +1,12 @@
 import type { FormDefinition } from "@/lib/form-types";
+import type { HtmlExportOptions } from "@/lib/exporters/html";
 import { generateHtml } from "@/lib/exporters/html";
 import { generateCss } from "@/lib/exporters/css";
 
-export function generateEmbeddedHtml(form: FormDefinition): string {
-  return `${generateHtml(form)}
+export function generateEmbeddedHtml(form: FormDefinition, options: HtmlExportOptions = {}): string {
+  return `${generateHtml(form, options)}
 
 <style>
-${generateCss()}
+${generateCss(form.theme)}
 </style>`;
 }
\ No newline at end of file
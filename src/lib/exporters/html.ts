@@ -1,24 +1,71 @@
-import type { FormDefinition } from "@/lib/form-types";
+import type { ChildField, Field, FormDefinition, GroupField } from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { isMultiStep, resolveFormSteps } from "@/lib/steps";
+import { isValidPattern } from "@/lib/validation";
+import {
+  buildClientHelpers,
+  buildValidateFunction,
+  fieldDescriptor,
+  reportsErrors,
+} from "@/lib/exporters/rule-checks";
+import { buildConditionRuntime, resolveConditions } from "@/lib/exporters/condition-runtime";
+import type { TailwindClassMap, TailwindRole } from "@/lib/exporters/tailwind";
+import { resolveTailwindClasses } from "@/lib/exporters/tailwind";
 
-type ExportableOption = {
-  label: string;
-  value: string;
+/**
+ * HtmlExportOptions
+ *
+ * - `validation`: write every rule as a native attribute (minlength, pattern,
+ *   min/max, step, ...) and append an inline validator script that shows the
+ *   Preview's messages and submits typed JSON (see validationScript)
+ * - `styling`: "css" (default) uses the `ffd-*` classes of generateCss();
+ *   "tailwind" uses utility classes from the class map instead
+ * - `tailwindClasses`: per-role overrides of DEFAULT_TAILWIND_CLASSES
+ */
+export type HtmlExportOptions = {
+  validation?: boolean;
+  styling?: "css" | "tailwind";
+  tailwindClasses?: Partial<TailwindClassMap>;
 };
 
-type ExportableField = {
-  id: string;
-  name?: string;
-  type: string;
-  label?: string;
-  placeholder?: string;
-  required?: boolean;
-  options?: ExportableOption[];
-  rules?: {
-    options?: ExportableOption[];
-  };
+/**
+ * The `ffd-*` classes per role (styling "css"). Roles without one render no
+ * class attribute.
+ */
+const CSS_CLASSES: TailwindClassMap = {
+  form: "ffd-form",
+  header: "",
+  title: "ffd-title",
+  description: "ffd-description",
+  field: "ffd-field",
+  group: "ffd-field ffd-group",
+  groupItem: "ffd-group-item",
+  label: "ffd-label",
+  required: "",
+  input: "ffd-input",
+  textarea: "ffd-input",
+  choice: "ffd-choice",
+  checkbox: "",
+  error: "ffd-error",
+  button: "ffd-button",
+  buttonSecondary: "ffd-button ffd-button-secondary",
+  step: "ffd-step",
+  stepHeader: "",
+  stepTitle: "ffd-step-title",
+  progress: "ffd-progress",
+  nav: "ffd-nav",
 };
 
-function escapeHtml(value: string): string {
+/**
+ * ` class="..."` for an element role (with a leading space), or "".
+ */
+function classAttr(role: TailwindRole, options: HtmlExportOptions): string {
+  const classes =
+    options.styling === "tailwind" ? resolveTailwindClasses(options.tailwindClasses)[role] : CSS_CLASSES[role];
+  return classes ? ` class="${escapeHtml(classes)}"` : "";
+}
+
+export function escapeHtml(value: string): string {
   return String(value)
     .replaceAll("&", "&amp;")
     .replaceAll("<", "&lt;")
@@ -27,115 +74,513 @@ function escapeHtml(value: string): string {
     .replaceAll("'", "&#39;");
 }
 
-function getFieldName(field: ExportableField): string {
-  return field.name?.trim() || field.id;
+/**
+ * escapeHtml for framework templates (Vue, Svelte) where braces start an
+ * expression: user text can never form a `{{ }}` or `{ }` block.
+ */
+export function escapeTemplateText(value: string): string {
+  return escapeHtml(value).replaceAll("{", "&#123;").replaceAll("}", "&#125;");
+}
+
+function getFieldName(field: { id: string; name: string }): string {
+  return field.name.trim() || field.id;
+}
+
+function indent(markup: string, spaces: number): string {
+  const pad = " ".repeat(spaces);
+  return markup
+    .split("\n")
+    .map((line) => (line ? `${pad}${line}` : line))
+    .join("\n");
 }
 
-function getFieldOptions(field: ExportableField): ExportableOption[] {
-  if (Array.isArray(field.options)) return field.options;
-  if (Array.isArray(field.rules?.options)) return field.rules.options;
-  return [];
+/**
+ * Renders a repeatable group as a fieldset with its minimum number of items
+ * (at least one). Child inputs use bracketed names, e.g. `phones[0][number]`,
+ * the conventional encoding for arrays of objects in form posts.
+ */
+function renderGroup(field: GroupField, options: HtmlExportOptions): string {
+  const label = escapeHtml(field.label || "Untitled Field");
+  const count = Math.max(field.rules?.minItems ?? 0, 1);
+  const groupName = getFieldName(field);
+  const groupAttr = options.validation ? ` data-ffd-group="${escapeHtml(groupName)}"` : "";
+
+  const items = Array.from({ length: count }, (_, index) => {
+    const childMarkup = field.fields
+      .map((child) =>
+        renderInput(
+          {
+            ...child,
+            id: `${field.id}-${index}-${child.id}`,
+            name: `${groupName}[${index}][${getFieldName(child)}]`,
+          },
+          options,
+          `${groupName}.${index}.${getFieldName(child)}`
+        )
+      )
+      .join("\n");
+
+    return `  <div${classAttr("groupItem", options)} data-ffd-item="${index}">
+${indent(childMarkup, 4)}
+  </div>`;
+  }).join("\n");
+
+  return `<fieldset${classAttr("group", options)}${groupAttr}${visibilityAttr(field)}>
+  <legend${classAttr("label", options)}>${label}</legend>
+${items}
+${renderError(field, options, groupName)}</fieldset>`;
 }
 
-function renderInput(field: ExportableField): string {
+/**
+ * Renders a single (non-group) field.
+ * With the validation option, rules become native attributes and the field
+ * gets an error slot keyed by `errorKey` (`name`, or `group.index.child`).
+ * The switch is exhaustive: a new FieldType fails to compile until handled.
+ */
+function renderInput(field: ChildField, options: HtmlExportOptions, errorKey = getFieldName(field)): string {
   const id = escapeHtml(field.id);
   const name = escapeHtml(getFieldName(field));
   const label = escapeHtml(field.label || "Untitled Field");
   const placeholder = field.placeholder
     ? ` placeholder="${escapeHtml(field.placeholder)}"`
     : "";
-  const required = field.required ? " required" : "";
-  const options = getFieldOptions(field);
-
-  if (field.type === "textarea") {
-    return `<div class="ffd-field">
-  <label for="${id}" class="ffd-label">${label}</label>
-  <textarea id="${id}" name="${name}" class="ffd-input"${placeholder}${required}></textarea>
-</div>`;
-  }
+  const required = field.required ? " required" : requiredWhenAttr(field, options);
+  const rules = options.validation ? ruleAttrs(field) : "";
+  const error = renderError(field, options, errorKey);
+  const fieldClass = `${classAttr("field", options)}${visibilityAttr(field)}`;
+  const labelClass = classAttr("label", options);
 
-  if (field.type === "select") {
-    const optionMarkup = options
-      .map(
-        (option) =>
-          `    <option value="${escapeHtml(option.value)}">${escapeHtml(option.label)}</option>`
-      )
-      .join("\n");
+  switch (field.type) {
+    case "textarea":
+      return `<div${fieldClass}>
+  <label for="${id}"${labelClass}>${label}</label>
+  <textarea id="${id}" name="${name}"${classAttr("textarea", options)}${placeholder}${required}${rules}></textarea>
+${error}</div>`;
 
-    const promptOption = field.placeholder
-      ? `    <option value="">${escapeHtml(field.placeholder)}</option>\n`
-      : "";
+    case "select": {
+      const optionMarkup = (field.rules?.options ?? [])
+        .map(
+          (option) =>
+            `    <option value="${escapeHtml(option.value)}">${escapeHtml(option.label)}</option>`
+        )
+        .join("\n");
+
+      const promptOption = field.placeholder
+        ? `    <option value="">${escapeHtml(field.placeholder)}</option>\n`
+        : "";
 
-    return `<div class="ffd-field">
-  <label for="${id}" class="ffd-label">${label}</label>
-  <select id="${id}" name="${name}" class="ffd-input"${required}>
+      return `<div${fieldClass}>
+  <label for="${id}"${labelClass}>${label}</label>
+  <select id="${id}" name="${name}"${classAttr("input", options)}${required}>
 ${promptOption}${optionMarkup}
   </select>
-</div>`;
+${error}</div>`;
+    }
+
+    case "checkbox":
+      return `<div${fieldClass}>
+  <label for="${id}"${classAttr("choice", options)}>
+    <input type="checkbox" id="${id}" name="${name}"${classAttr("checkbox", options)}${required} />
+    <span>${label}</span>
+  </label>
+${error}</div>`;
+
+    case "text":
+    case "email":
+    case "number":
+    case "date":
+      return `<div${fieldClass}>
+  <label for="${id}"${labelClass}>${label}</label>
+  <input type="${field.type}" id="${id}" name="${name}"${classAttr("input", options)}${placeholder}${required}${rules} />
+${error}</div>`;
+
+    default:
+      return assertNever(field);
   }
+}
 
-  if (field.type === "radio") {
-    const optionMarkup = options
-      .map((option, index) => {
-        const optionId = `${id}-${index}`;
-        return `  <label for="${optionId}" class="ffd-choice">
-    <input type="radio" id="${optionId}" name="${name}" value="${escapeHtml(option.value)}"${required} />
-    <span>${escapeHtml(option.label)}</span>
-  </label>`;
-      })
-      .join("\n");
+/**
+ * Renders any top-level field, dispatching groups to renderGroup.
+ */
+function renderField(field: Field, options: HtmlExportOptions): string {
+  return field.type === "group" ? renderGroup(field, options) : renderInput(field, options);
+}
+
+/**
+ * ` data-ffd-field="..."` on a field with visibleWhen: the inline script
+ * (validationScript, or conditionsScript without the option) hides it while
+ * the condition fails.
+ */
+function visibilityAttr(field: Field): string {
+  return field.visibleWhen ? ` data-ffd-field="${escapeHtml(getFieldName(field))}"` : "";
+}
+
+/**
+ * ` data-ffd-required="..."` on a control with requiredWhen (without the
+ * validation option): conditionsScript sets its native `required` while the
+ * condition holds. The validation script checks requiredWhen itself.
+ */
+function requiredWhenAttr(field: ChildField, options: HtmlExportOptions): string {
+  return !options.validation && field.requiredWhen ? ` data-ffd-required="${escapeHtml(getFieldName(field))}"` : "";
+}
 
-    return `<fieldset class="ffd-field">
-  <legend class="ffd-label">${label}</legend>
-${optionMarkup}
-</fieldset>`;
+/**
+ * Native constraint attributes for a field's rules (the no-JS fallback of the
+ * validation option). Number inputs always get a step so decimals aren't rejected.
+ */
+function ruleAttrs(field: ChildField): string {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email": {
+      const rules = field.rules ?? {};
+      const min = rules.minLength != null ? ` minlength="${rules.minLength}"` : "";
+      const max = rules.maxLength != null ? ` maxlength="${rules.maxLength}"` : "";
+      const pattern =
+        field.type !== "textarea" && rules.pattern && isValidPattern(rules.pattern)
+          ? ` pattern="${escapeHtml(rules.pattern)}"`
+          : "";
+      return `${min}${max}${pattern}`;
+    }
+
+    case "number": {
+      const rules = field.rules ?? {};
+      const min = rules.min != null ? ` min="${rules.min}"` : "";
+      const max = rules.max != null ? ` max="${rules.max}"` : "";
+      return `${min}${max} step="${rules.integer ? 1 : "any"}"`;
+    }
+
+    case "date":
+    case "select":
+    case "checkbox":
+      return "";
+
+    default:
+      return assertNever(field);
   }
+}
 
-  if (field.type === "checkbox" && options.length > 0) {
-    const optionMarkup = options
-      .map((option, index) => {
-        const optionId = `${id}-${index}`;
-        return `  <label for="${optionId}" class="ffd-choice">
-    <input type="checkbox" id="${optionId}" name="${name}" value="${escapeHtml(option.value)}" />
-    <span>${escapeHtml(option.label)}</span>
-  </label>`;
-      })
-      .join("\n");
+/**
+ * Hidden error slot (with trailing newline) filled by the validation script;
+ * "" without the option or for fields without rules.
+ */
+function renderError(field: Field, options: HtmlExportOptions, errorKey: string): string {
+  if (!options.validation || !reportsErrors(field)) return "";
+  return `  <p${classAttr("error", options)} data-ffd-error="${escapeHtml(errorKey)}" hidden></p>\n`;
+}
+
+/**
+ * Navigation for wizard exports without the validation option (part of
+ * nativeScript). "Next" only advances when every control in the current step
+ * passes native constraint validation; the final step uses the regular
+ * submit button.
+ */
+const WIZARD_SCRIPT = `
+  var steps = Array.prototype.slice.call(form.querySelectorAll("[data-ffd-step]"));
+  var current = 0;
 
-    return `<fieldset class="ffd-field">
-  <legend class="ffd-label">${label}</legend>
-${optionMarkup}
-</fieldset>`;
+  function show(index) {
+    steps.forEach(function (step, i) {
+      step.hidden = i !== index;
+    });
+    current = index;
   }
 
-  if (field.type === "checkbox") {
-    return `<div class="ffd-field">
-  <label for="${id}" class="ffd-choice">
-    <input type="checkbox" id="${id}" name="${name}"${required} />
-    <span>${label}</span>
-  </label>
-</div>`;
+  form.addEventListener("click", function (event) {
+    var target = event.target;
+    if (target.hasAttribute("data-ffd-next")) {
+      var controls = steps[current].querySelectorAll("input, select, textarea");
+      for (var i = 0; i < controls.length; i++) {
+        if (!controls[i].checkValidity()) {
+          controls[i].reportValidity();
+          return;
+        }
+      }
+      show(Math.min(current + 1, steps.length - 1));
+    }
+    if (target.hasAttribute("data-ffd-back")) {
+      show(Math.max(current - 1, 0));
+    }
+  });
+
+  show(0);`;
+
+/**
+ * visibleWhen / requiredWhen without the validation option (part of
+ * nativeScript): hidden fields are hidden and their controls disabled, so
+ * native validation skips them and they are not submitted; requiredWhen
+ * toggles the native `required`.
+ */
+function conditionsScript(form: FormDefinition): string {
+  const conditions = resolveConditions(form.fields);
+
+  const syncRequired =
+    conditions.required.size > 0
+      ? `
+    form.querySelectorAll("[data-ffd-required]").forEach((control) => {
+      control.required = isRequired(control.dataset.ffdRequired, values);
+    });`
+      : "";
+
+  return `
+${indent(buildConditionRuntime(conditions, "js").trim(), 2)}
+
+  // Answers as the controls hold them; the runtime normalizes them.
+  function readAnswers() {
+    const values = {};
+    for (const control of form.elements) {
+      if (control.name && !(control.name in values)) {
+        values[control.name] = control.type === "checkbox" ? control.checked : control.value;
+      }
+    }
+    return values;
   }
 
-  const inputType = escapeHtml(field.type || "text");
+  function syncConditions() {
+    const values = readAnswers();
+    form.querySelectorAll("[data-ffd-field]").forEach((wrapper) => {
+      const visible = isVisible(wrapper.dataset.ffdField, values);
+      wrapper.hidden = !visible;
+      // Disabled controls are neither validated nor submitted.
+      wrapper.querySelectorAll("input, select, textarea").forEach((control) => {
+        control.disabled = !visible;
+      });
+    });${syncRequired}
+  }
 
-  return `<div class="ffd-field">
-  <label for="${id}" class="ffd-label">${label}</label>
-  <input type="${inputType}" id="${id}" name="${name}" class="ffd-input"${placeholder}${required} />
-</div>`;
+  form.addEventListener("input", syncConditions);
+  form.addEventListener("change", syncConditions);
+  syncConditions();`;
 }
 
-export function generateHtml(form: FormDefinition): string {
-  const fields = (form.fields as ExportableField[]).map(renderInput).join("\n\n");
+/**
+ * Inline script for exports without the validation option: wizard
+ * navigation and/or conditions ("" when the form needs neither).
+ */
+function nativeScript(form: FormDefinition): string {
+  const conditional = form.fields.some((field) => field.visibleWhen || field.requiredWhen);
+  const parts = [isMultiStep(form) ? WIZARD_SCRIPT : "", conditional ? conditionsScript(form) : ""].filter(Boolean);
+  if (parts.length === 0) return "";
+
+  const source = `(function () {
+  var form = document.currentScript.previousElementSibling;
+${parts.join("\n")}
+})();`;
+
+  // "</" would end the inline script early (e.g. an option value containing "</script>").
+  return `<script>\n${source.replaceAll("</", "<\\/")}\n</script>`;
+}
+
+function renderSteps(form: FormDefinition, options: HtmlExportOptions): string {
+  const steps = resolveFormSteps(form);
+
+  return steps
+    .map((step, index) => {
+      const fields = step.fields.map((field) => renderField(field, options)).join("\n\n");
+      const isFirst = index === 0;
+      const isLast = index === steps.length - 1;
+
+      const back = isFirst
+        ? ""
+        : `  <button type="button"${classAttr("buttonSecondary", options)} data-ffd-back>Back</button>\n`;
+      const forward = isLast
+        ? `  <button type="submit"${classAttr("button", options)}>Submit</button>`
+        : `  <button type="button"${classAttr("button", options)} data-ffd-next>Next</button>`;
+
+      return `  <section${classAttr("step", options)} data-ffd-step="${index}"${isFirst ? "" : " hidden"}>
+    <p${classAttr("progress", options)}>Step ${index + 1} of ${steps.length}</p>
+    <h3${classAttr("stepTitle", options)}>${escapeHtml(step.title || `Step ${index + 1}`)}</h3>
+${indent(fields, 4)}
+    <div${classAttr("nav", options)}>
+${indent(back + forward, 4)}
+    </div>
+  </section>`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Inline validator script for the validation option.
+ *
+ * - Switches the form to `noValidate` so errors show as the Preview's messages
+ *   in the `ffd-error` slots (without JS, the native attributes still apply)
+ * - A valid submit dispatches a cancelable `ffd-submit` event on the form with
+ *   the typed JSON payload in `detail.values`; when the form has an `action`,
+ *   the payload is also sent there as JSON (`method` defaults to POST) and
+ *   `ffd-submit-success` / `ffd-submit-error` report the outcome
+ * - Wizards get Next/Back here (instead of WIZARD_SCRIPT), Next checking the
+ *   current step's rules
+ * - Fields with visibleWhen show and hide as the answers change; hidden fields
+ *   are neither validated nor submitted
+ */
+function validationScript(form: FormDefinition): string {
+  const wizard = isMultiStep(form);
+  const steps = resolveFormSteps(form);
+  const conditional = form.fields.some((field) => field.visibleWhen);
+
+  const stepsConst = wizard
+    ? `
+
+  // Field names per wizard step.
+  const STEPS = ${JSON.stringify(steps.map((s) => s.fields.map((f) => getFieldName(f))))};
+  let current = 0;`
+    : "";
+
+  const wizardHandlers = wizard
+    ? `
+
+  function show(index) {
+    current = Math.max(0, Math.min(index, STEPS.length - 1));
+    form.querySelectorAll("[data-ffd-step]").forEach((step, i) => {
+      step.hidden = i !== current;
+    });
+  }
+
+  // Advance only when the current step's fields pass their rules.
+  function next() {
+    const errors = validate(readValues(), STEPS[current]);
+    showErrors(errors);
+    if (Object.keys(errors).length === 0) show(current + 1);
+  }
+
+  form.addEventListener("click", (event) => {
+    if (event.target.hasAttribute("data-ffd-next")) next();
+    if (event.target.hasAttribute("data-ffd-back")) show(current - 1);
+  });`
+    : "";
+
+  const visibilityHandlers = conditional
+    ? `
+
+  // Shows each conditional field while its visibleWhen holds.
+  function syncVisibility() {
+    const values = readValues();
+    form.querySelectorAll("[data-ffd-field]").forEach((wrapper) => {
+      wrapper.hidden = !isVisible(wrapper.dataset.ffdField, values);
+    });
+  }`
+    : "";
+
+  const visibilityInit = conditional
+    ? `
+
+  form.addEventListener("input", syncVisibility);
+  form.addEventListener("change", syncVisibility);
+  syncVisibility();`
+    : "";
+
+  const submitGuard = wizard
+    ? `
+    // Enter on an intermediate step behaves like "Next".
+    if (current < STEPS.length - 1) {
+      next();
+      return;
+    }
+`
+    : "";
+
+  const source = `(function () {
+  const form = document.currentScript.previousElementSibling;
+
+  // Field names and types, for reading values from the controls.
+  const FIELDS = ${JSON.stringify(form.fields.map(fieldDescriptor))};${stepsConst}
+
+${indent(buildValidateFunction(form.fields), 2)}
+
+${indent(buildClientHelpers(form.fields), 2)}
+
+  function readValues() {
+    const values = {};
+
+    for (const field of FIELDS) {
+      if (field.type === "group") {
+        const group = form.querySelector(\`[data-ffd-group="\${CSS.escape(field.name)}"]\`);
+        values[field.name] = Array.from(group.querySelectorAll(":scope > [data-ffd-item]"), (item, index) => {
+          const entry = {};
+          for (const child of field.fields) {
+            entry[child.name] = readControl(form.elements.namedItem(\`\${field.name}[\${index}][\${child.name}]\`), child.type);
+          }
+          return entry;
+        });
+      } else {
+        values[field.name] = readControl(form.elements.namedItem(field.name), field.type);
+      }
+    }
+
+    return values;
+  }
+
+  function showErrors(errors) {
+    form.querySelectorAll("[data-ffd-error]").forEach((slot) => {
+      const message = errors[slot.dataset.ffdError];
+      slot.textContent = message ?? "";
+      slot.hidden = !message;
+    });
+  }${visibilityHandlers}${wizardHandlers}
+
+  // The script reports errors itself; native attributes are the no-JS fallback.
+  form.noValidate = true;${visibilityInit}
+
+  form.addEventListener("submit", (event) => {
+    event.preventDefault();${submitGuard}
+    const values = readValues();
+    const errors = validate(values);
+    showErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    const payload = toPayload(values);
+    const proceed = form.dispatchEvent(
+      new CustomEvent("ffd-submit", { detail: { values: payload }, bubbles: true, cancelable: true })
+    );
+
+    const action = form.getAttribute("action");
+    if (!proceed || !action) return;
+
+    sendPayload(action, (form.getAttribute("method") || "post").toUpperCase(), payload)
+      .then((response) => {
+        const outcome = response.ok ? "ffd-submit-success" : "ffd-submit-error";
+        form.dispatchEvent(new CustomEvent(outcome, { detail: { response }, bubbles: true }));
+      })
+      .catch((error) => {
+        form.dispatchEvent(new CustomEvent("ffd-submit-error", { detail: { error }, bubbles: true }));
+      });
+  });
+})();`;
+
+  // "</" would end the inline script early (e.g. a label containing "</script>").
+  return `<script>\n${source.replaceAll("</", "<\\/")}\n</script>`;
+}
+
+/**
+ * generateHtml
+ *
+ * Single-page forms emit a flat list of fields.
+ * Multi-step forms emit one `<section data-ffd-step>` per step plus a small
+ * inline script that handles Next/Back with per-step validation; forms with
+ * conditions get one that shows, hides and requires fields (nativeScript).
+ * The validation option adds rule attributes, error slots and validationScript;
+ * the styling option swaps the `ffd-*` classes for Tailwind utilities.
+ */
+export function generateHtml(form: FormDefinition, options: HtmlExportOptions = {}): string {
   const title = form.title?.trim()
-    ? `  <h2 class="ffd-title">${escapeHtml(form.title)}</h2>\n`
+    ? `  <h2${classAttr("title", options)}>${escapeHtml(form.title)}</h2>\n`
     : "";
   const description = form.description?.trim()
-    ? `  <p class="ffd-description">${escapeHtml(form.description)}</p>\n`
+    ? `  <p${classAttr("description", options)}>${escapeHtml(form.description)}</p>\n`
     : "";
 
-  return `<form class="ffd-form">
+  if (isMultiStep(form)) {
+    return `<form${classAttr("form", options)}>
+${title}${description}${renderSteps(form, options)}
+</form>
+${options.validation ? validationScript(form) : nativeScript(form)}`;
+  }
+
+  const fields = form.fields.map((field) => renderField(field, options)).join("\n\n");
+  const script = options.validation ? validationScript(form) : nativeScript(form);
+
+  return `<form${classAttr("form", options)}>
 ${title}${description}${fields}
-  <button type="submit" class="ffd-button">Submit</button>
-</form>`;
+  <button type="submit"${classAttr("button", options)}>Submit</button>
+</form>${script ? `\n${script}` : ""}`;
 }
\ No newline at end of file
@@ -0,0 +1,332 @@
+// lib/exporters/openapi.ts
+import type { ChildField, Field, FormDefinition, GroupField, TextRules } from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { isFieldRequired, isFieldVisible } from "@/lib/conditions";
+import { generateJsonSchema } from "@/lib/schema-generator";
+import { validateSubmission } from "@/lib/validation";
+import { ruleMessage } from "@/lib/validation-messages";
+import { makeSafeComponentName } from "@/lib/exporters/react-ts";
+
+/**
+ * OpenAPI 3.1 export: one POST operation that accepts the form's submissions.
+ *
+ * Design note:
+ * - The request body schema IS generateJsonSchema's output (OpenAPI 3.1 uses
+ *   JSON Schema 2020-12), registered as a named component; only `$schema` is
+ *   dropped in favour of the document-level `jsonSchemaDialect`
+ * - Example bodies are built from placeholders and select options, and respect
+ *   the form's conditions: hidden fields are left out, like a real submission
+ * - Examples pass validateSubmission: optional answers that fail their rules
+ *   (e.g. a pattern no sample text matches) are left out, and when a required
+ *   one fails the example is omitted and the request body says why
+ * - 422 responses carry one message per failing field, keyed by field name or
+ *   `group.index.child` (the Preview's error paths)
+ */
+
+type JsonObject = { [key: string]: unknown };
+
+/**
+ * OpenApiDocument
+ *
+ * Only the top-level shape is typed; operations and schemas are plain JSON.
+ */
+export type OpenApiDocument = {
+  openapi: "3.1.0";
+  jsonSchemaDialect: string;
+  info: { title: string; version: string; description?: string };
+  paths: Record<string, JsonObject>;
+  components: { schemas: Record<string, JsonObject> };
+};
+
+/**
+ * submissionPath
+ *
+ * Path of the submission endpoint for a form.
+ */
+export function submissionPath(form: FormDefinition): string {
+  return `/api/forms/${encodeURIComponent(form.id)}/submissions`;
+}
+
+/**
+ * generateOpenApiDocument
+ *
+ * Wraps the form's JSON Schema in an OpenAPI 3.1 document:
+ * - POST {submissionPath} with a required JSON request body
+ * - `components.schemas.<Name>Submission` (the JSON Schema export)
+ * - "complete" and "minimal" request examples
+ * - 201 (accepted) and 422 (ValidationError) responses
+ */
+export function generateOpenApiDocument(form: FormDefinition): OpenApiDocument {
+  const name = makeSafeComponentName(form.id || form.title || "GeneratedForm");
+  const schemaName = `${name}Submission`;
+
+  const schema: JsonObject = { ...generateJsonSchema(form) };
+  delete schema.$schema;
+
+  const complete = exampleSubmission(form);
+  const minimal = exampleSubmission(form, true);
+  const examples: JsonObject = {};
+  if (complete) examples.complete = { summary: "Every visible field", value: complete };
+  if (minimal && JSON.stringify(minimal) !== JSON.stringify(complete)) {
+    examples.minimal = { summary: "Required fields only", value: minimal };
+  }
+  const hasExamples = Object.keys(examples).length > 0;
+
+  return {
+    openapi: "3.1.0",
+    jsonSchemaDialect: "https://json-schema.org/draft/2020-12/schema",
+    info: {
+      title: `${form.title || "Form"} API`,
+      version: String(form.version),
+      ...(form.description ? { description: form.description } : {}),
+    },
+    paths: {
+      [submissionPath(form)]: {
+        post: {
+          operationId: `submit${name}`,
+          summary: `Submit "${form.title || form.id}"`,
+          requestBody: {
+            required: true,
+            ...(hasExamples ? {} : { description: NO_EXAMPLE }),
+            content: {
+              "application/json": {
+                schema: { $ref: `#/components/schemas/${schemaName}` },
+                ...(hasExamples ? { examples } : {}),
+              },
+            },
+          },
+          responses: {
+            "201": {
+              description: "Submission accepted.",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/SubmissionReceipt" },
+                },
+              },
+            },
+            "422": {
+              description: "The body failed the form's validation rules.",
+              content: {
+                "application/json": {
+                  schema: { $ref: "#/components/schemas/ValidationError" },
+                  example: validationErrorExample(form),
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        [schemaName]: schema,
+        SubmissionReceipt: {
+          type: "object",
+          required: ["id", "receivedAtISO"],
+          properties: {
+            id: { type: "string" },
+            receivedAtISO: { type: "string", format: "date-time" },
+          },
+        },
+        ValidationError: {
+          type: "object",
+          required: ["message", "errors"],
+          properties: {
+            message: { type: "string" },
+            errors: {
+              type: "object",
+              description: 'Message per failing field, keyed by field name or "group.index.child".',
+              additionalProperties: { type: "string" },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/* Examples                                                                   */
+/* -------------------------------------------------------------------------- */
+
+const NO_EXAMPLE =
+  "No example: a required field has a rule (such as its pattern) that no generated sample value satisfies.";
+
+/**
+ * exampleSubmission
+ *
+ * Example request body (also the webhook test payload). Fields hidden by
+ * their conditions are omitted; `requiredOnly` keeps just the fields (and
+ * group children) that are (conditionally) required.
+ * Selects without options have no valid value and are always omitted.
+ *
+ * The body passes validateSubmission: optional answers it rejects are left
+ * out. Null when a required answer is rejected (see validExample).
+ */
+export function exampleSubmission(form: FormDefinition, requiredOnly = false): JsonObject | null {
+  const all: JsonObject = {};
+  for (const field of form.fields) {
+    const value = exampleValue(field, requiredOnly);
+    if (value !== undefined) all[field.name] = value;
+  }
+
+  // Visibility and requiredness depend on the other answers, so settle the
+  // selection against itself (bounded: each pass can only follow conditions).
+  let names = Object.keys(all);
+  for (let pass = 0; pass <= form.fields.length; pass++) {
+    const values = pick(all, names);
+    const next = form.fields
+      .filter((field) => field.name in all)
+      .filter((field) => isFieldVisible(field, form.fields, values))
+      .filter((field) => !requiredOnly || isFieldRequired(field, form.fields, values))
+      .map((field) => field.name);
+
+    if (next.join("\n") === names.join("\n")) break;
+    names = next;
+  }
+
+  return validExample(form, pick(all, names));
+}
+
+/**
+ * Drops the answers validateSubmission rejects until the example passes, or
+ * returns null when a rejected answer is required (directly, or through a
+ * required group or group child). Removing an answer can hide others, so
+ * this repeats until a pass removes nothing.
+ */
+function validExample(form: FormDefinition, example: JsonObject): JsonObject | null {
+  const body = structuredClone(example);
+
+  for (;;) {
+    const { valid, errors } = validateSubmission(form, body);
+    if (valid) return body;
+
+    const before = JSON.stringify(body);
+    for (const path of Object.keys(errors)) {
+      const [name, index, childName] = path.split(".");
+      const field = form.fields.find((f) => f.name === name);
+      if (!field || !(name in body)) continue;
+
+      const required = isFieldRequired(field, form.fields, body) && isFieldVisible(field, form.fields, body);
+      const child = field.type === "group" ? field.fields.find((c) => c.name === childName) : undefined;
+      const items = body[name];
+
+      if (child && !child.required && Array.isArray(items)) {
+        delete (items[Number(index)] as JsonObject)[child.name];
+      } else if (required) {
+        return null;
+      } else {
+        delete body[name];
+      }
+    }
+    if (JSON.stringify(body) === before) return null;
+  }
+}
+
+function pick(values: JsonObject, names: string[]): JsonObject {
+  return Object.fromEntries(names.map((name) => [name, values[name]]));
+}
+
+/**
+ * Sample texts tried after a text field's own placeholder, label and name,
+ * for patterns (which are matched, not solved).
+ */
+const SAMPLE_TEXTS = ["Example", "example", "EXAMPLE", "12345", "+1 555 0100", "A1B2C3", "abc-123", "2025-01-31"];
+
+const SAMPLE_EMAILS = ["jane@example.com", "jo@example.com", "a@b.co"];
+
+/**
+ * A value that satisfies the field's rules, as far as the sample values allow
+ * (exampleSubmission drops the ones that don't).
+ */
+function exampleValue(field: Field | ChildField, requiredOnly: boolean): unknown {
+  switch (field.type) {
+    case "text":
+    case "textarea": {
+      const rules = field.rules ?? {};
+      const own = [field.placeholder?.trim(), field.label, field.name].filter((text): text is string => Boolean(text));
+      return firstAccepted(field, [...own, ...SAMPLE_TEXTS].map((text) => fitLength(text, rules)));
+    }
+
+    case "email": {
+      const placeholder = field.placeholder?.trim();
+      return firstAccepted(field, placeholder ? [placeholder, ...SAMPLE_EMAILS] : SAMPLE_EMAILS);
+    }
+
+    case "number": {
+      const rules = field.rules ?? {};
+      const fromPlaceholder = Number(field.placeholder);
+      let n = field.placeholder?.trim() && Number.isFinite(fromPlaceholder) ? fromPlaceholder : 0;
+      if (rules.integer) n = Math.round(n);
+      if (rules.min != null && n < rules.min) n = rules.integer ? Math.ceil(rules.min) : rules.min;
+      if (rules.max != null && n > rules.max) n = rules.integer ? Math.floor(rules.max) : rules.max;
+      return n;
+    }
+
+    case "date": {
+      const placeholder = field.placeholder?.trim();
+      return placeholder && /^\d{4}-\d{2}-\d{2}$/.test(placeholder) ? placeholder : "2025-01-31";
+    }
+
+    case "select":
+      return field.rules?.options?.[0]?.value;
+
+    case "checkbox":
+      return true;
+
+    case "group": {
+      const rules = field.rules ?? {};
+      const count = Math.min(Math.max(rules.minItems ?? 0, 1), rules.maxItems ?? Infinity);
+      return Array.from({ length: count }, () => {
+        const item: JsonObject = {};
+        for (const child of field.fields) {
+          if (requiredOnly && !child.required) continue;
+          const value = exampleValue(child, requiredOnly);
+          if (value !== undefined) item[child.name] = value;
+        }
+        return item;
+      });
+    }
+
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * Repeats `text` up to minLength and cuts it at maxLength (in code points,
+ * like validateSubmission).
+ */
+function fitLength(text: string, rules: TextRules): string {
+  const chars = Array.from(text);
+  while (rules.minLength != null && chars.length < rules.minLength) chars.push(...Array.from(text));
+  return chars.slice(0, rules.maxLength ?? chars.length).join("");
+}
+
+/**
+ * The first candidate validateSubmission accepts for the field on its own,
+ * or the first candidate when none is.
+ */
+function firstAccepted(field: Exclude<Field, GroupField>, candidates: string[]): string {
+  const form: FormDefinition = {
+    id: "example",
+    title: "",
+    version: 0,
+    fields: [{ ...field, visibleWhen: undefined, requiredWhen: undefined }],
+    createdAtISO: "",
+    updatedAtISO: "",
+  };
+  return candidates.find((text) => validateSubmission(form, { [field.name]: text }).valid) ?? candidates[0];
+}
+
+/**
+ * 422 example: the first required field reported missing (or a generic
+ * message when nothing is required).
+ */
+function validationErrorExample(form: FormDefinition): JsonObject {
+  const field = form.fields.find((f) => f.required);
+  return {
+    message: "The submission is invalid.",
+    errors: field ? { [field.name]: ruleMessage(field, "required") } : {},
+  };
+}
@@ -0,0 +1,817 @@
+// lib/exporters/react-hook-form.ts
+import type { ChildField, Field, FormDefinition, GroupField } from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { isMultiStep, resolveFormSteps } from "@/lib/steps";
+import { ruleMessage } from "@/lib/validation-messages";
+import { EMAIL_REGEX, isValidPattern } from "@/lib/validation";
+import type { ResolvedConditions } from "@/lib/exporters/condition-runtime";
+import { buildConditionRuntime, isConditional, resolveConditions } from "@/lib/exporters/condition-runtime";
+import { makeSafeComponentName } from "@/lib/exporters/react-ts";
+import { propertyKey } from "@/lib/exporters/zod";
+
+/**
+ * generateReactHookFormComponent
+ *
+ * Generates a React + TypeScript component built on react-hook-form, validated
+ * by a co-generated Zod schema through `zodResolver`.
+ *
+ * Unlike generateReactTsComponent (dependency-free, native validation only),
+ * this export behaves like the Preview:
+ * - Error messages are the Preview's validateSubmission text (ruleMessage, so
+ *   custom messages carry over)
+ * - Rules are checked against the raw input values, in the Preview's order,
+ *   so the first message shown per field is the one the Preview shows; the
+ *   form is `noValidate`, so browser messages don't preempt them
+ * - visibleWhen / requiredWhen are evaluated live; hidden fields are neither
+ *   validated nor submitted
+ * - Multi-step forms advance only when the current step validates
+ * - `onSubmit(values: FormValues)` receives typed values: numbers coerced,
+ *   hidden fields omitted
+ *
+ * Requires: react-hook-form, zod (v4) and @hookform/resolvers.
+ */
+export function generateReactHookFormComponent(form: FormDefinition): string {
+  const componentName = makeSafeComponentName(form.id || form.title || "GeneratedForm");
+  const fields = form.fields;
+
+  const conditions = resolveConditions(fields);
+  const hasConditions = conditions.visible.size > 0 || conditions.required.size > 0;
+  const conditional = fields.filter((f) => isConditional(f, conditions));
+  const groups = fields.filter((f): f is GroupField => f.type === "group");
+  const wizard = isMultiStep(form);
+  const needsTransform = fields.some((f) => conditions.visible.has(f.name) || hasNumber(f));
+  const hasHelperText = fields.some(
+    (f) => Boolean(f.helperText) || (f.type === "group" && f.fields.some((c) => Boolean(c.helperText)))
+  );
+
+  /* ---------------------------------- Schema --------------------------------- */
+
+  const shape = fields
+    .map((field) => {
+      const mode = conditional.includes(field) ? "base" : "full";
+      return `    ${propertyKey(field.name)}: ${fieldSchema(field, mode, "    ")},`;
+    })
+    .join("\n");
+
+  const rulesEntries = conditional
+    .filter((field) => hasRuleChecks(field))
+    .map((field) => `  ${propertyKey(field.name)}: ${fieldSchema(field, "rules", "  ")},`);
+
+  const conditionalRules =
+    rulesEntries.length > 0
+      ? `
+// Rules for fields with visibleWhen / requiredWhen, applied in superRefine
+// only while the field is visible.
+const CONDITIONAL_RULES = {
+${rulesEntries.join("\n")}
+};
+
+function report(ctx: z.RefinementCtx, name: string, result: z.ZodSafeParseResult<unknown>) {
+  if (result.success) return;
+  for (const issue of result.error.issues) {
+    ctx.addIssue({ code: "custom", path: [name, ...issue.path], message: issue.message });
+  }
+}
+`
+      : "";
+
+  const refinements = conditional
+    .map((field) => buildRefinement(field, conditions))
+    .filter((block): block is string => block !== null);
+  const superRefine =
+    refinements.length > 0
+      ? `
+  .superRefine((values, ctx) => {
+${refinements.join("\n\n")}
+  })`
+      : "";
+
+  const transform = needsTransform
+    ? `
+  .transform(
+    (values): FormValues => ({
+${fields.map((field) => `      ${outputEntry(field, conditions)},`).join("\n")}
+    })
+  )`
+    : "";
+
+  const schema = `export const formSchema = z
+  .object({
+${shape}
+  })${superRefine}${transform};`;
+
+  /* ---------------------------------- Types ---------------------------------- */
+
+  const formValuesType = `export type FormValues = {
+${fields
+  .map((field) => {
+    const optional = conditions.visible.has(field.name) ? "?" : "";
+    return `  ${propertyKey(field.name)}${optional}: ${outputType(field, "  ")};`;
+  })
+  .join("\n")}
+};`;
+
+  const defaultsLiteral = JSON.stringify(buildDefaultValues(fields), null, 2);
+
+  /* ------------------------------- Conditions -------------------------------- */
+
+  const conditionRuntime = hasConditions ? buildConditionRuntime(conditions, "ts") : "";
+
+  /* -------------------------------- Component -------------------------------- */
+
+  const steps = resolveFormSteps(form);
+  const stepsConst = wizard
+    ? `
+const STEPS: Array<{ title: string; fields: Array<FieldPath<FormInput>> }> = ${JSON.stringify(
+        steps.map((step) => ({ title: step.title, fields: step.fields.map((f) => f.name) })),
+        null,
+        2
+      )};
+`
+    : "";
+
+  const fieldArrays = groups
+    .map(
+      (group) =>
+        `  const ${arrayVar(group)} = useFieldArray({ control, name: ${JSON.stringify(group.name)} });`
+    )
+    .join("\n");
+
+  const watch = hasConditions
+    ? `
+  // Live answers drive conditional visibility and requiredness.
+  const values = useWatch({ control });
+`
+    : "";
+
+  const wizardState = wizard
+    ? `
+  // Wizard state: only the current step's fields are rendered (values persist).
+  const [stepIndex, setStepIndex] = useState(0);
+  const isLastStep = stepIndex === STEPS.length - 1;
+
+  // Advance only when the current step's fields pass validation.
+  const goNext = async () => {
+    if (await trigger(STEPS[stepIndex].fields)) {
+      setStepIndex((i) => Math.min(i + 1, STEPS.length - 1));
+    }
+  };
+
+  const goBack = () => setStepIndex((i) => Math.max(i - 1, 0));
+
+  // A failed final submit jumps back to the first step with an error.
+  const onInvalid = (invalid: FieldErrors<FormInput>) => {
+    const failing = STEPS.findIndex((step) => step.fields.some((name) => name in invalid));
+    if (failing !== -1) setStepIndex(failing);
+  };
+`
+    : "";
+
+  const body = wizard
+    ? steps
+        .map(
+          (step, index) => `        {stepIndex === ${index} ? (
+          <>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }}>
+              <div style={{ fontSize: 16, fontWeight: 600 }}>{STEPS[${index}].title}</div>
+              <div style={{ color: "#666", fontSize: 12 }}>
+                Step ${index + 1} of {STEPS.length}
+              </div>
+            </div>
+
+${step.fields.map((field) => renderField(field, conditions, "            ")).join("\n\n")}
+          </>
+        ) : null}`
+        )
+        .join("\n\n")
+    : fields.map((field) => renderField(field, conditions, "        ")).join("\n\n");
+
+  const actions = wizard
+    ? `<div style={{ display: "flex", gap: 8 }}>
+          {stepIndex > 0 ? (
+            <button type="button" onClick={goBack} style={SECONDARY_BUTTON_STYLE}>
+              Back
+            </button>
+          ) : null}
+
+          {isLastStep ? (
+            <button type="submit" disabled={isSubmitting} style={BUTTON_STYLE}>
+              {submitLabel}
+            </button>
+          ) : (
+            <button type="button" onClick={goNext} style={BUTTON_STYLE}>
+              Next
+            </button>
+          )}
+        </div>`
+    : `<button type="submit" disabled={isSubmitting} style={BUTTON_STYLE}>
+          {submitLabel}
+        </button>`;
+
+  const onFormSubmit = wizard
+    ? `{
+        isLastStep
+          ? handleSubmit(submit, onInvalid)
+          : (e) => {
+              // Enter on an intermediate step behaves like "Next".
+              e.preventDefault();
+              void goNext();
+            }
+      }`
+    : "{handleSubmit(submit)}";
+
+  const formApi = [
+    "register",
+    ...(hasConditions || groups.length > 0 ? ["control"] : []),
+    "handleSubmit",
+    ...(wizard ? ["trigger"] : []),
+    "formState: { errors, isSubmitting }",
+  ];
+
+  const rhfImports = [
+    ...(wizard ? ["type FieldErrors", "type FieldPath"] : []),
+    ...(groups.length > 0 ? ["useFieldArray"] : []),
+    "useForm",
+    ...(hasConditions ? ["useWatch"] : []),
+  ];
+
+  const description = form.description
+    ? `\n          <div style={{ color: "#666", fontSize: 14 }}>${jsxText(form.description)}</div>`
+    : "";
+
+  return `// Generated by Forms For Devs from "${form.title.replace(/"/g, '\\"')}".
+// Requires: react-hook-form, zod (v4) and @hookform/resolvers.
+import { zodResolver } from "@hookform/resolvers/zod";
+${wizard ? 'import { useState } from "react";\n' : ""}import { ${rhfImports.join(", ")} } from "react-hook-form";
+import { z } from "zod";
+
+/* -------------------------------------------------------------------------- */
+/* Schema                                                                     */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Values as submitted to onSubmit: numbers are coerced, hidden fields omitted.
+ */
+${formValuesType}
+${conditionRuntime}${conditionalRules}
+/**
+ * Validates the raw input values (number inputs are strings) with the
+ * Preview's rules and messages, then maps them to FormValues.
+ */
+${schema}
+
+export type FormInput = z.input<typeof formSchema>;
+
+const DEFAULT_VALUES: FormInput = ${defaultsLiteral};
+${stepsConst}
+/* -------------------------------------------------------------------------- */
+/* Component                                                                  */
+/* -------------------------------------------------------------------------- */
+
+const FIELD_STYLE = { display: "grid", gap: 6 } as const;
+const LABEL_STYLE = { fontSize: 14, fontWeight: 600 } as const;
+${hasHelperText ? 'const HELPER_STYLE = { color: "#666", fontSize: 12 } as const;\n' : ""}const REQUIRED_STYLE = { color: "#b00020" } as const;
+const ERROR_STYLE = { color: "#b00020", fontSize: 13, margin: 0 } as const;
+const INPUT_STYLE = { padding: 10, border: "1px solid #ddd", borderRadius: 10 } as const;
+const BUTTON_STYLE = {
+  padding: "10px 14px",
+  borderRadius: 12,
+  border: "1px solid #111",
+  background: "#111",
+  color: "#fff",
+  fontWeight: 600,
+} as const;
+${
+  wizard
+    ? `const SECONDARY_BUTTON_STYLE = {
+  padding: "10px 14px",
+  borderRadius: 12,
+  border: "1px solid #ddd",
+  background: "#fff",
+} as const;
+`
+    : ""
+}
+function ErrorText({ message }: { message?: string }) {
+  return message ? <p style={ERROR_STYLE}>{message}</p> : null;
+}
+
+export type ${componentName}Props = {
+  /**
+   * Called with the validated, typed values when the user submits the form.
+   * Recommended: validate server-side too (formSchema or the JSON Schema export).
+   */
+  onSubmit?: (values: FormValues) => void | Promise<void>;
+
+  /** Optionally override the default button label. */
+  submitLabel?: string;
+
+  /** Optional wrapper className for styling integration. */
+  className?: string;
+};
+
+export default function ${componentName}(props: ${componentName}Props) {
+  const { onSubmit, submitLabel = "Submit", className } = props;
+
+  const {
+    ${formApi.join(",\n    ")},
+  } = useForm<FormInput, unknown, FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+${watch}${fieldArrays ? `\n${fieldArrays}\n` : ""}${wizardState}
+  const submit = async (data: FormValues) => {
+    await onSubmit?.(data);
+  };
+
+  return (
+    <form onSubmit=${onFormSubmit} className={className} noValidate>
+      <div style={{ display: "grid", gap: 12 }}>
+        <div style={{ display: "grid", gap: 4 }}>
+          <div style={{ fontSize: 18, fontWeight: 600 }}>${jsxText(form.title)}</div>${description}
+        </div>
+
+${body}
+
+        ${actions}
+      </div>
+    </form>
+  );
+}
+`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Conditions                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * superRefine block for one conditional field: skipped while hidden, then the
+ * required check, then the field's own rules (same order as validateSubmission).
+ * Null when there is nothing to check.
+ */
+function buildRefinement(field: Field, conditions: ResolvedConditions): string | null {
+  const name = JSON.stringify(field.name);
+  const value = access("values", field.name);
+  const visible = conditions.visible.has(field.name);
+
+  const indent = visible ? "      " : "    ";
+  const blank = blankCheck(field, value);
+  const rules = hasRuleChecks(field)
+    ? `report(ctx, ${name}, CONDITIONAL_RULES${accessSuffix(field.name)}.safeParse(${value}));`
+    : null;
+
+  let required: string | null = null;
+  if (field.required) required = blank;
+  else if (conditions.required.has(field.name)) required = `isRequired(${name}, values) && ${blank}`;
+
+  const addRequired = `ctx.addIssue({ code: "custom", path: [${name}], message: ${JSON.stringify(ruleMessage(field, "required"))} });`;
+
+  let statements: string;
+  if (required && rules) {
+    statements = `${indent}if (${required}) {
+${indent}  ${addRequired}
+${indent}} else {
+${indent}  ${rules}
+${indent}}`;
+  } else if (required) {
+    statements = `${indent}if (${required}) {
+${indent}  ${addRequired}
+${indent}}`;
+  } else if (rules) {
+    statements = `${indent}${rules}`;
+  } else {
+    return null;
+  }
+
+  if (!visible) return `    // ${field.name}\n${statements}`;
+
+  return `    // ${field.name}: only validated while visible
+    if (isVisible(${name}, values)) {
+${statements}
+    }`;
+}
+
+/**
+ * Emptiness for the required check: blank answers count as missing, as in
+ * validateSubmission.
+ */
+function blankCheck(field: Field, value: string): string {
+  switch (field.type) {
+    case "checkbox":
+      return `${value} !== true`;
+    case "group":
+      return `${value}.length === 0`;
+    case "text":
+    case "textarea":
+    case "email":
+    case "number":
+    case "date":
+    case "select":
+      return `${value} === ""`;
+    default:
+      return assertNever(field);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Field schemas                                                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * - full: type + required check + rules (unconditional fields)
+ * - rules: type + rules, no required check (CONDITIONAL_RULES)
+ * - base: type only (shape entry of a conditional field)
+ */
+type SchemaMode = "full" | "rules" | "base";
+
+/**
+ * Zod expression for one field's raw input value.
+ *
+ * Number inputs hold strings, so their rules are refinements on the string;
+ * the coercion happens in the final transform. The switch is exhaustive.
+ */
+function fieldSchema(field: Field, mode: SchemaMode, indent: string): string {
+  const checks: string[] = [];
+  const requiredCheck = mode === "full" && field.required;
+  const withRules = mode !== "base";
+  let base: string;
+
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date": {
+      base = "z.string()";
+      if (requiredCheck) checks.push(`.min(1, ${msg(ruleMessage(field, "required"))})`);
+      if (withRules && field.type !== "date") {
+        const rules = field.rules ?? {};
+        if (field.type === "email") {
+          checks.push(`.refine((v) => v === "" || ${String(EMAIL_REGEX)}.test(v), ${msg(ruleMessage(field, "email"))})`);
+        }
+        if (rules.minLength != null) {
+          checks.push(`.min(${rules.minLength}, ${msg(ruleMessage(field, "minLength"))})`);
+        }
+        if (rules.maxLength != null) {
+          checks.push(`.max(${rules.maxLength}, ${msg(ruleMessage(field, "maxLength"))})`);
+        }
+        if (rules.pattern && isValidPattern(rules.pattern)) {
+          checks.push(
+            `.regex(new RegExp(${JSON.stringify(rules.pattern)}, "u"), ${msg(ruleMessage(field, "pattern"))})`
+          );
+        }
+      }
+      break;
+    }
+
+    case "number": {
+      base = "z.string()";
+      if (requiredCheck) checks.push(`.refine((v) => v !== "", ${msg(ruleMessage(field, "required"))})`);
+      if (withRules) {
+        const rules = field.rules ?? {};
+        checks.push(`.refine((v) => v === "" || !Number.isNaN(Number(v)), ${msg(ruleMessage(field, "number"))})`);
+        if (rules.integer) {
+          checks.push(`.refine((v) => v === "" || Number.isInteger(Number(v)), ${msg(ruleMessage(field, "integer"))})`);
+        }
+        if (rules.min != null) {
+          checks.push(`.refine((v) => v === "" || Number(v) >= ${rules.min}, ${msg(ruleMessage(field, "min"))})`);
+        }
+        if (rules.max != null) {
+          checks.push(`.refine((v) => v === "" || Number(v) <= ${rules.max}, ${msg(ruleMessage(field, "max"))})`);
+        }
+      }
+      break;
+    }
+
+    case "select": {
+      // "" is the unselected placeholder option.
+      const values = Array.from(new Set(["", ...(field.rules?.options ?? []).map((o) => o.value)]));
+      base = `z.enum([${values.map((v) => JSON.stringify(v)).join(", ")}])`;
+      if (requiredCheck) checks.push(`.refine((v) => v !== "", ${msg(ruleMessage(field, "required"))})`);
+      break;
+    }
+
+    case "checkbox":
+      base = "z.boolean()";
+      if (requiredCheck) checks.push(`.refine((v) => v, ${msg(ruleMessage(field, "required"))})`);
+      break;
+
+    case "group": {
+      const childMode: SchemaMode = mode === "base" ? "base" : "full";
+      const children = field.fields
+        .map((child) => `${indent}    ${propertyKey(child.name)}: ${fieldSchema(child, childMode, `${indent}    `)},`)
+        .join("\n");
+      base = `z.array(\n${indent}  z.object({\n${children}\n${indent}  })\n${indent})`;
+
+      if (requiredCheck) checks.push(`.min(1, ${msg(ruleMessage(field, "required"))})`);
+      if (withRules) {
+        const rules = field.rules ?? {};
+        if (rules.minItems != null) {
+          checks.push(`.min(${rules.minItems}, ${msg(ruleMessage(field, "minItems"))})`);
+        }
+        if (rules.maxItems != null) {
+          checks.push(`.max(${rules.maxItems}, ${msg(ruleMessage(field, "maxItems"))})`);
+        }
+      }
+      break;
+    }
+
+    default:
+      return assertNever(field);
+  }
+
+  return checks.length > 0 ? `${base}${checks.map((c) => `\n${indent}  ${c}`).join("")}` : base;
+}
+
+/**
+ * True when the field has rules beyond its type (used to skip empty
+ * CONDITIONAL_RULES entries).
+ */
+function hasRuleChecks(field: Field): boolean {
+  return fieldSchema(field, "rules", "") !== fieldSchema(field, "base", "");
+}
+
+function hasNumber(field: Field): boolean {
+  return field.type === "number" || (field.type === "group" && field.fields.some((c) => c.type === "number"));
+}
+
+/* -------------------------------------------------------------------------- */
+/* Output values                                                              */
+/* -------------------------------------------------------------------------- */
+
+function outputType(field: Field, indent: string): string {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date":
+      return "string";
+    case "number":
+      return "number | undefined";
+    case "select": {
+      const values = Array.from(new Set(["", ...(field.rules?.options ?? []).map((o) => o.value)]));
+      return values.map((v) => JSON.stringify(v)).join(" | ");
+    }
+    case "checkbox":
+      return "boolean";
+    case "group": {
+      const children = field.fields
+        .map((child) => `${indent}  ${propertyKey(child.name)}: ${outputType(child, `${indent}  `)};`)
+        .join("\n");
+      return `Array<{\n${children}\n${indent}}>`;
+    }
+    default:
+      return assertNever(field);
+  }
+}
+
+function outputValue(field: ChildField | Field, value: string): string {
+  if (field.type === "number") return `${value} === "" ? undefined : Number(${value})`;
+
+  if (field.type === "group" && field.fields.some((c) => c.type === "number")) {
+    const children = field.fields.map((child) => `${propertyKey(child.name)}: ${outputValue(child, access("item", child.name))}`);
+    return `${value}.map((item) => ({ ${children.join(", ")} }))`;
+  }
+
+  return value;
+}
+
+/**
+ * One property of the transform's result. Conditionally visible fields are
+ * only included while visible, like the Preview's submitted payload.
+ */
+function outputEntry(field: Field, conditions: ResolvedConditions): string {
+  const entry = `${propertyKey(field.name)}: ${outputValue(field, access("values", field.name))}`;
+  if (!conditions.visible.has(field.name)) return entry;
+  return `...(isVisible(${JSON.stringify(field.name)}, values) ? { ${entry} } : {})`;
+}
+
+/**
+ * Raw input defaults (mirrors the Preview): checkbox -> false,
+ * group -> minimum item count of blank items, other -> "".
+ */
+function buildDefaultValues(fields: Field[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    if (field.type === "group") {
+      const count = Math.max(field.rules?.minItems ?? 0, field.required ? 1 : 0);
+      values[field.name] = Array.from({ length: count }, () => buildDefaultValues(field.fields));
+      continue;
+    }
+    values[field.name] = field.type === "checkbox" ? false : "";
+  }
+
+  return values;
+}
+
+/* -------------------------------------------------------------------------- */
+/* JSX                                                                        */
+/* -------------------------------------------------------------------------- */
+
+function renderField(field: Field, conditions: ResolvedConditions, indent: string): string {
+  const name = JSON.stringify(field.name);
+
+  const required = field.required
+    ? "<span style={REQUIRED_STYLE}> *</span>"
+    : conditions.required.has(field.name)
+      ? `{isRequired(${name}, values) ? <span style={REQUIRED_STYLE}> *</span> : null}`
+      : "";
+
+  const markup =
+    field.type === "group"
+      ? renderGroup(field, required)
+      : renderControl(field, {
+          id: attr(field.name),
+          register: `register(${name})`,
+          error: `${access("errors", field.name)}?.message`,
+          required,
+        });
+
+  if (!conditions.visible.has(field.name)) {
+    return `${indent}{/* ${field.name} */}\n${reindent(markup, indent)}`;
+  }
+
+  return `${indent}{/* ${field.name}: shown while its condition holds */}
+${indent}{isVisible(${name}, values) ? (
+${reindent(markup, `${indent}  `)}
+${indent}) : null}`;
+}
+
+function renderGroup(field: GroupField, required: string): string {
+  const list = arrayVar(field);
+  const rules = field.rules ?? {};
+  const minItems = rules.minItems ?? 0;
+  const blank = literal(buildDefaultValues(field.fields));
+  const errors = access("errors", field.name);
+
+  const children = field.fields
+    .map((child) => {
+      const path = `\`${field.name}.\${index}.${child.name}\``;
+      return reindent(
+        renderControl(child, {
+          id: `{\`${field.name}-\${index}-${child.name}\`}`,
+          register: `register(${path})`,
+          error: `${errors}?.[index]${accessSuffix(child.name, "?.")}?.message`,
+          required: child.required ? "<span style={REQUIRED_STYLE}> *</span>" : "",
+        }),
+        "      "
+      );
+    })
+    .join("\n\n");
+
+  const removeDisabled = minItems > 0 ? ` disabled={${list}.fields.length <= ${minItems}}` : "";
+  const addDisabled = rules.maxItems != null ? ` disabled={${list}.fields.length >= ${rules.maxItems}}` : "";
+
+  return `<fieldset style={{ display: "grid", gap: 8, border: 0, margin: 0, padding: 0 }}>
+  <legend style={LABEL_STYLE}>
+    ${jsxText(field.label)}
+    ${required}
+  </legend>${field.helperText ? `\n  <div style={HELPER_STYLE}>${jsxText(field.helperText)}</div>` : ""}
+
+  {${list}.fields.map((item, index) => (
+    <div key={item.id} style={{ display: "grid", gap: 8, padding: 10, border: "1px solid #eee", borderRadius: 10 }}>
+${children}
+
+      <button type="button" onClick={() => ${list}.remove(index)}${removeDisabled}>
+        Remove
+      </button>
+    </div>
+  ))}
+
+  <button type="button" onClick={() => ${list}.append(${blank})}${addDisabled}>
+    Add ${jsxText(field.label.toLowerCase() || "item")}
+  </button>
+
+  <ErrorText message={${errors}?.message ?? ${errors}?.root?.message} />
+</fieldset>`;
+}
+
+/**
+ * Label + control + helper text + error for a single (non-group) field.
+ */
+function renderControl(
+  field: ChildField,
+  props: { id: string; register: string; error: string; required: string }
+): string {
+  const { id, register, error, required } = props;
+  const placeholder = field.placeholder ? ` placeholder=${attr(field.placeholder)}` : "";
+  const helper = field.helperText ? `\n  <div style={HELPER_STYLE}>${jsxText(field.helperText)}</div>` : "";
+
+  const label = `<label htmlFor=${id} style={LABEL_STYLE}>
+    ${jsxText(field.label)}${required ? `\n    ${required}` : ""}
+  </label>${helper}`;
+
+  let control: string;
+  switch (field.type) {
+    case "checkbox":
+      return `<div style={FIELD_STYLE}>
+  <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
+    <input id=${id} type="checkbox" {...${register}} />
+    <span style={LABEL_STYLE}>
+      ${jsxText(field.label)}${required ? `\n      ${required}` : ""}
+    </span>
+  </label>${helper}
+  <ErrorText message={${error}} />
+</div>`;
+
+    case "textarea":
+      control = `<textarea id=${id} rows={4}${placeholder} style={INPUT_STYLE} {...${register}} />`;
+      break;
+
+    case "select": {
+      const options = (field.rules?.options ?? [])
+        .map((opt) => `\n    <option value=${attr(opt.value)}>${jsxText(opt.label)}</option>`)
+        .join("");
+      const prompt = field.placeholder?.trim() ? field.placeholder : "Select an option";
+      control = `<select id=${id} style={INPUT_STYLE} {...${register}}>
+    <option value="">${jsxText(prompt)}</option>${options}
+  </select>`;
+      break;
+    }
+
+    case "number": {
+      const step = field.rules?.integer ? "{1}" : '"any"';
+      control = `<input id=${id} type="number" step=${step}${placeholder} style={INPUT_STYLE} {...${register}} />`;
+      break;
+    }
+
+    case "text":
+    case "email":
+    case "date":
+      control = `<input id=${id} type="${field.type}"${placeholder} style={INPUT_STYLE} {...${register}} />`;
+      break;
+
+    default:
+      return assertNever(field);
+  }
+
+  return `<div style={FIELD_STYLE}>
+  ${label}
+  ${control}
+  <ErrorText message={${error}} />
+</div>`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Helpers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Single-line object literal with bare keys where possible:
+ * `{ field: "method", operator: "equals" }`.
+ */
+function literal(value: Record<string, unknown>): string {
+  const entries = Object.entries(value).map(([key, v]) => `${propertyKey(key)}: ${JSON.stringify(v)}`);
+  return entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+}
+
+function msg(message: string): string {
+  return JSON.stringify(message);
+}
+
+/**
+ * Property access on a generated expression: `values.email` or `values["first-name"]`.
+ * `optional` inserts optional chaining (`errors?.email`).
+ */
+function access(object: string, name: string, optional = ""): string {
+  return `${object}${accessSuffix(name, optional)}`;
+}
+
+function accessSuffix(name: string, optional = ""): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `${optional || "."}${name}` : `${optional}[${JSON.stringify(name)}]`;
+}
+
+/**
+ * Variable holding a group's useFieldArray result.
+ */
+function arrayVar(field: GroupField): string {
+  const base = field.name.replace(/[^\w$]/g, "_");
+  return `${/^\d/.test(base) ? `_${base}` : base}Array`;
+}
+
+/**
+ * JSX attribute value: a plain string literal when safe, an expression otherwise.
+ */
+function attr(value: string): string {
+  return /^[^"&\\{}<>]*$/.test(value) ? `"${value}"` : `{${JSON.stringify(value)}}`;
+}
+
+/**
+ * Escapes text placed between JSX tags.
+ */
+function jsxText(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\{/g, "&#123;")
+    .replace(/\}/g, "&#125;");
+}
+
+function reindent(markup: string, indent: string): string {
+  return markup
+    .split("\n")
+    .map((line) => (line ? `${indent}${line}` : line))
+    .join("\n");
+}
@@ -1,5 +1,25 @@
 // lib/exporters/react-ts.ts
-import type { FormDefinition } from "@/lib/form-types";
+import type { ChildField, Field, FormDefinition, MessageRule } from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { isMultiStep, resolveFormSteps } from "@/lib/steps";
+import type { ResolvedConditions } from "@/lib/exporters/condition-runtime";
+import { buildConditionRuntime, resolveConditions } from "@/lib/exporters/condition-runtime";
+import { propertyKey } from "@/lib/exporters/zod";
+import { customRuleMessage } from "@/lib/validation-messages";
+import type { TailwindClassMap, TailwindRole } from "@/lib/exporters/tailwind";
+import { resolveTailwindClasses } from "@/lib/exporters/tailwind";
+
+/**
+ * ReactTsExportOptions
+ *
+ * - `styling`: "inline" (default) styles elements with `style` objects;
+ *   "tailwind" uses `className` utilities from the class map instead
+ * - `tailwindClasses`: per-role overrides of DEFAULT_TAILWIND_CLASSES
+ */
+export type ReactTsExportOptions = {
+  styling?: "inline" | "tailwind";
+  tailwindClasses?: Partial<TailwindClassMap>;
+};
 
 /**
  * generateReactTsComponent
@@ -11,31 +31,325 @@ import type { FormDefinition } from "@/lib/form-types";
  * - Controlled inputs with local state
  * - Required attribute support
  * - Type-aware inputs (text/textarea/email/number/date/select/checkbox)
+ * - Repeatable groups with add/remove controls bounded by minItems/maxItems
  * - Basic rule support (min/max, minLength/maxLength, pattern, enum)
+ * - Multi-step forms export as a wizard (Next validates the current step natively)
+ * - Custom messages replace the browser's text for the constraint that failed
+ *   (setCustomValidity, cleared on input)
+ * - visibleWhen / requiredWhen are evaluated live: hidden fields are neither
+ *   rendered nor submitted, and requiredWhen marks the field required while it holds
+ * - Typed `Values` per form, keyed by field.name: number -> number | undefined,
+ *   checkbox -> boolean, select -> union of option values; inputs are coerced
+ *   before onSubmit
  * - No backend integration (consumer wires onSubmit / API route)
+ * - Styling: inline `style` objects, or Tailwind classes (see ReactTsExportOptions)
  */
-export function generateReactTsComponent(form: FormDefinition): string {
+export function generateReactTsComponent(form: FormDefinition, options: ReactTsExportOptions = {}): string {
   // Ensure the generated component name is always a valid identifier.
   const componentName = makeSafeComponentName(form.id || form.title || "GeneratedForm");
 
-  const fieldsLiteral = JSON.stringify(form.fields, null, 2);
+  const fieldsLiteral = JSON.stringify(form.fields.map(exportedField), null, 2);
+  const conditions = resolveConditions(form.fields);
+  const conditionRuntime =
+    conditions.visible.size > 0 || conditions.required.size > 0 ? buildConditionRuntime(conditions, "ts") : "";
+
+  // Tailwind mode swaps every inline style for the role's classes.
+  const classes = options.styling === "tailwind" ? resolveTailwindClasses(options.tailwindClasses) : null;
+  const styled = (role: TailwindRole, inline: string) => styleAttr(role, inline, classes);
 
   // Build a stable initial values object based on field types.
-  // (We store values as string/boolean to keep the export lightweight.)
-  const initLines = form.fields
-    .map((f) => {
-      const key = JSON.stringify(f.name);
-      if (f.type === "checkbox") return `  ${key}: false,`;
-      return `  ${key}: "",`;
-    })
-    .join("\n");
+  // (Input state is stored as string/boolean to keep the export lightweight;
+  // groups hold an array of item objects. toValues() types it on submit.)
+  const defaultsLiteral = JSON.stringify(buildDefaultValues(form.fields), null, 2);
+  const hasGroups = form.fields.some((f) => f.type === "group");
+  const hasNumbers = form.fields.some(
+    (f) => f.type === "number" || (f.type === "group" && f.fields.some((c) => c.type === "number"))
+  );
+  const hasMessages = form.fields.some(
+    (f) => hasCustomMessages(f) || (f.type === "group" && f.fields.some(hasCustomMessages))
+  );
+
+  const inputValuesType = hasGroups
+    ? `type ItemValues = Record<string, FieldValue>;
+
+type InputValues = Record<string, FieldValue | ItemValues[]>;
+`
+    : `type InputValues = Record<string, FieldValue>;
+`;
+
+  const valuesType = `
+/**
+ * Submitted values, keyed by field name.
+ */
+export type Values = {
+${form.fields
+  .map((field) => {
+    const optional = conditions.visible.has(field.name) ? "?" : "";
+    return `  ${propertyKey(field.name)}${optional}: ${valueType(field, "  ")};`;
+  })
+  .join("\n")}
+};
+`;
+
+  const toNumberHelper = hasNumbers
+    ? `
+/** Number inputs hold strings; blank or invalid input becomes undefined. */
+function toNumber(value: FieldValue | undefined): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  const n = Number(value);
+  return Number.isNaN(n) ? undefined : n;
+}
+`
+    : "";
+
+  const toValues = `${toNumberHelper}
+/**
+ * Converts the input state into typed Values before onSubmit (hidden fields left out).
+ */
+function toValues(input: InputValues): Values {
+  return {
+${form.fields.map((field) => `    ${valueEntry(field, conditions)},`).join("\n")}
+  };
+}
+`;
+
+  const messageHelper = hasMessages
+    ? `
+type ValidatedElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/** The field's custom message for the constraint that failed, if it has one. */
+function customMessage(field: Field, validity: ValidityState): string | undefined {
+  const messages = field.messages ?? {};
+  if (validity.valueMissing) return messages.required;
+  if (validity.badInput) return field.type === "date" ? messages.date : messages.number;
+  if (validity.typeMismatch) return messages.email;
+  if (validity.tooShort) return messages.minLength;
+  if (validity.tooLong) return messages.maxLength;
+  if (validity.patternMismatch) return messages.pattern;
+  if (validity.rangeUnderflow) return messages.min;
+  if (validity.rangeOverflow) return messages.max;
+  if (validity.stepMismatch) return messages.integer;
+  return undefined;
+}
+`
+    : "";
+
+  const messageHandlers = hasMessages
+    ? `
+  // Custom messages replace the browser's; cleared on input so the control re-validates.
+  const showMessage = (e: React.FormEvent<ValidatedElement>) => {
+    const message = customMessage(field, e.currentTarget.validity);
+    if (message) e.currentTarget.setCustomValidity(message);
+  };
+  const clearMessage = (e: React.FormEvent<ValidatedElement>) => e.currentTarget.setCustomValidity("");
+`
+    : "";
+  const messageProps = (spaces: number) =>
+    hasMessages ? `\n${" ".repeat(spaces)}onInvalid={showMessage}\n${" ".repeat(spaces)}onInput={clearMessage}` : "";
+
+  const groupHelpers = hasGroups
+    ? `
+/** Creates a blank item for a repeatable group. */
+function emptyItem(field: Field): ItemValues {
+  const item: ItemValues = {};
+  for (const child of field.fields ?? []) item[child.name] = child.type === "checkbox" ? false : "";
+  return item;
+}
+`
+    : "";
+
+  const groupState = hasGroups
+    ? `
+  // Repeatable groups: values[group] is an array of item objects.
+  const setItemValue = (group: string, index: number, name: string, next: FieldValue) => {
+    setValues((prev) => {
+      const items = [...((prev[group] as ItemValues[]) ?? [])];
+      items[index] = { ...items[index], [name]: next };
+      return { ...prev, [group]: items };
+    });
+  };
+
+  const addItem = (field: Field) => {
+    setValues((prev) => ({
+      ...prev,
+      [field.name]: [...((prev[field.name] as ItemValues[]) ?? []), emptyItem(field)],
+    }));
+  };
+
+  const removeItem = (group: string, index: number) => {
+    setValues((prev) => ({
+      ...prev,
+      [group]: ((prev[group] as ItemValues[]) ?? []).filter((_, i) => i !== index),
+    }));
+  };
+`
+    : "";
+
+  const groupBranch = hasGroups
+    ? `
+          if (field.type === "group") {
+            const rules = field.rules ?? {};
+            const items = (values[field.name] as ItemValues[]) ?? [];
+            const canAdd = typeof rules.maxItems !== "number" || items.length < rules.maxItems;
+            const canRemove = items.length > (typeof rules.minItems === "number" ? rules.minItems : 0);
+
+            return (
+              <fieldset key={field.id} ${styled("group", '{ display: "grid", gap: 8, border: 0, margin: 0, padding: 0 }')}>
+                <legend ${styled("label", "{ fontSize: 14, fontWeight: 600 }")}>
+                  {field.label}
+                  {required ? <span ${styled("required", '{ color: "#b00020" }')}> *</span> : null}
+                </legend>
+
+                {items.map((item, index) => (
+                  <div
+                    key={index}
+                    ${styled("groupItem", '{ display: "grid", gap: 8, padding: 10, border: "1px solid #eee", borderRadius: 10 }')}
+                  >
+                    {(field.fields ?? []).map((child) => {
+                      const childId = \`\${field.name}-\${index}-\${child.name}\`;
+                      return (
+                        <div key={child.id} ${styled("field", '{ display: "grid", gap: 6 }')}>
+                          <label htmlFor={childId} ${styled("label", "{ fontSize: 14, fontWeight: 600 }")}>
+                            {child.label}
+                          </label>
+                          <FieldControl
+                            field={child}
+                            id={childId}
+                            value={item[child.name] ?? ""}
+                            required={!!child.required}
+                            onChange={(next) => setItemValue(field.name, index, child.name, next)}
+                          />
+                        </div>
+                      );
+                    })}
+                    <button type="button" onClick={() => removeItem(field.name, index)} disabled={!canRemove}${classAttr("buttonSecondary", classes)}>
+                      Remove
+                    </button>
+                  </div>
+                ))}
+
+                <button type="button" onClick={() => addItem(field)} disabled={!canAdd}${classAttr("buttonSecondary", classes)}>
+                  Add {field.label}
+                </button>
+              </fieldset>
+            );
+          }
+`
+    : "";
 
   const title = escapeTemplateString(form.title);
   const description = form.description ? escapeTemplateString(form.description) : "";
 
-  return `import { useState } from "react";
+  const wizard = isMultiStep(form);
+  const stepsLiteral = JSON.stringify(
+    resolveFormSteps(form).map((step) => ({
+      title: step.title,
+      fieldNames: step.fields.map((f) => f.name),
+    })),
+    null,
+    2
+  );
+
+  const stepsConst = wizard
+    ? `
+type Step = { title: string; fieldNames: string[] };
+
+const STEPS: Step[] = ${stepsLiteral};
+`
+    : "";
+
+  const wizardState = wizard
+    ? `
+  // Wizard state: only the current step's fields are rendered.
+  const formRef = useRef<HTMLFormElement>(null);
+  const [stepIndex, setStepIndex] = useState(0);
+  const isLastStep = stepIndex === STEPS.length - 1;
+  const stepFields = FIELDS.filter((f) => STEPS[stepIndex].fieldNames.includes(f.name));
+
+  // Advance only when every rendered control passes native constraint validation.
+  const goNext = () => {
+    const controls = Array.from(
+      formRef.current?.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>(
+        "input, select, textarea"
+      ) ?? []
+    );
+    const invalid = controls.find((control) => !control.checkValidity());
+    if (invalid) {
+      invalid.reportValidity();
+      return;
+    }
+    setStepIndex((i) => Math.min(i + 1, STEPS.length - 1));
+  };
+
+  const goBack = () => setStepIndex((i) => Math.max(i - 1, 0));
+`
+    : "";
+
+  const submitGuard = wizard
+    ? `
+    // Enter on an intermediate step behaves like "Next".
+    if (!isLastStep) {
+      goNext();
+      return;
+    }
+`
+    : "";
+
+  const stepHeader = wizard
+    ? `
+        <div ${styled("stepHeader", '{ display: "flex", justifyContent: "space-between", alignItems: "baseline" }')}>
+          <div ${styled("stepTitle", "{ fontSize: 16, fontWeight: 600 }")}>{STEPS[stepIndex].title}</div>
+          <div ${styled("progress", '{ color: "#666", fontSize: 12 }')}>
+            Step {stepIndex + 1} of {STEPS.length}
+          </div>
+        </div>
+`
+    : "";
+
+  const primaryButton = styled(
+    "button",
+    `{
+            padding: "10px 14px",
+            borderRadius: 12,
+            border: "1px solid #111",
+            background: "#111",
+            color: "#fff",
+            fontWeight: 600,
+          }`
+  );
+
+  const actions = wizard
+    ? `<div ${styled("nav", '{ display: "flex", gap: 8 }')}>
+          {stepIndex > 0 ? (
+            <button
+              type="button"
+              onClick={goBack}
+              ${styled("buttonSecondary", '{ padding: "10px 14px", borderRadius: 12, border: "1px solid #ddd", background: "#fff" }')}
+            >
+              Back
+            </button>
+          ) : null}
+
+          {isLastStep ? (
+            <button type="submit" ${primaryButton}>
+              {submitLabel}
+            </button>
+          ) : (
+            <button type="button" onClick={goNext} ${primaryButton}>
+              Next
+            </button>
+          )}
+        </div>`
+    : `<button
+          type="submit"
+          ${primaryButton}
+        >
+          {submitLabel}
+        </button>`;
+
+  return `import { ${wizard ? "useRef, useState" : "useState"} } from "react";
 
-type FieldType = "text" | "textarea" | "email" | "number" | "date" | "select" | "checkbox";
+type FieldType = "text" | "textarea" | "email" | "number" | "date" | "select" | "checkbox" | "group";
 
 type FieldRules = Partial<{
   minLength: number;
@@ -45,6 +359,8 @@ type FieldRules = Partial<{
   max: number;
   integer: boolean;
   options: Array<{ label: string; value: string }>;
+  minItems: number;
+  maxItems: number;
 }>;
 
 type Field = {
@@ -54,14 +370,16 @@ type Field = {
   type: FieldType;
   required?: boolean;
   placeholder?: string;
-  rules?: FieldRules;
+  rules?: FieldRules;${hasMessages ? "\n  messages?: Partial<Record<string, string>>;" : ""}
+  fields?: Field[];
 };
 
-export type Values = Record<string, string | boolean>;
+type FieldValue = string | boolean;
 
+${inputValuesType}${valuesType}
 export type ${componentName}Props = {
   /**
-   * Called with the current form values when the user submits the form.
+   * Called with the typed form values when the user submits the form.
    * Recommended: validate server-side using the exported JSON Schema.
    */
   onSubmit?: (values: Values) => void;
@@ -74,156 +392,172 @@ export type ${componentName}Props = {
 };
 
 const FIELDS: Field[] = ${fieldsLiteral};
-
-const DEFAULT_VALUES: Values = {
-${initLines}
-};
-
+${stepsConst}
+const DEFAULT_VALUES: InputValues = ${defaultsLiteral};
+${toValues}
 // Precompute required field names as a module constant.
 // (Stable and avoids hook dependency linting.)
 const REQUIRED_NAMES = new Set(FIELDS.filter((f) => !!f.required).map((f) => f.name));
+${conditionRuntime}
+${
+  classes
+    ? `const INPUT_CLASS = ${JSON.stringify(classes.input)};
+const TEXTAREA_CLASS = ${JSON.stringify(classes.textarea)};`
+    : `const INPUT_STYLE = { padding: 10, border: "1px solid #ddd", borderRadius: 10 };`
+}
+${messageHelper}${groupHelpers}
+/**
+ * FieldControl
+ *
+ * Renders the input element for a single (non-group) field.
+ * Shared by top-level fields${hasGroups ? " and group items" : ""}.
+ */
+function FieldControl(props: {
+  field: Field;
+  id: string;
+  value: FieldValue;
+  required: boolean;
+  onChange: (next: FieldValue) => void;
+}) {
+  const { field, id, value, required, onChange } = props;
+  const rules = field.rules ?? {};
+${messageHandlers}
+  if (field.type === "checkbox") {
+    return (
+      <label ${styled("choice", '{ display: "flex", alignItems: "center", gap: 8 }')}>
+        <input
+          id={id}
+          name={id}
+          type="checkbox"${classes ? `\n          className=${jsxString(classes.checkbox)}` : ""}
+          checked={Boolean(value)}
+          required={required}${messageProps(10)}
+          onChange={(e) => onChange(e.target.checked)}
+        />
+        <span${classes ? "" : " style={{ fontSize: 14 }}"}>
+          {field.placeholder?.trim() ? field.placeholder : "Yes"}
+        </span>
+      </label>
+    );
+  }
+
+  if (field.type === "textarea") {
+    return (
+      <textarea
+        id={id}
+        name={id}
+        value={String(value ?? "")}
+        placeholder={field.placeholder ?? ""}
+        required={required}
+        minLength={typeof rules.minLength === "number" ? rules.minLength : undefined}
+        maxLength={typeof rules.maxLength === "number" ? rules.maxLength : undefined}
+        ${classes ? "className={TEXTAREA_CLASS}" : "style={INPUT_STYLE}"}
+        rows={4}${messageProps(8)}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  }
+
+  if (field.type === "select") {
+    const opts = Array.isArray(rules.options) ? rules.options : [];
+    return (
+      <select
+        id={id}
+        name={id}
+        value={String(value ?? "")}
+        required={required}
+        ${classes ? "className={INPUT_CLASS}" : "style={INPUT_STYLE}"}${messageProps(8)}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        <option value="" disabled>
+          {field.placeholder?.trim() ? field.placeholder : "Select an option"}
+        </option>
+        {opts.map((opt) => (
+          <option key={opt.value} value={opt.value}>
+            {opt.label}
+          </option>
+        ))}
+      </select>
+    );
+  }
+
+  // Default: input field (text/email/number/date)
+  const inputType =
+    field.type === "text" ? "text" : field.type === "email" ? "email" : field.type;
+
+  return (
+    <input
+      id={id}
+      name={id}
+      type={inputType}
+      value={String(value ?? "")}
+      placeholder={field.placeholder ?? ""}
+      required={required}
+      minLength={typeof rules.minLength === "number" ? rules.minLength : undefined}
+      maxLength={typeof rules.maxLength === "number" ? rules.maxLength : undefined}
+      pattern={typeof rules.pattern === "string" ? rules.pattern : undefined}
+      min={typeof rules.min === "number" ? rules.min : undefined}
+      max={typeof rules.max === "number" ? rules.max : undefined}
+      step={field.type === "number" ? (rules.integer ? 1 : "any") : undefined}
+      ${classes ? "className={INPUT_CLASS}" : "style={INPUT_STYLE}"}${messageProps(6)}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
 
 export default function ${componentName}(props: ${componentName}Props) {
   const { onSubmit, submitLabel = "Submit", className } = props;
 
   // Local controlled state keeps the export simple and framework-agnostic.
-  const [values, setValues] = useState<Values>({ ...DEFAULT_VALUES });
+  const [values, setValues] = useState<InputValues>({ ...DEFAULT_VALUES });
 
-  const setValue = (name: string, next: string | boolean) => {
+  const setValue = (name: string, next: FieldValue) => {
     setValues((prev) => ({ ...prev, [name]: next }));
   };
-
+${groupState}${wizardState}
   const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onSubmit?.(values);
+    e.preventDefault();${submitGuard}
+    onSubmit?.(toValues(values));
   };
 
   return (
-    <form onSubmit={handleSubmit} className={className} noValidate>
-      <div style={{ display: "grid", gap: 12 }}>
-        <div style={{ display: "grid", gap: 4 }}>
-          <div style={{ fontSize: 18, fontWeight: 600 }}>${title}</div>
-          ${description ? `<div style={{ color: "#666", fontSize: 14 }}>${description}</div>` : ""}
+    <form${wizard ? " ref={formRef}" : ""} onSubmit={handleSubmit} className={className} noValidate>
+      <div ${styled("form", '{ display: "grid", gap: 12 }')}>
+        <div ${styled("header", '{ display: "grid", gap: 4 }')}>
+          <div ${styled("title", "{ fontSize: 18, fontWeight: 600 }")}>${title}</div>
+          ${description ? `<div ${styled("description", '{ color: "#666", fontSize: 14 }')}>${description}</div>` : ""}
         </div>
+${stepHeader}
+        {${wizard ? "stepFields" : "FIELDS"}.map((field) => {
+${
+  conditions.visible.size > 0
+    ? `          if (!isVisible(field.name, values)) return null;
 
-        {FIELDS.map((field) => {
-          const rules = field.rules ?? {};
-          const isRequired = REQUIRED_NAMES.has(field.name);
+`
+    : ""
+}          const required = REQUIRED_NAMES.has(field.name)${conditions.required.size > 0 ? " || isRequired(field.name, values)" : ""};
 
           const label = (
-            <label htmlFor={field.name} style={{ fontSize: 14, fontWeight: 600 }}>
+            <label htmlFor={field.name} ${styled("label", "{ fontSize: 14, fontWeight: 600 }")}>
               {field.label}
-              {isRequired ? <span style={{ color: "#b00020" }}> *</span> : null}
+              {required ? <span ${styled("required", '{ color: "#b00020" }')}> *</span> : null}
             </label>
           );
-
-          if (field.type === "checkbox") {
-            return (
-              <div key={field.id} style={{ display: "grid", gap: 6 }}>
-                {label}
-                <label style={{ display: "flex", alignItems: "center", gap: 8 }}>
-                  <input
-                    id={field.name}
-                    name={field.name}
-                    type="checkbox"
-                    checked={Boolean(values[field.name])}
-                    required={isRequired}
-                    onChange={(e) => setValue(field.name, e.target.checked)}
-                  />
-                  <span style={{ fontSize: 14 }}>
-                    {field.placeholder?.trim() ? field.placeholder : "Yes"}
-                  </span>
-                </label>
-              </div>
-            );
-          }
-
-          if (field.type === "textarea") {
-            return (
-              <div key={field.id} style={{ display: "grid", gap: 6 }}>
-                {label}
-                <textarea
-                  id={field.name}
-                  name={field.name}
-                  value={String(values[field.name] ?? "")}
-                  placeholder={field.placeholder ?? ""}
-                  required={isRequired}
-                  minLength={typeof rules.minLength === "number" ? rules.minLength : undefined}
-                  maxLength={typeof rules.maxLength === "number" ? rules.maxLength : undefined}
-                  style={{ padding: 10, border: "1px solid #ddd", borderRadius: 10 }}
-                  rows={4}
-                  onChange={(e) => setValue(field.name, e.target.value)}
-                />
-              </div>
-            );
-          }
-
-          if (field.type === "select") {
-            const opts = Array.isArray(rules.options) ? rules.options : [];
-            return (
-              <div key={field.id} style={{ display: "grid", gap: 6 }}>
-                {label}
-                <select
-                  id={field.name}
-                  name={field.name}
-                  value={String(values[field.name] ?? "")}
-                  required={isRequired}
-                  style={{ padding: 10, border: "1px solid #ddd", borderRadius: 10 }}
-                  onChange={(e) => setValue(field.name, e.target.value)}
-                >
-                  <option value="" disabled>
-                    {field.placeholder?.trim() ? field.placeholder : "Select an option"}
-                  </option>
-                  {opts.map((opt) => (
-                    <option key={opt.value} value={opt.value}>
-                      {opt.label}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            );
-          }
-
-          // Default: input field (text/email/number/date)
-          const inputType =
-            field.type === "text" ? "text" : field.type === "email" ? "email" : field.type;
-
+${groupBranch}
           return (
-            <div key={field.id} style={{ display: "grid", gap: 6 }}>
+            <div key={field.id} ${styled("field", '{ display: "grid", gap: 6 }')}>
               {label}
-              <input
+              <FieldControl
+                field={field}
                 id={field.name}
-                name={field.name}
-                type={inputType}
-                value={String(values[field.name] ?? "")}
-                placeholder={field.placeholder ?? ""}
-                required={isRequired}
-                minLength={typeof rules.minLength === "number" ? rules.minLength : undefined}
-                maxLength={typeof rules.maxLength === "number" ? rules.maxLength : undefined}
-                pattern={typeof rules.pattern === "string" ? rules.pattern : undefined}
-                min={typeof rules.min === "number" ? rules.min : undefined}
-                max={typeof rules.max === "number" ? rules.max : undefined}
-                step={field.type === "number" ? (rules.integer ? 1 : "any") : undefined}
-                style={{ padding: 10, border: "1px solid #ddd", borderRadius: 10 }}
-                onChange={(e) => setValue(field.name, e.target.value)}
+                value={values[field.name] as FieldValue}
+                required={required}
+                onChange={(next) => setValue(field.name, next)}
               />
             </div>
           );
         })}
 
-        <button
-          type="submit"
-          style={{
-            padding: "10px 14px",
-            borderRadius: 12,
-            border: "1px solid #111",
-            background: "#111",
-            color: "#fff",
-            fontWeight: 600,
-          }}
-        >
-          {submitLabel}
-        </button>
+        ${actions}
       </div>
     </form>
   );
@@ -231,13 +565,183 @@ export default function ${componentName}(props: ${componentName}Props) {
 `;
 }
 
+/**
+ * JSX styling attribute for an element role: `style={...}` from the inline
+ * object literal, or `className` from the Tailwind class map.
+ */
+function styleAttr(role: TailwindRole, inline: string, classes: TailwindClassMap | null): string {
+  return classes ? `className=${jsxString(classes[role])}` : `style={${inline}}`;
+}
+
+/**
+ * ` className="..."` (leading space) for elements that have no inline style,
+ * so they stay unstyled in "inline" mode.
+ */
+function classAttr(role: TailwindRole, classes: TailwindClassMap | null): string {
+  return classes ? ` className=${jsxString(classes[role])}` : "";
+}
+
+/**
+ * JSX string attribute value; falls back to an expression when the value
+ * contains a double quote (JSX attribute strings have no escapes).
+ */
+function jsxString(value: string): string {
+  return value.includes('"') ? `{${JSON.stringify(value)}}` : `"${value}"`;
+}
+
+/**
+ * TypeScript type of a field's submitted value.
+ *
+ * Exhaustive: a new FieldType fails to compile here until it has a value type.
+ */
+export function valueType(field: Field, indent: string): string {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date":
+      return "string";
+    case "number":
+      return "number | undefined";
+    case "select": {
+      // An unselected select submits undefined (like a blank number).
+      const options = Array.from(new Set((field.rules?.options ?? []).map((o) => JSON.stringify(o.value))));
+      return [...options, "undefined"].join(" | ");
+    }
+    case "checkbox":
+      return "boolean";
+    case "group": {
+      const children = field.fields
+        .map((child) => `${indent}  ${propertyKey(child.name)}: ${valueType(child, `${indent}  `)};`)
+        .join("\n");
+      return `Array<{\n${children}\n${indent}}>`;
+    }
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * Field properties left out of FIELDS, which must match the generated `Field`
+ * type: conditions are emitted as VISIBLE_WHEN / REQUIRED_WHEN instead,
+ * helper text is not used by this export, and custom messages are emitted
+ * with their placeholders filled (see exportedMessages).
+ */
+const NOT_EMITTED = ["visibleWhen", "requiredWhen", "helperText", "messages"] as const;
+
+function exportedField(field: Field | ChildField): Record<string, unknown> {
+  const emitted: Record<string, unknown> = { ...field };
+  for (const key of NOT_EMITTED) delete emitted[key];
+  if (hasCustomMessages(field)) emitted.messages = exportedMessages(field);
+  if (field.type === "group") emitted.fields = field.fields.map(exportedField);
+  return emitted;
+}
+
+/**
+ * A field's custom messages keyed by rule, placeholders filled (blank ones
+ * left out, so the browser's text applies).
+ */
+function exportedMessages(field: Field | ChildField): Record<string, string> {
+  const messages: Record<string, string> = {};
+  for (const rule of Object.keys(field.messages ?? {}) as MessageRule[]) {
+    const message = customRuleMessage(field, rule);
+    if (message) messages[rule] = message;
+  }
+  return messages;
+}
+
+function hasCustomMessages(field: Field | ChildField): boolean {
+  return Object.keys(exportedMessages(field)).length > 0;
+}
+
+/**
+ * One toValues() entry; fields with visibleWhen only while visible.
+ */
+function valueEntry(field: Field, conditions: ResolvedConditions): string {
+  const entry = `${propertyKey(field.name)}: ${valueConversion(field, `input[${JSON.stringify(field.name)}]`)}`;
+  if (!conditions.visible.has(field.name)) return entry;
+  return `...(isVisible(${JSON.stringify(field.name)}, input) ? { ${entry} } : {})`;
+}
+
+/**
+ * Expression converting one raw input value (`source`) to its typed value.
+ */
+function valueConversion(field: Field, source: string): string {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date":
+      return `String(${source} ?? "")`;
+    case "number":
+      return `toNumber(${source} as FieldValue)`;
+    case "select":
+      return `(${source} || undefined) as Values[${JSON.stringify(field.name)}]`;
+    case "checkbox":
+      return `${source} === true`;
+    case "group": {
+      const children = field.fields.map(
+        (child) => `${propertyKey(child.name)}: ${childConversion(child, `item[${JSON.stringify(child.name)}]`, field.name)}`
+      );
+      return `((${source} as ItemValues[]) ?? []).map((item) => ({ ${children.join(", ")} }))`;
+    }
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * Like valueConversion, for a group child (select types come from the group's
+ * item type; NonNullable because a group with visibleWhen is optional).
+ */
+function childConversion(field: Field, source: string, group: string): string {
+  if (field.type !== "select") return valueConversion(field, source);
+  return `(${source} || undefined) as NonNullable<Values[${JSON.stringify(group)}]>[number][${JSON.stringify(field.name)}]`;
+}
+
+/**
+ * Initial values for the generated component (mirrors the Preview defaults):
+ * checkbox -> false, group -> minimum item count of blank items, other -> "".
+ *
+ * The switch is exhaustive: a new FieldType fails to compile here until the
+ * generated component handles it.
+ */
+export function buildDefaultValues(fields: Field[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    switch (field.type) {
+      case "group": {
+        const count = Math.max(field.rules?.minItems ?? 0, field.required ? 1 : 0);
+        values[field.name] = Array.from({ length: count }, () => buildDefaultValues(field.fields));
+        break;
+      }
+      case "checkbox":
+        values[field.name] = false;
+        break;
+      case "text":
+      case "textarea":
+      case "email":
+      case "number":
+      case "date":
+      case "select":
+        values[field.name] = "";
+        break;
+      default:
+        assertNever(field);
+    }
+  }
+
+  return values;
+}
+
 /**
  * Ensures the exported component name is always a valid TS identifier:
  * - PascalCase words
  * - If it starts with a digit, prefix with "Form"
  * - Fallback to "GeneratedForm"
  */
-function makeSafeComponentName(input: string): string {
+export function makeSafeComponentName(input: string): string {
   const base = toPascalCase(safeIdentifier(input));
   const fallback = base.length ? base : "GeneratedForm";
   return /^[A-Za-z_]/.test(fallback) ? fallback : `Form${fallback}`;
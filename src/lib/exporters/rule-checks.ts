@@ -0,0 +1,355 @@
+// lib/exporters/rule-checks.ts
+import type { ChildField, Field } from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { ruleMessage } from "@/lib/validation-messages";
+import { EMAIL_REGEX, isValidPattern } from "@/lib/validation";
+import type { ResolvedConditions } from "@/lib/exporters/condition-runtime";
+import { buildConditionRuntime, requiredExpression, resolveConditions } from "@/lib/exporters/condition-runtime";
+import { propertyKey } from "@/lib/exporters/zod";
+
+/**
+ * Client-side validation code for exporters that ship their own validator
+ * (Svelte, Web Component, HTML with the validation script).
+ *
+ * Design note:
+ * - Checks follow validateSubmission's order and messages (custom ones
+ *   included, via ruleMessage), so the first error per field matches the Preview
+ * - Email format is checked too, so the generated forms can opt out of native
+ *   validation entirely
+ * - Blank answers count as missing (as in validateSubmission), so only
+ *   `required` applies to them; lengths count code points
+ * - With conditions, hidden fields are skipped and requiredWhen applies while
+ *   it holds (see condition-runtime)
+ * - Generated code reads a plain value model: strings for text-like, date and
+ *   select fields, `number | null` for numbers (null while blank), booleans
+ *   for checkboxes, item arrays for groups
+ * - The emitted code is plain JavaScript; in TypeScript it is typed contextually
+ */
+
+// Regex literal source of the email pattern (the schema's email format), shared with
+// validateSubmission so generated forms accept the same addresses.
+const EMAIL_PATTERN = String(EMAIL_REGEX);
+
+/**
+ * RuleCheck
+ *
+ * `test` is an expression that is true when the value FAILS the rule.
+ */
+export type RuleCheck = {
+  test: string;
+  message: string;
+};
+
+/**
+ * ruleChecks
+ *
+ * Failing conditions for one field's value expression, in validateSubmission's order.
+ * Group children are not included (see buildValidators).
+ *
+ * `required` is the field's effective requiredness as an expression ("true",
+ * an `isRequired(...)` call, or null for never); static `required` by default.
+ */
+export function ruleChecks(
+  field: Field | ChildField,
+  value: string,
+  required: string | null = field.required ? "true" : null
+): RuleCheck[] {
+  const checks: RuleCheck[] = [];
+  const requiredCheck = (blank: string): RuleCheck => ({
+    test: required === "true" ? blank : `${required} && ${blank}`,
+    message: ruleMessage(field, "required"),
+  });
+
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email": {
+      const rules = field.rules ?? {};
+      if (required) checks.push(requiredCheck(`${value} === ""`));
+      if (field.type === "email") {
+        checks.push({
+          test: `${value} !== "" && !${EMAIL_PATTERN}.test(${value})`,
+          message: ruleMessage(field, "email"),
+        });
+      }
+      if (rules.minLength != null) {
+        checks.push({
+          test: `${value} !== "" && [...${value}].length < ${rules.minLength}`,
+          message: ruleMessage(field, "minLength"),
+        });
+      }
+      if (rules.maxLength != null) {
+        checks.push({
+          test: `${value} !== "" && [...${value}].length > ${rules.maxLength}`,
+          message: ruleMessage(field, "maxLength"),
+        });
+      }
+      if (rules.pattern && isValidPattern(rules.pattern)) {
+        checks.push({
+          test: `${value} !== "" && !new RegExp(${JSON.stringify(rules.pattern)}, "u").test(${value})`,
+          message: ruleMessage(field, "pattern"),
+        });
+      }
+      return checks;
+    }
+
+    case "number": {
+      const rules = field.rules ?? {};
+      if (required) checks.push(requiredCheck(`${value} === null`));
+      checks.push({
+        test: `${value} !== null && Number.isNaN(${value})`,
+        message: ruleMessage(field, "number"),
+      });
+      if (rules.integer) {
+        checks.push({
+          test: `${value} !== null && !Number.isInteger(${value})`,
+          message: ruleMessage(field, "integer"),
+        });
+      }
+      if (rules.min != null) {
+        checks.push({ test: `${value} !== null && ${value} < ${rules.min}`, message: ruleMessage(field, "min") });
+      }
+      if (rules.max != null) {
+        checks.push({ test: `${value} !== null && ${value} > ${rules.max}`, message: ruleMessage(field, "max") });
+      }
+      return checks;
+    }
+
+    case "date":
+    case "select":
+      if (required) checks.push(requiredCheck(`${value} === ""`));
+      return checks;
+
+    case "checkbox":
+      if (required) checks.push(requiredCheck(`${value} !== true`));
+      return checks;
+
+    case "group": {
+      const rules = field.rules ?? {};
+      if (required) checks.push(requiredCheck(`${value}.length === 0`));
+      if (rules.minItems != null) {
+        checks.push({
+          test: `${value}.length < ${rules.minItems}`,
+          message: ruleMessage(field, "minItems"),
+        });
+      }
+      if (rules.maxItems != null) {
+        checks.push({
+          test: `${value}.length > ${rules.maxItems}`,
+          message: ruleMessage(field, "maxItems"),
+        });
+      }
+      return checks;
+    }
+
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * reportsErrors
+ *
+ * True when some rule (including a requiredWhen) can fail, i.e. the field
+ * needs an error slot.
+ */
+export function reportsErrors(field: Field | ChildField): boolean {
+  return ruleChecks(field, "", field.required || field.requiredWhen ? "true" : null).length > 0;
+}
+
+/**
+ * `if (...) target = "..."; else if ...` — only the first failing rule reports.
+ */
+function renderChecks(checks: RuleCheck[], target: string, indent: string): string {
+  return checks
+    .map((check, i) => `${indent}${i === 0 ? "if" : "else if"} (${check.test}) ${target} = ${JSON.stringify(check.message)};`)
+    .join("\n");
+}
+
+/**
+ * Property access on a generated expression: `form.email` or `form["first-name"]`.
+ */
+export function memberAccess(object: string, name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? `${object}.${name}` : `${object}[${JSON.stringify(name)}]`;
+}
+
+/**
+ * Error key expression for a group item's child, evaluated where `index` is
+ * in scope: `items.0.qty`.
+ */
+export function itemErrorKey(group: string, child: string): string {
+  if (/^[\w-]+$/.test(group) && /^[\w-]+$/.test(child)) return `\`${group}.\${index}.${child}\``;
+  return `${JSON.stringify(`${group}.`)} + index + ${JSON.stringify(`.${child}`)}`;
+}
+
+/**
+ * buildValidators
+ *
+ * Object-literal entries (`fullName: (errors) => { ... },`) keyed by field
+ * name. Each validator writes messages into `errors`, keyed by field name or
+ * `group.index.child` for group items. Fields without rules are omitted.
+ *
+ * With `conditions`, validators call the emitted `isVisible` / `isRequired`
+ * (buildConditionRuntime) on `object`: hidden fields report nothing.
+ */
+export function buildValidators(
+  fields: Field[],
+  object: string,
+  indent: string,
+  conditions?: ResolvedConditions
+): string {
+  return fields
+    .map((field) => {
+      const value = memberAccess(object, field.name);
+      const lines: string[] = [];
+
+      const required = conditions ? requiredExpression(field, conditions, object) : field.required ? "true" : null;
+      const own = ruleChecks(field, value, required);
+      if (own.length > 0) lines.push(renderChecks(own, `errors[${JSON.stringify(field.name)}]`, `${indent}    `));
+
+      if (field.type === "group") {
+        const children = field.fields
+          .map((child) => {
+            const checks = ruleChecks(child, memberAccess("item", child.name));
+            const key = itemErrorKey(field.name, child.name);
+            return checks.length > 0 ? renderChecks(checks, `errors[${key}]`, `${indent}      `) : "";
+          })
+          .filter(Boolean);
+
+        if (children.length > 0) {
+          lines.push(`${indent}    ${value}.forEach((item, index) => {\n${children.join("\n")}\n${indent}    });`);
+        }
+      }
+
+      if (lines.length === 0) return null;
+      if (conditions?.visible.has(field.name)) {
+        lines.unshift(`${indent}    if (!isVisible(${JSON.stringify(field.name)}, ${object})) return;`);
+      }
+      return `${indent}  ${propertyKey(field.name)}: (errors) => {\n${lines.join("\n")}\n${indent}  },`;
+    })
+    .filter((entry): entry is string => entry !== null)
+    .join("\n");
+}
+
+/**
+ * buildValidateFunction
+ *
+ * A standalone `validate(values, names?)` for vanilla JS exports (Web
+ * Component, HTML validation script): runs the validators for `names` (all
+ * fields by default) against a `values` object and returns the errors. Hidden
+ * fields are skipped; the condition runtime comes with buildClientHelpers.
+ */
+export function buildValidateFunction(fields: Field[]): string {
+  return `/**
+ * Rule checks per field; each reports its first failing rule. Errors are keyed
+ * by field name, or "group.index.child" for group items.
+ */
+function validate(values, names) {
+  const errors = {};
+  const validators = {
+${buildValidators(fields, "values", "  ", resolveConditions(fields))}
+  };
+
+  for (const name of names ?? Object.keys(validators)) validators[name]?.(errors);
+  return errors;
+}`;
+}
+
+/**
+ * FieldDescriptor
+ *
+ * Name/type outline of the form (emitted as `FIELDS`), which the vanilla JS
+ * helpers walk to read controls and build the payload.
+ */
+export type FieldDescriptor = { name: string; type: Field["type"]; fields?: FieldDescriptor[] };
+
+export function fieldDescriptor(field: Field | ChildField): FieldDescriptor {
+  if (field.type === "group") return { name: field.name, type: field.type, fields: field.fields.map(fieldDescriptor) };
+  return { name: field.name, type: field.type };
+}
+
+/**
+ * buildClientHelpers
+ *
+ * Vanilla JS helpers shared by the Web Component and the HTML validation
+ * script: reading typed control values, building the JSON payload, and
+ * sending it to a form's `action`, plus the condition runtime when the form
+ * has conditions. Expects a `FIELDS` constant in scope.
+ */
+export function buildClientHelpers(fields: Field[]): string {
+  const conditions = resolveConditions(fields);
+  const runtime =
+    conditions.visible.size > 0 || conditions.required.size > 0
+      ? `${buildConditionRuntime(conditions, "js").trim()}\n\n`
+      : "";
+
+  const payload =
+    conditions.visible.size > 0
+      ? `/**
+ * Typed payload, as the Preview submits it: hidden fields and blank answers
+ * (empty strings, blank numbers) are omitted.
+ */
+function toPayload(values) {
+  const payload = toAnswers(values, FIELDS);
+  for (const name of Object.keys(payload)) {
+    if (!isVisible(name, values)) delete payload[name];
+  }
+  return payload;
+}`
+      : `/**
+ * Typed payload, as the Preview submits it: blank answers (empty strings,
+ * blank numbers) are omitted.
+ */
+function toPayload(values) {
+  return toAnswers(values, FIELDS);
+}`;
+
+  return `${runtime}/**
+ * Reads a control: strings, booleans for checkboxes, and numbers
+ * (null while blank, NaN for unparseable input).
+ */
+function readControl(control, type) {
+  if (type === "checkbox") return control.checked;
+  if (type === "number") {
+    if (control.validity.badInput) return NaN;
+    return control.value === "" ? null : Number(control.value);
+  }
+  return control.value;
+}
+
+${payload}
+
+function toAnswers(values, fields) {
+  const answers = {};
+
+  for (const field of fields) {
+    const value = values[field.name];
+    if (field.type === "group") {
+      answers[field.name] = value.map((item) => toAnswers(item, field.fields));
+    } else if (value !== "" && value !== null) {
+      answers[field.name] = value;
+    }
+  }
+
+  return answers;
+}
+
+/**
+ * Sends the payload as a JSON body (GET/HEAD: as query parameters, groups JSON-encoded).
+ */
+function sendPayload(action, method, payload) {
+  if (method === "GET" || method === "HEAD") {
+    const url = new URL(action, document.baseURI);
+    for (const [name, value] of Object.entries(payload)) {
+      url.searchParams.set(name, typeof value === "string" ? value : JSON.stringify(value));
+    }
+    return fetch(url, { method });
+  }
+
+  return fetch(action, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+}`;
+}
@@ -0,0 +1,437 @@
+// lib/exporters/svelte.ts
+import type { ChildField, Field, FormDefinition, GroupField } from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { isMultiStep, resolveFormSteps } from "@/lib/steps";
+import { generateCss } from "@/lib/exporters/css";
+import { escapeTemplateText } from "@/lib/exporters/html";
+import { buildDefaultValues, valueType } from "@/lib/exporters/react-ts";
+import type { ResolvedConditions } from "@/lib/exporters/condition-runtime";
+import { buildConditionRuntime, resolveConditions } from "@/lib/exporters/condition-runtime";
+import { buildValidators, itemErrorKey, memberAccess, reportsErrors } from "@/lib/exporters/rule-checks";
+import { propertyKey } from "@/lib/exporters/zod";
+
+/**
+ * generateSvelteComponent
+ *
+ * Generates a Svelte 5 component (`<script lang="ts">`, runes mode).
+ * Same coverage as the React + TS and Vue exports, in Svelte idioms:
+ * - `bind:value` / `bind:checked` on a `$state` form object
+ * - Type-aware inputs (text/textarea/email/number/date/select/checkbox)
+ * - Rules are checked by the component with the Preview's messages, shown
+ *   under each field (the form is `novalidate`)
+ * - Repeatable groups with add/remove controls bounded by minItems/maxItems
+ * - Multi-step forms export as a wizard (Next checks the current step's rules)
+ * - visibleWhen / requiredWhen are evaluated live; hidden fields are neither
+ *   rendered, validated nor submitted
+ * - Typed props: an `onsubmit(values)` callback receiving the same typed
+ *   `Values` as the React export, and an optional `submitLabel`
+ * - Markup uses the `ffd-*` classes; generateCss() ships as the component style
+ */
+export function generateSvelteComponent(form: FormDefinition): string {
+  const fields = form.fields;
+  const groups = fields.filter((f): f is GroupField => f.type === "group");
+  const wizard = isMultiStep(form);
+  const steps = resolveFormSteps(form);
+  const conditions = resolveConditions(fields);
+  const hasConditions = conditions.visible.size > 0 || conditions.required.size > 0;
+
+  const valuesType = `  export type Values = {
+${fields
+  .map((field) => {
+    const optional = conditions.visible.has(field.name) ? "?" : "";
+    return `    ${propertyKey(field.name)}${optional}: ${valueType(field, "    ")};`;
+  })
+  .join("\n")}
+  };`;
+
+  const formStateType = `  type FormState = {
+${fields.map((field) => `    ${propertyKey(field.name)}: ${stateType(field, "    ")};`).join("\n")}
+  };`;
+
+  const validators = buildValidators(fields, "form", "  ", conditions);
+  const conditionRuntime = hasConditions ? indent(buildConditionRuntime(conditions, "ts"), 2) : "";
+
+  const emptyItems =
+    groups.length > 0
+      ? `
+  // Blank items for the repeatable groups' "Add" buttons.
+  const EMPTY_ITEMS = {
+${groups
+  .map((group) => `    ${propertyKey(group.name)}: (): FormState[${JSON.stringify(group.name)}][number] => (${JSON.stringify(buildInitialState(group.fields))}),`)
+  .join("\n")}
+  };
+`
+      : "";
+
+  const wizardScript = wizard
+    ? `
+  // Field names per wizard step; every step stays mounted, only the current one is shown.
+  const STEPS: string[][] = ${JSON.stringify(steps.map((s) => s.fields.map((f) => f.name)))};
+  let step = $state(0);
+
+  // Advance only when the current step's fields pass their rules.
+  function goNext() {
+    errors = validate(STEPS[step]);
+    if (Object.keys(errors).length > 0) return;
+    step = Math.min(step + 1, STEPS.length - 1);
+  }
+
+  function goBack() {
+    step = Math.max(step - 1, 0);
+  }
+`
+    : "";
+
+  const submitGuard = wizard
+    ? `
+    // Enter on an intermediate step behaves like "Next".
+    if (step < STEPS.length - 1) {
+      goNext();
+      return;
+    }
+`
+    : "";
+
+  const title = form.title.trim() ? `  <h2 class="ffd-title">${escapeTemplateText(form.title)}</h2>\n` : "";
+  const description = form.description?.trim()
+    ? `  <p class="ffd-description">${escapeTemplateText(form.description)}</p>\n`
+    : "";
+
+  const body = wizard
+    ? steps
+        .map((s, index) => {
+          const isFirst = index === 0;
+          const isLast = index === steps.length - 1;
+
+          const back = isFirst
+            ? ""
+            : `      <button type="button" class="ffd-button ffd-button-secondary" onclick={goBack}>Back</button>\n`;
+          const forward = isLast
+            ? `      <button type="submit" class="ffd-button">{submitLabel}</button>`
+            : `      <button type="button" class="ffd-button" onclick={goNext}>Next</button>`;
+
+          return `  <section class="ffd-step" hidden={step !== ${index}}>
+    <p class="ffd-progress">Step ${index + 1} of ${steps.length}</p>
+    <h3 class="ffd-step-title">${escapeTemplateText(s.title || `Step ${index + 1}`)}</h3>
+
+${s.fields.map((field) => indent(renderField(field), 4)).join("\n\n")}
+
+    <div class="ffd-nav">
+${back}${forward}
+    </div>
+  </section>`;
+        })
+        .join("\n\n")
+    : `${fields.map((field) => indent(renderField(field), 2)).join("\n\n")}
+
+  <button type="submit" class="ffd-button">{submitLabel}</button>`;
+
+  return `<script lang="ts" module>
+  // Generated by Forms For Devs from "${form.title.replace(/"/g, '\\"')}".
+
+  /**
+   * Submitted values, keyed by field name.
+   */
+${valuesType}
+</script>
+
+<script lang="ts">
+  /**
+   * Input state bound to the controls. Number inputs hold a number, or null while blank.
+   */
+${formStateType}
+
+  type Props = {
+    onsubmit?: (values: Values) => void;
+    submitLabel?: string;
+  };
+
+  let { onsubmit, submitLabel = "Submit" }: Props = $props();
+
+  let form = $state<FormState>(${indent(JSON.stringify(buildInitialState(fields), null, 2), 2).trimStart()});
+
+  // Messages for failing fields, keyed by field name (or "group.index.child").
+  let errors = $state<Record<string, string>>({});
+${emptyItems}
+  // Rule checks per field; each reports its first failing rule.
+  const VALIDATORS: Record<string, (errors: Record<string, string>) => void> = {
+${validators}
+  };
+
+  function validate(names: string[] = Object.keys(VALIDATORS)): Record<string, string> {
+    const next: Record<string, string> = {};
+    for (const name of names) VALIDATORS[name]?.(next);
+    return next;
+  }
+${conditionRuntime}${wizardScript}
+  /**
+   * Converts the input state into typed Values (blank numbers and selects ->
+   * undefined, hidden fields left out).
+   */
+  function toValues(): Values {
+    return {
+${fields.map((field) => `      ${valueEntry(field, conditions)},`).join("\n")}
+    };
+  }
+
+  function handleSubmit(event: SubmitEvent) {
+    event.preventDefault();${submitGuard}
+    errors = validate();
+    if (Object.keys(errors).length > 0) return;
+    onsubmit?.(toValues());
+  }
+</script>
+
+<form class="ffd-form" novalidate onsubmit={handleSubmit}>
+${title}${description}
+${body}
+</form>
+
+<style>
+${generateCss(form.theme)}
+</style>
+`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Types and values                                                           */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Type of a field's bound state. Svelte binds `type="number"` inputs as
+ * numbers (null while blank). Exhaustive: new FieldTypes fail to compile here.
+ */
+function stateType(field: Field, indent: string): string {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date":
+    case "select":
+      return "string";
+    case "number":
+      return "number | null";
+    case "checkbox":
+      return "boolean";
+    case "group": {
+      const children = field.fields
+        .map((child) => `${indent}  ${propertyKey(child.name)}: ${stateType(child, `${indent}  `)};`)
+        .join("\n");
+      return `Array<{\n${children}\n${indent}}>`;
+    }
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * buildDefaultValues with blank numbers as null, matching Svelte's number binding.
+ */
+function buildInitialState(fields: Field[]): Record<string, unknown> {
+  const values = buildDefaultValues(fields);
+
+  for (const field of fields) {
+    if (field.type === "number") values[field.name] = null;
+    if (field.type === "group") {
+      values[field.name] = (values[field.name] as unknown[]).map(() => buildInitialState(field.fields));
+    }
+  }
+
+  return values;
+}
+
+/**
+ * One toValues() entry; fields with visibleWhen only while visible.
+ */
+function valueEntry(field: Field, conditions: ResolvedConditions): string {
+  const conditional = conditions.visible.has(field.name);
+  const path = `Values[${JSON.stringify(field.name)}]`;
+  // Optional keys need NonNullable before a group's `[number]` index.
+  const valuesPath = conditional ? `NonNullable<${path}>` : path;
+  const entry = `${propertyKey(field.name)}: ${valueConversion(field, memberAccess("form", field.name), valuesPath)}`;
+  if (!conditional) return entry;
+  return `...(isVisible(${JSON.stringify(field.name)}, form) ? { ${entry} } : {})`;
+}
+
+/**
+ * Expression converting one state value (`source`) to its typed value.
+ * `valuesPath` is the field's type in Values, for select literal unions.
+ */
+function valueConversion(
+  field: Field,
+  source: string,
+  valuesPath = `Values[${JSON.stringify(field.name)}]`
+): string {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date":
+    case "checkbox":
+      return source;
+    case "number":
+      return `${source} ?? undefined`;
+    case "select":
+      return `(${source} || undefined) as ${valuesPath}`;
+    case "group": {
+      const children = field.fields.map(
+        (child) =>
+          `${propertyKey(child.name)}: ${valueConversion(
+            child,
+            memberAccess("item", child.name),
+            `${valuesPath}[number][${JSON.stringify(child.name)}]`
+          )}`
+      );
+      return `${source}.map((item) => ({ ${children.join(", ")} }))`;
+    }
+    default:
+      return assertNever(field);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Markup                                                                     */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Renders any top-level field; fields with visibleWhen render inside
+ * `{#if isVisible(...)}`.
+ */
+function renderField(field: Field): string {
+  const markup =
+    field.type === "group"
+      ? renderGroup(field)
+      : renderInput(field, {
+          id: escapeTemplateText(field.id),
+          model: memberAccess("form", field.name),
+          error: reportsErrors(field) ? memberAccess("errors", field.name) : null,
+        });
+
+  if (!field.visibleWhen) return markup;
+  return `{#if isVisible(${JSON.stringify(field.name)}, form)}
+${indent(markup, 2)}
+{/if}`;
+}
+
+/**
+ * Renders a repeatable group with one `ffd-group-item` per entry and
+ * add/remove buttons bounded by minItems / maxItems.
+ */
+function renderGroup(field: GroupField): string {
+  const list = memberAccess("form", field.name);
+  const rules = field.rules ?? {};
+
+  const children = field.fields
+    .map((child) =>
+      renderInput(child, {
+        id: `${escapeTemplateText(field.id)}-{index}-${escapeTemplateText(child.id)}`,
+        model: memberAccess("item", child.name),
+        error: reportsErrors(child) ? `errors[${itemErrorKey(field.name, child.name)}]` : null,
+      })
+    )
+    .join("\n");
+
+  const removeDisabled = rules.minItems ? ` disabled={${list}.length <= ${rules.minItems}}` : "";
+  const addDisabled = rules.maxItems != null ? ` disabled={${list}.length >= ${rules.maxItems}}` : "";
+
+  return `<fieldset class="ffd-field ffd-group">
+  <legend class="ffd-label">${escapeTemplateText(field.label || "Untitled Field")}</legend>
+
+  {#each ${list} as item, index (index)}
+    <div class="ffd-group-item">
+${indent(children, 6)}
+      <button type="button" class="ffd-button ffd-button-secondary"${removeDisabled} onclick={() => ${list}.splice(index, 1)}>
+        Remove
+      </button>
+    </div>
+  {/each}
+
+  <button type="button" class="ffd-button ffd-button-secondary"${addDisabled} onclick={() => ${list}.push(${memberAccess("EMPTY_ITEMS", field.name)}())}>
+    Add ${escapeTemplateText(field.label.toLowerCase() || "item")}
+  </button>
+${renderError(reportsErrors(field) ? memberAccess("errors", field.name) : null)}</fieldset>`;
+}
+
+/**
+ * Renders a single (non-group) field and its error message.
+ * `binding.id` is attribute markup (group children interpolate `{index}`);
+ * `binding.error` is null for fields without rules.
+ * The switch is exhaustive: a new FieldType fails to compile until handled.
+ */
+function renderInput(field: ChildField, binding: { id: string; model: string; error: string | null }): string {
+  const { id, model } = binding;
+  const label = escapeTemplateText(field.label || "Untitled Field");
+  const placeholder = field.placeholder ? ` placeholder="${escapeTemplateText(field.placeholder)}"` : "";
+  const error = renderError(binding.error);
+
+  switch (field.type) {
+    case "textarea":
+      return `<div class="ffd-field">
+  <label for="${id}" class="ffd-label">${label}</label>
+  <textarea id="${id}" bind:value={${model}} class="ffd-input"${placeholder}></textarea>
+${error}</div>`;
+
+    case "select": {
+      const prompt = field.placeholder?.trim() ? field.placeholder : "Select an option";
+      const options = (field.rules?.options ?? [])
+        .map((opt) => `\n    <option value="${escapeTemplateText(opt.value)}">${escapeTemplateText(opt.label)}</option>`)
+        .join("");
+
+      return `<div class="ffd-field">
+  <label for="${id}" class="ffd-label">${label}</label>
+  <select id="${id}" bind:value={${model}} class="ffd-input">
+    <option value="" disabled>${escapeTemplateText(prompt)}</option>${options}
+  </select>
+${error}</div>`;
+    }
+
+    case "checkbox":
+      return `<div class="ffd-field">
+  <label for="${id}" class="ffd-choice">
+    <input id="${id}" bind:checked={${model}} type="checkbox" />
+    <span>${label}</span>
+  </label>
+${error}</div>`;
+
+    case "number":
+      // step="any" keeps the browser from rounding; integer/min/max are rule checks.
+      return `<div class="ffd-field">
+  <label for="${id}" class="ffd-label">${label}</label>
+  <input id="${id}" bind:value={${model}} type="number" step="any" class="ffd-input"${placeholder} />
+${error}</div>`;
+
+    case "text":
+    case "email":
+    case "date":
+      return `<div class="ffd-field">
+  <label for="${id}" class="ffd-label">${label}</label>
+  <input id="${id}" bind:value={${model}} type="${field.type}" class="ffd-input"${field.type === "date" ? "" : placeholder} />
+${error}</div>`;
+
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * Error markup line(s) under a control, including the trailing newline.
+ */
+function renderError(expression: string | null): string {
+  if (!expression) return "";
+  return `  {#if ${expression}}
+    <p class="ffd-error">{${expression}}</p>
+  {/if}
+`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Helpers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+function indent(markup: string, spaces: number): string {
+  const pad = " ".repeat(spaces);
+  return markup
+    .split("\n")
+    .map((line) => (line ? `${pad}${line}` : line))
+    .join("\n");
+}
@@ -0,0 +1,119 @@
+// lib/exporters/tailwind.ts
+
+/**
+ * Tailwind styling mode for the HTML and React + TS exports: every styled
+ * element gets utility classes from a class map instead of `ffd-*` classes
+ * (HTML) or inline `style` objects (React).
+ *
+ * Design note:
+ * - Classes are chosen per element role, so a team can swap any role for its
+ *   own design system while keeping the defaults for the rest
+ * - Defaults use stock Tailwind palette utilities only (no config needed);
+ *   the form theme does not apply in this mode
+ * - Not every exporter renders every role (e.g. the React export has no error
+ *   slots; only it renders `required` markers and a step header)
+ */
+
+/**
+ * TailwindRole
+ *
+ * Styled element kinds shared by the exporters.
+ */
+export type TailwindRole =
+  | "form"
+  | "header"
+  | "title"
+  | "description"
+  | "field"
+  | "group"
+  | "groupItem"
+  | "label"
+  | "required"
+  | "input"
+  | "textarea"
+  | "choice"
+  | "checkbox"
+  | "error"
+  | "button"
+  | "buttonSecondary"
+  | "step"
+  | "stepHeader"
+  | "stepTitle"
+  | "progress"
+  | "nav";
+
+export type TailwindClassMap = Record<TailwindRole, string>;
+
+const INPUT =
+  "w-full rounded-lg border border-gray-300 bg-white px-3.5 py-2.5 text-gray-900 focus:outline-2 focus:outline-gray-900";
+
+export const DEFAULT_TAILWIND_CLASSES: TailwindClassMap = {
+  form: "mx-auto grid max-w-xl gap-4",
+  header: "grid gap-1",
+  title: "text-2xl font-semibold text-gray-900",
+  description: "text-sm text-gray-600",
+  field: "grid gap-1.5",
+  group: "grid gap-3",
+  groupItem: "grid gap-3 rounded-lg border border-gray-200 p-3",
+  label: "text-sm font-semibold text-gray-900",
+  required: "text-red-700",
+  input: INPUT,
+  textarea: `${INPUT} min-h-30 resize-y`,
+  choice: "flex items-center gap-2 text-sm",
+  checkbox: "size-4 accent-gray-900",
+  error: "text-sm text-red-700",
+  button: "rounded-lg bg-gray-900 px-4 py-2.5 font-semibold text-white hover:bg-gray-700 disabled:opacity-50",
+  buttonSecondary:
+    "rounded-lg border border-gray-300 bg-white px-4 py-2.5 font-semibold text-gray-900 hover:bg-gray-50 disabled:opacity-50",
+  step: "grid gap-4",
+  stepHeader: "flex items-baseline justify-between",
+  stepTitle: "text-lg font-semibold",
+  progress: "text-xs text-gray-600",
+  nav: "flex gap-3",
+};
+
+/**
+ * TAILWIND_ROLE_LABEL
+ *
+ * Display names for editing the class map (Exports page).
+ */
+export const TAILWIND_ROLE_LABEL: Record<TailwindRole, string> = {
+  form: "Form",
+  header: "Header",
+  title: "Title",
+  description: "Description",
+  field: "Field wrapper",
+  group: "Group",
+  groupItem: "Group item",
+  label: "Label",
+  required: "Required marker",
+  input: "Input",
+  textarea: "Textarea",
+  choice: "Checkbox label",
+  checkbox: "Checkbox",
+  error: "Error message",
+  button: "Button",
+  buttonSecondary: "Secondary button",
+  step: "Step",
+  stepHeader: "Step header",
+  stepTitle: "Step title",
+  progress: "Step progress",
+  nav: "Step navigation",
+};
+
+/**
+ * resolveTailwindClasses
+ *
+ * Defaults merged with per-role overrides. Whitespace is collapsed, and a
+ * blank override keeps the role's default.
+ */
+export function resolveTailwindClasses(overrides: Partial<TailwindClassMap> = {}): TailwindClassMap {
+  const classes = { ...DEFAULT_TAILWIND_CLASSES };
+
+  for (const role of Object.keys(overrides) as TailwindRole[]) {
+    const value = overrides[role]?.trim().replace(/\s+/g, " ");
+    if (value) classes[role] = value;
+  }
+
+  return classes;
+}
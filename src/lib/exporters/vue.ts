@@ -0,0 +1,441 @@
+// lib/exporters/vue.ts
+import type { ChildField, Field, FormDefinition, GroupField } from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { isMultiStep, resolveFormSteps } from "@/lib/steps";
+import { generateCss } from "@/lib/exporters/css";
+import { escapeHtml, escapeTemplateText } from "@/lib/exporters/html";
+import { buildDefaultValues, valueType } from "@/lib/exporters/react-ts";
+import { propertyKey } from "@/lib/exporters/zod";
+import { buildConditionRuntime, resolveConditions } from "@/lib/exporters/condition-runtime";
+import type { ResolvedConditions } from "@/lib/exporters/condition-runtime";
+
+/**
+ * generateVueComponent
+ *
+ * Generates a Vue 3 single-file component (`<script setup lang="ts">`).
+ * Same coverage as the React + TS export, in Vue idioms:
+ * - `v-model` bindings on a reactive `form` state object
+ * - Type-aware inputs (text/textarea/email/number/date/select/checkbox)
+ * - Native rule attributes (required, minlength/maxlength, pattern, min/max, step)
+ * - Repeatable groups with add/remove controls bounded by minItems/maxItems
+ * - Multi-step forms export as a wizard (Next validates the current step natively)
+ * - visibleWhen / requiredWhen are evaluated live: hidden fields are left out
+ *   with `v-if` (so native validation skips them) and out of the emitted
+ *   values; `:required` follows requiredWhen
+ * - Emits `submit` with the same typed `Values` as the React export
+ * - Markup uses the `ffd-*` classes; generateCss() ships as a scoped style block
+ */
+export function generateVueComponent(form: FormDefinition): string {
+  const fields = form.fields;
+  const groups = fields.filter((f): f is GroupField => f.type === "group");
+  const wizard = isMultiStep(form);
+  const steps = resolveFormSteps(form);
+  const conditions = resolveConditions(fields);
+  const conditionRuntime =
+    conditions.visible.size > 0 || conditions.required.size > 0 ? buildConditionRuntime(conditions, "ts") : "";
+
+  const formStateType = `type FormState = {
+${fields.map((field) => `  ${propertyKey(field.name)}: ${stateType(field, "  ")};`).join("\n")}
+};`;
+
+  const valuesType = `export type Values = {
+${fields
+  .map((field) => {
+    const optional = conditions.visible.has(field.name) ? "?" : "";
+    return `  ${propertyKey(field.name)}${optional}: ${valueType(field, "  ")};`;
+  })
+  .join("\n")}
+};`;
+
+  const emptyItems =
+    groups.length > 0
+      ? `
+// Blank items for the repeatable groups' "Add" buttons, typed as FormState items
+// (so "" stays the literal a blank number input holds).
+const EMPTY_ITEMS = {
+${groups
+  .map(
+    (group) =>
+      `  ${propertyKey(group.name)}: (): FormState[${JSON.stringify(group.name)}][number] => (${JSON.stringify(buildDefaultValues(group.fields))}),`
+  )
+  .join("\n")}
+};
+`
+      : "";
+
+  const wizardScript = wizard
+    ? `
+// Wizard state: every step stays mounted; only the current one is shown.
+const STEP_COUNT = ${steps.length};
+const formEl = ref<HTMLFormElement>();
+const step = ref(0);
+
+// Advance only when every control in the current step passes native validation.
+function goNext() {
+  const section = formEl.value?.querySelector(\`[data-ffd-step="\${step.value}"]\`);
+  const controls = Array.from(
+    section?.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>(
+      "input, select, textarea"
+    ) ?? []
+  );
+  const invalid = controls.find((control) => !control.checkValidity());
+  if (invalid) {
+    invalid.reportValidity();
+    return;
+  }
+  step.value = Math.min(step.value + 1, STEP_COUNT - 1);
+}
+
+function goBack() {
+  step.value = Math.max(step.value - 1, 0);
+}
+`
+    : "";
+
+  const submitGuard = wizard
+    ? `
+  // Enter on an intermediate step behaves like "Next".
+  if (step.value < STEP_COUNT - 1) {
+    goNext();
+    return;
+  }
+`
+    : "";
+
+  const title = form.title.trim() ? `    <h2 class="ffd-title">${escapeTemplateText(form.title)}</h2>\n` : "";
+  const description = form.description?.trim()
+    ? `    <p class="ffd-description">${escapeTemplateText(form.description)}</p>\n`
+    : "";
+
+  const body = wizard
+    ? steps
+        .map((s, index) => {
+          const isFirst = index === 0;
+          const isLast = index === steps.length - 1;
+
+          const back = isFirst
+            ? ""
+            : `        <button type="button" class="ffd-button ffd-button-secondary" @click="goBack">Back</button>\n`;
+          const forward = isLast
+            ? `        <button type="submit" class="ffd-button">{{ submitLabel }}</button>`
+            : `        <button type="button" class="ffd-button" @click="goNext">Next</button>`;
+
+          return `    <section class="ffd-step" data-ffd-step="${index}" :hidden="step !== ${index}">
+      <p class="ffd-progress">Step ${index + 1} of ${steps.length}</p>
+      <h3 class="ffd-step-title">${escapeTemplateText(s.title || `Step ${index + 1}`)}</h3>
+
+${s.fields.map((field) => indent(renderField(field, conditions), 6)).join("\n\n")}
+
+      <div class="ffd-nav">
+${back}${forward}
+      </div>
+    </section>`;
+        })
+        .join("\n\n")
+    : `${fields.map((field) => indent(renderField(field, conditions), 4)).join("\n\n")}
+
+    <button type="submit" class="ffd-button">{{ submitLabel }}</button>`;
+
+  return `<script setup lang="ts">
+// Generated by Forms For Devs from "${form.title.replace(/"/g, '\\"')}".
+import { reactive${wizard ? ", ref" : ""} } from "vue";
+
+/**
+ * Submitted values, keyed by field name.
+ */
+${valuesType}
+
+/**
+ * Input state bound with v-model. Number inputs hold a number, or "" while blank.
+ */
+${formStateType}
+
+withDefaults(defineProps<{ submitLabel?: string }>(), { submitLabel: "Submit" });
+
+const emit = defineEmits<{ submit: [values: Values] }>();
+
+const form = reactive<FormState>(${JSON.stringify(buildDefaultValues(fields), null, 2)});
+${emptyItems}${wizardScript}${conditionRuntime}
+/**
+ * Converts the input state into typed Values (blank numbers and selects -> undefined).
+ */
+function toValues(): Values {
+  return {
+${fields.map((field) => `    ${valueEntry(field, conditions)},`).join("\n")}
+  };
+}
+
+function onSubmit() {${submitGuard}
+  emit("submit", toValues());
+}
+</script>
+
+<template>
+  <form${wizard ? ' ref="formEl"' : ""} class="ffd-form" @submit.prevent="onSubmit">
+${title}${description}
+${body}
+  </form>
+</template>
+
+<style scoped>
+${generateCss(form.theme)}
+</style>
+`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Types and values                                                           */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Type of a field's v-model state. Vue casts `type="number"` inputs to numbers
+ * (a blank input stays ""). Exhaustive: new FieldTypes fail to compile here.
+ */
+function stateType(field: Field, indent: string): string {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date":
+    case "select":
+      return "string";
+    case "number":
+      return `number | ""`;
+    case "checkbox":
+      return "boolean";
+    case "group": {
+      const children = field.fields
+        .map((child) => `${indent}  ${propertyKey(child.name)}: ${stateType(child, `${indent}  `)};`)
+        .join("\n");
+      return `Array<{\n${children}\n${indent}}>`;
+    }
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * One toValues() entry; fields with visibleWhen only while visible.
+ */
+function valueEntry(field: Field, conditions: ResolvedConditions): string {
+  const conditional = conditions.visible.has(field.name);
+  const path = `Values[${JSON.stringify(field.name)}]`;
+  // Optional keys need NonNullable before a group's `[number]` index.
+  const valuesPath = conditional ? `NonNullable<${path}>` : path;
+  const entry = `${propertyKey(field.name)}: ${valueConversion(field, member("form", field.name), valuesPath)}`;
+  if (!conditional) return entry;
+  return `...(isVisible(${JSON.stringify(field.name)}, form) ? { ${entry} } : {})`;
+}
+
+/**
+ * Expression converting one state value (`source`) to its typed value.
+ * `valuesPath` is the field's type in Values, for select literal unions.
+ */
+function valueConversion(
+  field: Field,
+  source: string,
+  valuesPath = `Values[${JSON.stringify(field.name)}]`
+): string {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date":
+    case "checkbox":
+      return source;
+    case "number":
+      return `typeof ${source} === "number" ? ${source} : undefined`;
+    case "select":
+      return `(${source} || undefined) as ${valuesPath}`;
+    case "group": {
+      const children = field.fields.map(
+        (child) =>
+          `${propertyKey(child.name)}: ${valueConversion(
+            child,
+            member("item", child.name),
+            `${valuesPath}[number][${JSON.stringify(child.name)}]`
+          )}`
+      );
+      return `${source}.map((item) => ({ ${children.join(", ")} }))`;
+    }
+    default:
+      return assertNever(field);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Template                                                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Renders any top-level field; fields with visibleWhen render inside
+ * `<template v-if="isVisible(...)">`, and requiredWhen binds `:required`.
+ */
+function renderField(field: Field, conditions: ResolvedConditions): string {
+  const markup =
+    field.type === "group"
+      ? renderGroup(field)
+      : renderInput(field, {
+          id: escapeHtml(field.id),
+          dynamicId: false,
+          model: member("form", field.name),
+          required: conditions.required.has(field.name) ? `isRequired(${quote(field.name)}, form)` : undefined,
+        });
+
+  if (!conditions.visible.has(field.name)) return markup;
+  return `<template v-if="isVisible(${quote(field.name)}, form)">
+${indent(markup, 2)}
+</template>`;
+}
+
+/**
+ * Renders a repeatable group with one `ffd-group-item` per entry and
+ * add/remove buttons bounded by minItems / maxItems.
+ */
+function renderGroup(field: GroupField): string {
+  const list = member("form", field.name);
+  const rules = field.rules ?? {};
+
+  const children = field.fields
+    .map((child) =>
+      renderInput(child, {
+        id: `\`${escapeHtml(field.id)}-\${index}-${escapeHtml(child.id)}\``,
+        dynamicId: true,
+        model: member("item", child.name),
+      })
+    )
+    .join("\n");
+
+  const removeDisabled = rules.minItems ? ` :disabled="${list}.length <= ${rules.minItems}"` : "";
+  const addDisabled = rules.maxItems != null ? ` :disabled="${list}.length >= ${rules.maxItems}"` : "";
+
+  return `<fieldset class="ffd-field ffd-group">
+  <legend class="ffd-label">${escapeTemplateText(field.label || "Untitled Field")}</legend>
+
+  <div v-for="(item, index) in ${list}" :key="index" class="ffd-group-item">
+${indent(children, 4)}
+    <button type="button" class="ffd-button ffd-button-secondary"${removeDisabled} @click="${list}.splice(index, 1)">
+      Remove
+    </button>
+  </div>
+
+  <button type="button" class="ffd-button ffd-button-secondary"${addDisabled} @click="${list}.push(${member("EMPTY_ITEMS", field.name)}())">
+    Add ${escapeTemplateText(field.label.toLowerCase() || "item")}
+  </button>
+</fieldset>`;
+}
+
+/**
+ * Renders a single (non-group) field with its native rule attributes.
+ * Group children get a bound id (`dynamicId`) that includes the item index.
+ * The switch is exhaustive: a new FieldType fails to compile until handled.
+ */
+function renderInput(
+  field: ChildField,
+  binding: { id: string; dynamicId: boolean; model: string; required?: string }
+): string {
+  const { model } = binding;
+  const id = binding.dynamicId ? `:id="${binding.id}"` : `id="${binding.id}"`;
+  const idRef = binding.dynamicId ? `:for="${binding.id}"` : `for="${binding.id}"`;
+  const label = escapeTemplateText(field.label || "Untitled Field");
+  const placeholder = field.placeholder ? ` placeholder="${escapeHtml(field.placeholder)}"` : "";
+  const required = field.required ? " required" : binding.required ? ` :required="${binding.required}"` : "";
+
+  switch (field.type) {
+    case "textarea": {
+      const rules = field.rules ?? {};
+      return `<div class="ffd-field">
+  <label ${idRef} class="ffd-label">${label}</label>
+  <textarea ${id} v-model="${model}" class="ffd-input"${placeholder}${required}${lengthAttrs(rules)}></textarea>
+</div>`;
+    }
+
+    case "select": {
+      const prompt = field.placeholder?.trim() ? field.placeholder : "Select an option";
+      const options = (field.rules?.options ?? [])
+        .map((opt) => `\n    <option value="${escapeHtml(opt.value)}">${escapeTemplateText(opt.label)}</option>`)
+        .join("");
+
+      return `<div class="ffd-field">
+  <label ${idRef} class="ffd-label">${label}</label>
+  <select ${id} v-model="${model}" class="ffd-input"${required}>
+    <option value="" disabled>${escapeTemplateText(prompt)}</option>${options}
+  </select>
+</div>`;
+    }
+
+    case "checkbox":
+      return `<div class="ffd-field">
+  <label ${idRef} class="ffd-choice">
+    <input ${id} v-model="${model}" type="checkbox"${required} />
+    <span>${label}</span>
+  </label>
+</div>`;
+
+    case "number": {
+      const rules = field.rules ?? {};
+      const min = rules.min != null ? ` min="${rules.min}"` : "";
+      const max = rules.max != null ? ` max="${rules.max}"` : "";
+      const step = ` step="${rules.integer ? 1 : "any"}"`;
+
+      return `<div class="ffd-field">
+  <label ${idRef} class="ffd-label">${label}</label>
+  <input ${id} v-model="${model}" type="number" class="ffd-input"${placeholder}${required}${min}${max}${step} />
+</div>`;
+    }
+
+    case "text":
+    case "email": {
+      const rules = field.rules ?? {};
+      const pattern = rules.pattern ? ` pattern="${escapeHtml(rules.pattern)}"` : "";
+
+      return `<div class="ffd-field">
+  <label ${idRef} class="ffd-label">${label}</label>
+  <input ${id} v-model="${model}" type="${field.type}" class="ffd-input"${placeholder}${required}${lengthAttrs(rules)}${pattern} />
+</div>`;
+    }
+
+    case "date":
+      return `<div class="ffd-field">
+  <label ${idRef} class="ffd-label">${label}</label>
+  <input ${id} v-model="${model}" type="date" class="ffd-input"${required} />
+</div>`;
+
+    default:
+      return assertNever(field);
+  }
+}
+
+function lengthAttrs(rules: { minLength?: number; maxLength?: number }): string {
+  const min = rules.minLength != null ? ` minlength="${rules.minLength}"` : "";
+  const max = rules.maxLength != null ? ` maxlength="${rules.maxLength}"` : "";
+  return `${min}${max}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Helpers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Member access usable both in the script and inside double-quoted template
+ * attributes: `form.email` or `form['first-name']`.
+ */
+function member(object: string, name: string): string {
+  if (/^[A-Za-z_$][\w$]*$/.test(name)) return `${object}.${name}`;
+  return `${object}[${quote(name)}]`;
+}
+
+/**
+ * Single-quoted string literal, usable inside double-quoted template attributes.
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+function indent(markup: string, spaces: number): string {
+  const pad = " ".repeat(spaces);
+  return markup
+    .split("\n")
+    .map((line) => (line ? `${pad}${line}` : line))
+    .join("\n");
+}
@@ -0,0 +1,473 @@
+// lib/exporters/web-component.ts
+import type { ChildField, Field, FormDefinition, GroupField } from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { isMultiStep, resolveFormSteps } from "@/lib/steps";
+import { generateCss } from "@/lib/exporters/css";
+import { escapeHtml } from "@/lib/exporters/html";
+import { makeSafeComponentName } from "@/lib/exporters/react-ts";
+import {
+  buildClientHelpers,
+  buildValidateFunction,
+  fieldDescriptor,
+  reportsErrors,
+} from "@/lib/exporters/rule-checks";
+import { propertyKey } from "@/lib/exporters/zod";
+
+/**
+ * generateWebComponent
+ *
+ * Generates a framework-free custom element as one JavaScript module
+ * (`<ffd-form-contact>` for a form with id "contact").
+ *
+ * Design note:
+ * - Shadow DOM keeps the markup and the generateCss() styles encapsulated
+ * - Rules are checked by the element with the Preview's messages, shown under
+ *   each field (the form is `novalidate`)
+ * - Submitting dispatches a composed, cancelable `ffd-submit` CustomEvent whose
+ *   `detail.values` is the typed JSON payload (same shape as the other exports)
+ * - With an `action` attribute the payload is also sent as JSON (`method`
+ *   defaults to POST); `preventDefault()` on `ffd-submit` skips the request
+ * - Repeatable groups get add/remove controls bounded by minItems/maxItems;
+ *   multi-step forms export as a wizard (Next checks the current step's rules)
+ * - Fields with visibleWhen show and hide as the answers change; hidden fields
+ *   are neither validated nor submitted, and requiredWhen applies while it holds
+ */
+export function generateWebComponent(form: FormDefinition): string {
+  const tagName = webComponentTagName(form);
+  const className = `${makeSafeComponentName(form.id || form.title || "GeneratedForm")}Element`;
+  const fields = form.fields;
+  const groups = fields.filter((f): f is GroupField => f.type === "group");
+  const wizard = isMultiStep(form);
+  const steps = resolveFormSteps(form);
+  const conditional = fields.some((f) => f.visibleWhen);
+
+  const title = form.title.trim() ? `  <h2 class="ffd-title">${escapeHtml(form.title)}</h2>\n` : "";
+  const description = form.description?.trim()
+    ? `  <p class="ffd-description">${escapeHtml(form.description)}</p>\n`
+    : "";
+
+  const body = wizard
+    ? steps
+        .map((s, index) => {
+          const isFirst = index === 0;
+          const isLast = index === steps.length - 1;
+
+          const back = isFirst
+            ? ""
+            : `      <button type="button" class="ffd-button ffd-button-secondary" data-ffd-back>Back</button>\n`;
+          const forward = isLast
+            ? `      <button type="submit" class="ffd-button">Submit</button>`
+            : `      <button type="button" class="ffd-button" data-ffd-next>Next</button>`;
+
+          return `  <section class="ffd-step" data-ffd-step="${index}"${isFirst ? "" : " hidden"}>
+    <p class="ffd-progress">Step ${index + 1} of ${steps.length}</p>
+    <h3 class="ffd-step-title">${escapeHtml(s.title || `Step ${index + 1}`)}</h3>
+
+${s.fields.map((field) => indent(renderField(field), 4)).join("\n\n")}
+
+    <div class="ffd-nav">
+${back}${forward}
+    </div>
+  </section>`;
+        })
+        .join("\n\n")
+    : `${fields.map((field) => indent(renderField(field), 2)).join("\n\n")}
+
+  <button type="submit" class="ffd-button">Submit</button>`;
+
+  const markup = `<form class="ffd-form" novalidate>
+${title}${description}
+${body}
+</form>`;
+
+  const itemMarkup =
+    groups.length > 0
+      ? `
+// Blank item markup for the repeatable groups' "Add" buttons.
+const ITEM_MARKUP = {
+${groups.map((group) => `  ${propertyKey(group.name)}: \`\n${templateLiteral(renderItem(group))}\`,`).join("\n")}
+};
+`
+      : "";
+
+  const stepsConst = wizard
+    ? `
+// Field names per wizard step; every step stays mounted, only the current one is shown.
+const STEPS = ${JSON.stringify(steps.map((s) => s.fields.map((f) => f.name)))};
+`
+    : "";
+
+  const wizardMethods = wizard
+    ? `
+
+  // Advance only when the current step's fields pass their rules.
+  next() {
+    const errors = validate(readValues(this.form), STEPS[this.step]);
+    showErrors(this.form, errors);
+    if (Object.keys(errors).length > 0) return;
+    this.show(this.step + 1);
+  }
+
+  show(index) {
+    this.step = Math.max(0, Math.min(index, STEPS.length - 1));
+    this.form.querySelectorAll("[data-ffd-step]").forEach((section, i) => {
+      section.hidden = i !== this.step;
+    });
+  }`
+    : "";
+
+  const wizardClicks = wizard
+    ? `
+      if (button.hasAttribute("data-ffd-next")) this.next();
+      if (button.hasAttribute("data-ffd-back")) this.show(this.step - 1);`
+    : "";
+
+  const groupClicks =
+    groups.length > 0
+      ? `
+      if (button.hasAttribute("data-ffd-add")) {
+        const group = button.closest("[data-ffd-group]");
+        button.insertAdjacentHTML("beforebegin", ITEM_MARKUP[group.dataset.ffdGroup]);
+        syncGroup(group);
+      }
+      if (button.hasAttribute("data-ffd-remove")) {
+        const group = button.closest("[data-ffd-group]");
+        button.closest("[data-ffd-item]").remove();
+        syncGroup(group);
+      }`
+      : "";
+
+  const visibilityFunction = conditional
+    ? `
+
+/**
+ * Shows each conditional field while its visibleWhen holds.
+ */
+function syncVisibility(form) {
+  const values = readValues(form);
+  form.querySelectorAll("[data-ffd-field]").forEach((field) => {
+    field.hidden = !isVisible(field.dataset.ffdField, values);
+  });
+}`
+    : "";
+
+  const visibilityListeners = conditional
+    ? `
+    this.form.addEventListener("input", () => syncVisibility(this.form));
+    this.form.addEventListener("change", () => syncVisibility(this.form));
+    syncVisibility(this.form);`
+    : "";
+
+  const submitGuard = wizard
+    ? `
+    // Enter on an intermediate step behaves like "Next".
+    if (this.step < STEPS.length - 1) {
+      this.next();
+      return;
+    }
+`
+    : "";
+
+  return `// Generated by Forms For Devs from "${form.title.replace(/"/g, '\\"')}".
+//
+// Usage:
+//   <script type="module" src="./${tagName.replace(/^ffd-form-/, "")}.js"></script>
+//   <${tagName} action="/api/submissions" method="post"></${tagName}>
+//
+// Events (bubbling and composed, so listeners outside the shadow root see them):
+// - "ffd-submit": detail.values is the typed JSON payload. Cancelable:
+//   preventDefault() skips sending it to the \`action\` URL.
+// - "ffd-submit-success" / "ffd-submit-error": outcome of that request
+//   (detail.response, or detail.error when the request failed to send).
+
+const TAG_NAME = ${JSON.stringify(tagName)};
+
+const STYLES = \`:host {
+  display: block;
+}
+
+${templateLiteral(generateCss(form.theme))}\`;
+
+const MARKUP = \`${templateLiteral(markup)}\`;
+${itemMarkup}
+// Field names and types, for reading values from the controls.
+const FIELDS = ${JSON.stringify(fields.map(fieldDescriptor))};
+${stepsConst}
+${buildValidateFunction(fields)}
+
+${buildClientHelpers(fields)}
+
+function groupItems(form, name) {
+  const group = form.querySelector(\`[data-ffd-group="\${CSS.escape(name)}"]\`);
+  return Array.from(group.querySelectorAll(":scope > [data-ffd-item]"));
+}
+
+function readValues(form) {
+  const values = {};
+
+  for (const field of FIELDS) {
+    if (field.type === "group") {
+      values[field.name] = groupItems(form, field.name).map((item) => {
+        const entry = {};
+        for (const child of field.fields) {
+          entry[child.name] = readControl(
+            item.querySelector(\`[data-ffd-child="\${CSS.escape(child.name)}"]\`),
+            child.type
+          );
+        }
+        return entry;
+      });
+    } else {
+      values[field.name] = readControl(form.elements.namedItem(field.name), field.type);
+    }
+  }
+
+  return values;
+}
+
+function showErrors(form, errors) {
+  form.querySelectorAll("[data-ffd-error]").forEach((element) => {
+    const item = element.closest("[data-ffd-item]");
+    let key = element.dataset.ffdError;
+
+    if (item) {
+      const group = item.closest("[data-ffd-group]");
+      const index = groupItems(form, group.dataset.ffdGroup).indexOf(item);
+      key = \`\${group.dataset.ffdGroup}.\${index}.\${key}\`;
+    }
+
+    element.textContent = errors[key] ?? "";
+    element.hidden = !errors[key];
+  });
+}${visibilityFunction}
+
+/**
+ * Renumbers a group's item ids and bounds its Add/Remove buttons by the item limits.
+ */
+function syncGroup(group) {
+  const items = Array.from(group.querySelectorAll(":scope > [data-ffd-item]"));
+  const min = Number(group.dataset.ffdMin ?? 0);
+  const max = Number(group.dataset.ffdMax ?? Infinity);
+
+  items.forEach((item, index) => {
+    item.querySelectorAll("[data-ffd-id]").forEach((control) => {
+      control.id = \`\${group.dataset.ffdGroupId}-\${index}-\${control.dataset.ffdId}\`;
+    });
+    item.querySelectorAll("[data-ffd-for]").forEach((label) => {
+      label.htmlFor = \`\${group.dataset.ffdGroupId}-\${index}-\${label.dataset.ffdFor}\`;
+    });
+    item.querySelector("[data-ffd-remove]").disabled = items.length <= min;
+  });
+
+  group.querySelector(":scope > [data-ffd-add]").disabled = items.length >= max;
+}
+
+class ${className} extends HTMLElement {
+  constructor() {
+    super();
+    this.attachShadow({ mode: "open" });
+  }
+
+  connectedCallback() {
+    if (this.form) return;
+
+    this.shadowRoot.innerHTML = \`<style>\${STYLES}</style>\${MARKUP}\`;
+
+    this.form = this.shadowRoot.querySelector("form");${wizard ? "\n    this.step = 0;" : ""}
+    this.form.querySelectorAll("[data-ffd-group]").forEach(syncGroup);${visibilityListeners}
+    this.form.addEventListener("submit", (event) => this.submit(event));
+    this.form.addEventListener("click", (event) => {
+      const button = event.target.closest("button[type='button']");
+      if (!button) return;${wizardClicks}${groupClicks}
+    });
+  }${wizardMethods}
+
+  async submit(event) {
+    event.preventDefault();${submitGuard}
+    const values = readValues(this.form);
+    const errors = validate(values);
+    showErrors(this.form, errors);
+    if (Object.keys(errors).length > 0) return;
+
+    const payload = toPayload(values);
+    const proceed = this.dispatchEvent(
+      new CustomEvent("ffd-submit", { detail: { values: payload }, bubbles: true, composed: true, cancelable: true })
+    );
+
+    const action = this.getAttribute("action");
+    if (!proceed || !action) return;
+
+    await this.send(action, (this.getAttribute("method") || "post").toUpperCase(), payload);
+  }
+
+  async send(action, method, payload) {
+    const button = this.form.querySelector("button[type='submit']");
+    button.disabled = true;
+
+    try {
+      const response = await sendPayload(action, method, payload);
+      const outcome = response.ok ? "ffd-submit-success" : "ffd-submit-error";
+      this.dispatchEvent(new CustomEvent(outcome, { detail: { response }, bubbles: true, composed: true }));
+    } catch (error) {
+      this.dispatchEvent(new CustomEvent("ffd-submit-error", { detail: { error }, bubbles: true, composed: true }));
+    } finally {
+      button.disabled = false;
+    }
+  }
+}
+
+if (!customElements.get(TAG_NAME)) customElements.define(TAG_NAME, ${className});
+`;
+}
+
+/**
+ * Custom element name for a form: `ffd-form-` plus its id (or title) slug.
+ * The prefix guarantees the hyphen the custom elements spec requires.
+ */
+export function webComponentTagName(form: FormDefinition): string {
+  const slug = (form.id || form.title || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)/g, "");
+  return `ffd-form-${slug || "generated"}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Markup                                                                     */
+/* -------------------------------------------------------------------------- */
+
+function renderField(field: Field): string {
+  if (field.type === "group") return renderGroup(field);
+  const id = escapeHtml(field.id);
+  return renderInput(field, `id="${id}" name="${escapeHtml(field.name)}"`, `for="${id}"`, visibilityAttr(field));
+}
+
+/**
+ * ` data-ffd-field="..."` on a field with visibleWhen, which syncVisibility()
+ * hides while the condition fails.
+ */
+function visibilityAttr(field: Field): string {
+  return field.visibleWhen ? ` data-ffd-field="${escapeHtml(field.name)}"` : "";
+}
+
+/**
+ * Renders a repeatable group with its initial items (minItems, or one when
+ * required). Item ids are assigned by the element's syncGroup().
+ */
+function renderGroup(field: GroupField): string {
+  const rules = field.rules ?? {};
+  const count = Math.max(rules.minItems ?? 0, field.required ? 1 : 0);
+  const limits = `${rules.minItems ? ` data-ffd-min="${rules.minItems}"` : ""}${
+    rules.maxItems != null ? ` data-ffd-max="${rules.maxItems}"` : ""
+  }`;
+  const items = Array.from({ length: count }, () => `${indent(renderItem(field), 2)}\n`).join("");
+
+  return `<fieldset class="ffd-field ffd-group" data-ffd-group="${escapeHtml(field.name)}" data-ffd-group-id="${escapeHtml(field.id)}"${limits}${visibilityAttr(field)}>
+  <legend class="ffd-label">${escapeHtml(field.label || "Untitled Field")}</legend>
+${items}
+  <button type="button" class="ffd-button ffd-button-secondary" data-ffd-add>
+    Add ${escapeHtml(field.label.toLowerCase() || "item")}
+  </button>
+${renderError(field)}</fieldset>`;
+}
+
+function renderItem(field: GroupField): string {
+  const children = field.fields
+    .map((child) => {
+      const id = escapeHtml(child.id);
+      return renderInput(child, `data-ffd-id="${id}" data-ffd-child="${escapeHtml(child.name)}"`, `data-ffd-for="${id}"`);
+    })
+    .join("\n");
+
+  return `<div class="ffd-group-item" data-ffd-item>
+${indent(children, 2)}
+  <button type="button" class="ffd-button ffd-button-secondary" data-ffd-remove>Remove</button>
+</div>`;
+}
+
+/**
+ * Renders a single (non-group) field and its (initially hidden) error slot.
+ * `attrs` identifies the control; `labelFor` links the label to it, and
+ * `wrapperAttrs` is appended to the field's wrapper.
+ * The switch is exhaustive: a new FieldType fails to compile until handled.
+ */
+function renderInput(field: ChildField, attrs: string, labelFor: string, wrapperAttrs = ""): string {
+  const label = escapeHtml(field.label || "Untitled Field");
+  const placeholder = field.placeholder ? ` placeholder="${escapeHtml(field.placeholder)}"` : "";
+  const error = renderError(field);
+
+  switch (field.type) {
+    case "textarea":
+      return `<div class="ffd-field"${wrapperAttrs}>
+  <label ${labelFor} class="ffd-label">${label}</label>
+  <textarea ${attrs} class="ffd-input"${placeholder}></textarea>
+${error}</div>`;
+
+    case "select": {
+      const prompt = field.placeholder?.trim() ? field.placeholder : "Select an option";
+      const options = (field.rules?.options ?? [])
+        .map((opt) => `\n    <option value="${escapeHtml(opt.value)}">${escapeHtml(opt.label)}</option>`)
+        .join("");
+
+      return `<div class="ffd-field"${wrapperAttrs}>
+  <label ${labelFor} class="ffd-label">${label}</label>
+  <select ${attrs} class="ffd-input">
+    <option value="" disabled selected>${escapeHtml(prompt)}</option>${options}
+  </select>
+${error}</div>`;
+    }
+
+    case "checkbox":
+      return `<div class="ffd-field"${wrapperAttrs}>
+  <label ${labelFor} class="ffd-choice">
+    <input ${attrs} type="checkbox" />
+    <span>${label}</span>
+  </label>
+${error}</div>`;
+
+    case "number":
+      // step="any" keeps the browser from rounding; integer/min/max are rule checks.
+      return `<div class="ffd-field"${wrapperAttrs}>
+  <label ${labelFor} class="ffd-label">${label}</label>
+  <input ${attrs} type="number" step="any" class="ffd-input"${placeholder} />
+${error}</div>`;
+
+    case "text":
+    case "email":
+    case "date":
+      return `<div class="ffd-field"${wrapperAttrs}>
+  <label ${labelFor} class="ffd-label">${label}</label>
+  <input ${attrs} type="${field.type}" class="ffd-input"${field.type === "date" ? "" : placeholder} />
+${error}</div>`;
+
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * Hidden error slot (with trailing newline), or "" for fields without rules.
+ */
+function renderError(field: Field | ChildField): string {
+  if (!reportsErrors(field)) return "";
+  return `  <p class="ffd-error" data-ffd-error="${escapeHtml(field.name)}" hidden></p>\n`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Helpers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Escapes text for embedding in a JS template literal.
+ */
+function templateLiteral(value: string): string {
+  return value.replaceAll("\\", "\\\\").replaceAll("`", "\\`").replaceAll("${", "\\${");
+}
+
+function indent(markup: string, spaces: number): string {
+  const pad = " ".repeat(spaces);
+  return markup
+    .split("\n")
+    .map((line) => (line ? `${pad}${line}` : line))
+    .join("\n");
+}
@@ -0,0 +1,246 @@
+// lib/exporters/zod.ts
+import type { Field, FieldCondition, FormDefinition } from "@/lib/form-types";
+import { assertNever } from "@/lib/form-types";
+import { normalizeConditionValue } from "@/lib/conditions";
+import { EMAIL_REGEX, isValidPattern } from "@/lib/validation";
+
+/**
+ * generateZodSchema
+ *
+ * Generates a standalone TypeScript module with a Zod (v4) schema for the
+ * form's submissions, plus the inferred `FormValues` type.
+ *
+ * Semantics mirror generateJsonSchema, so both exports accept the same payloads:
+ * - `required` means the key must be present; optional keys are `.optional()`
+ * - text/textarea -> z.string() with min/max length and pattern
+ * - email -> z.email() with the schema's email format (EMAIL_REGEX), date -> z.iso.date()
+ * - Lengths count code points (a refine), like JSON Schema; z.string().min/max
+ *   would count UTF-16 units
+ * - number -> z.number() (z.int() when rules.integer) with min/max
+ * - select -> z.enum([...option values])
+ * - checkbox -> z.boolean(), or z.literal(true) when required (the schema's
+ *   `const: true`, also under requiredWhen)
+ * - group -> z.array(z.strictObject(...)) with minItems/maxItems
+ * - Unknown keys are rejected (strictObject), like additionalProperties: false
+ * - visibleWhen / requiredWhen become a superRefine step, like the schema's allOf
+ */
+export function generateZodSchema(form: FormDefinition): string {
+  const refinements = form.fields.flatMap((field) => buildRefinement(field, form.fields));
+  const usesIsEmpty = refinements.some((r) => r.includes("isEmpty("));
+
+  const shape = form.fields
+    .map((field) => `    ${propertyKey(field.name)}: ${fieldToZod(field, !isTopLevelRequired(field, form.fields))},`)
+    .join("\n");
+
+  const helpers = usesIsEmpty
+    ? `
+// "Empty" matches the JSON Schema export: missing, null, "" or false.
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === "" || value === false;
+`
+    : "";
+
+  const schema =
+    refinements.length > 0
+      ? `export const formSchema = z
+  .strictObject({
+${shape}
+  })
+  .superRefine((values, ctx) => {
+    const answers: Record<string, unknown> = values;
+
+${refinements.join("\n\n")}
+  });`
+      : `export const formSchema = z.strictObject({
+${shape.replace(/^ {2}/gm, "")}
+});`;
+
+  return `// Generated by Forms For Devs from "${form.title.replace(/"/g, '\\"')}".
+// Validates submissions exactly like the exported JSON Schema.
+import { z } from "zod";
+${helpers}
+${schema}
+
+export type FormValues = z.infer<typeof formSchema>;
+`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Field schemas                                                              */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Zod expression for one field's value.
+ *
+ * The switch is exhaustive: a new FieldType fails to compile here until handled.
+ */
+function fieldToZod(field: Field, optional: boolean): string {
+  const expr = baseZod(field);
+  return optional ? `${expr}.optional()` : expr;
+}
+
+function baseZod(field: Field): string {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email": {
+      const rules = field.rules ?? {};
+      let expr = field.type === "email" ? `z.email({ pattern: ${String(EMAIL_REGEX)} })` : "z.string()";
+
+      if (rules.minLength !== undefined) {
+        expr += `.refine((s) => [...s].length >= ${rules.minLength}, { message: "Must be at least ${rules.minLength} characters" })`;
+      }
+      if (rules.maxLength !== undefined) {
+        expr += `.refine((s) => [...s].length <= ${rules.maxLength}, { message: "Must be at most ${rules.maxLength} characters" })`;
+      }
+      if (rules.pattern && isValidPattern(rules.pattern)) {
+        expr += `.regex(new RegExp(${JSON.stringify(rules.pattern)}, "u"))`;
+      }
+
+      return expr;
+    }
+
+    case "number": {
+      const rules = field.rules ?? {};
+      let expr = rules.integer ? "z.int()" : "z.number()";
+
+      if (rules.min !== undefined) expr += `.min(${rules.min})`;
+      if (rules.max !== undefined) expr += `.max(${rules.max})`;
+
+      return expr;
+    }
+
+    case "date":
+      return "z.iso.date()";
+
+    case "select": {
+      const values = (field.rules?.options ?? []).map((opt) => opt.value);
+      // An empty enum accepts nothing, same as `enum: []` in JSON Schema.
+      return values.length > 0
+        ? `z.enum([${values.map((v) => JSON.stringify(v)).join(", ")}])`
+        : "z.never()";
+    }
+
+    case "checkbox":
+      return field.required ? "z.literal(true)" : "z.boolean()";
+
+    case "group": {
+      const rules = field.rules ?? {};
+      const shape = field.fields
+        .map((child) => `${propertyKey(child.name)}: ${fieldToZod(child, !child.required)}`)
+        .join(", ");
+
+      let expr = `z.array(z.strictObject({ ${shape} }))`;
+
+      // A required group needs at least one item (same as the JSON Schema export).
+      const minItems = field.required ? Math.max(rules.minItems ?? 0, 1) : rules.minItems;
+      if (minItems !== undefined) expr += `.min(${minItems})`;
+      if (rules.maxItems !== undefined) expr += `.max(${rules.maxItems})`;
+
+      return expr;
+    }
+
+    default:
+      return assertNever(field);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Conditions                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * A statically required field is only required at the top level when it has
+ * no (resolvable) visibility condition; otherwise superRefine checks it.
+ */
+function isTopLevelRequired(field: Field, fields: Field[]): boolean {
+  const hasVisibility = field.visibleWhen ? conditionToExpression(field.visibleWhen, fields) !== null : false;
+  return Boolean(field.required) && !hasVisibility;
+}
+
+/**
+ * TypeScript boolean expression for a condition against `answers`.
+ * Returns null for dangling references (the source field no longer exists),
+ * which the JSON Schema export skips as well.
+ */
+function conditionToExpression(condition: FieldCondition, fields: Field[]): string | null {
+  const source = fields.find((f) => f.id === condition.fieldId);
+  if (!source) return null;
+
+  const answer = `answers[${JSON.stringify(source.name)}]`;
+  const value = JSON.stringify(normalizeConditionValue(source, condition.value) ?? null);
+
+  switch (condition.operator) {
+    case "equals":
+      return `${answer} === ${value}`;
+    case "notEquals":
+      return `${answer} !== ${value}`;
+    case "isEmpty":
+      return `isEmpty(${answer})`;
+    case "isNotEmpty":
+      return `!isEmpty(${answer})`;
+    default:
+      return null;
+  }
+}
+
+function addIssue(name: string, message: string, indent: string): string {
+  return `${indent}ctx.addIssue({ code: "custom", path: [${JSON.stringify(name)}], message: ${JSON.stringify(message)} });`;
+}
+
+/**
+ * superRefine statements for one field's visibleWhen / requiredWhen.
+ */
+function buildRefinement(field: Field, fields: Field[]): string[] {
+  const statements: string[] = [];
+  const answer = `answers[${JSON.stringify(field.name)}]`;
+  const visible = field.visibleWhen ? conditionToExpression(field.visibleWhen, fields) : null;
+  const requiredWhen = field.requiredWhen ? conditionToExpression(field.requiredWhen, fields) : null;
+
+  if (visible) {
+    const required = field.required
+      ? ` else if (${answer} === undefined) {
+${addIssue(field.name, "Required", "      ")}
+    }`
+      : "";
+
+    statements.push(`    // ${field.name}: only submitted while visible
+    if (!(${visible})) {
+      if (${answer} !== undefined) {
+${addIssue(field.name, "Must be omitted while the field is hidden", "        ")}
+      }
+    }${required}`);
+  }
+
+  if (requiredWhen && !field.required) {
+    const when = visible ? `(${visible}) && (${requiredWhen})` : requiredWhen;
+
+    statements.push(`    // ${field.name}: conditionally required
+    if (${when} && ${missingExpression(field, answer)}) {
+${addIssue(field.name, "Required", "      ")}
+    }`);
+  }
+
+  return statements;
+}
+
+/**
+ * When a (conditionally) required answer counts as missing: like the
+ * schema's `then`, a checkbox must be ticked and a group needs an item.
+ */
+function missingExpression(field: Field, answer: string): string {
+  if (field.type === "checkbox") return `${answer} !== true`;
+  if (field.type === "group") return `(${answer} === undefined || (Array.isArray(${answer}) && ${answer}.length === 0))`;
+  return `${answer} === undefined`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Helpers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Object keys are emitted bare when they are valid identifiers, quoted otherwise.
+ */
+export function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
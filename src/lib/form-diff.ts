@@ -0,0 +1,416 @@
+// lib/form-diff.ts
+import type { Field, FieldCondition, FormDefinition, FormWebhook, MessageRule, ThemeColors } from "./form-types";
+import { resolveTheme } from "./theme";
+
+/**
+ * Structural diff between two versions of a FormDefinition.
+ *
+ * Fields are matched by their stable `id`, so renames show up as a changed
+ * `name` rather than a remove + add.
+ *
+ * Design note:
+ * - Changes are reported per field property ("label", "rules.minLength", ...)
+ * - Each change is also judged against the generated JSON Schema: it is
+ *   "breaking" when a submission that validated before could be rejected now
+ *   (new required field, narrowed enum, tighter bounds, removed key, ...)
+ * - Judgements are conservative: when a change *might* reject old data
+ *   (e.g. a new condition), it is flagged
+ */
+
+/**
+ * PropertyChange
+ *
+ * One changed property. `breaking` holds the reason when the change can
+ * reject previously valid submissions.
+ */
+export type PropertyChange = {
+  property: string;
+  before: unknown;
+  after: unknown;
+  breaking?: string;
+};
+
+/**
+ * FieldDiff
+ *
+ * `path` is the submission key (`contacts[].phone` for group children).
+ */
+export type FieldDiff =
+  | { kind: "added"; path: string; field: Field; breaking?: string }
+  | { kind: "removed"; path: string; field: Field; breaking?: string }
+  | { kind: "changed"; path: string; before: Field; after: Field; changes: PropertyChange[] };
+
+export type BreakingChange = {
+  path: string;
+  message: string;
+};
+
+export type FormDiff = {
+  /**
+   * Form-level changes (title, description, steps, theme). Never breaking:
+   * none of them reach the JSON Schema's validation keywords.
+   */
+  form: PropertyChange[];
+  fields: FieldDiff[];
+
+  /**
+   * Flattened list of every breaking reason, for a quick summary.
+   */
+  breaking: BreakingChange[];
+};
+
+/* -------------------------------------------------------------------------- */
+/* Helpers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Theme token changes ("theme.mode", "theme.light.primary", ...). A form
+ * without a theme compares as DEFAULT_THEME.
+ */
+function compareTheme(before: FormDefinition, after: FormDefinition): PropertyChange[] {
+  const a = resolveTheme(before);
+  const b = resolveTheme(after);
+  const changes: PropertyChange[] = [];
+
+  for (const key of ["preset", "mode", "fontFamily", "fontSize", "spacing", "radius"] as const) {
+    if (a[key] !== b[key]) changes.push({ property: `theme.${key}`, before: a[key], after: b[key] });
+  }
+  for (const palette of ["light", "dark"] as const) {
+    for (const color of Object.keys(b[palette]) as Array<keyof ThemeColors>) {
+      if (a[palette][color] !== b[palette][color]) {
+        changes.push({ property: `theme.${palette}.${color}`, before: a[palette][color], after: b[palette][color] });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Webhook setting changes ("webhook.url", ...). A form without a webhook
+ * compares as a disabled, empty one; the secret's value is never shown.
+ */
+function compareWebhook(before: FormDefinition, after: FormDefinition): PropertyChange[] {
+  const none: FormWebhook = { enabled: false, url: "", secret: "", headers: [] };
+  const a = before.webhook ?? none;
+  const b = after.webhook ?? none;
+  const changes: PropertyChange[] = [];
+
+  if (a.enabled !== b.enabled) changes.push({ property: "webhook.enabled", before: a.enabled, after: b.enabled });
+  if (a.url !== b.url) changes.push({ property: "webhook.url", before: a.url, after: b.url });
+  if (a.secret !== b.secret) changes.push({ property: "webhook.secret", before: "(hidden)", after: "(changed)" });
+  if (!same(a.headers, b.headers)) {
+    changes.push({
+      property: "webhook.headers",
+      before: a.headers.map((h) => h.name),
+      after: b.headers.map((h) => h.name),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * A lower bound (minLength, min, minItems) tightened if it was added or raised.
+ */
+function raisedLowerBound(before?: number, after?: number): boolean {
+  return after !== undefined && (before === undefined || after > before);
+}
+
+/**
+ * An upper bound (maxLength, max, maxItems) tightened if it was added or lowered.
+ */
+function loweredUpperBound(before?: number, after?: number): boolean {
+  return after !== undefined && (before === undefined || after < before);
+}
+
+/**
+ * Types whose schema is a plain `{ type: "string" }` accept every value of the
+ * other string-based types, so switching *to* them never rejects old data.
+ */
+const STRING_TYPES = new Set<Field["type"]>(["text", "textarea", "email", "date", "select"]);
+
+function isWideningTypeChange(before: Field["type"], after: Field["type"]): boolean {
+  return (after === "text" || after === "textarea") && STRING_TYPES.has(before);
+}
+
+/**
+ * Flat view of a field's rules (every member's rule keys) for comparison
+ * across types.
+ */
+type FlatRules = {
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  options?: Array<{ label: string; value: string }>;
+  minItems?: number;
+  maxItems?: number;
+};
+
+function flatRules(field: Field): FlatRules {
+  return "rules" in field ? (field.rules ?? {}) : {};
+}
+
+function describeCondition(condition?: FieldCondition): string {
+  if (!condition) return "none";
+  const value = condition.value === undefined ? "" : ` ${JSON.stringify(condition.value)}`;
+  return `${condition.fieldId} ${condition.operator}${value}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Field comparison                                                           */
+/* -------------------------------------------------------------------------- */
+
+function compareRules(before: Field, after: Field): PropertyChange[] {
+  const a = flatRules(before);
+  const b = flatRules(after);
+  const changes: PropertyChange[] = [];
+
+  const bound = (
+    key: "minLength" | "maxLength" | "min" | "max" | "minItems" | "maxItems",
+    kind: "lower" | "upper"
+  ) => {
+    const from = a[key];
+    const to = b[key];
+    if (from === to) return;
+
+    const tightened = kind === "lower" ? raisedLowerBound(from, to) : loweredUpperBound(from, to);
+    changes.push({
+      property: `rules.${key}`,
+      before: from,
+      after: to,
+      breaking: tightened ? `${key} tightened to ${to}` : undefined,
+    });
+  };
+
+  bound("minLength", "lower");
+  bound("maxLength", "upper");
+  bound("min", "lower");
+  bound("max", "upper");
+  bound("minItems", "lower");
+  bound("maxItems", "upper");
+
+  if ((a.pattern ?? "") !== (b.pattern ?? "")) {
+    changes.push({
+      property: "rules.pattern",
+      before: a.pattern,
+      after: b.pattern,
+      breaking: b.pattern?.trim() ? "pattern added or changed" : undefined,
+    });
+  }
+
+  if (Boolean(a.integer) !== Boolean(b.integer)) {
+    changes.push({
+      property: "rules.integer",
+      before: a.integer,
+      after: b.integer,
+      breaking: b.integer ? "now restricted to whole numbers" : undefined,
+    });
+  }
+
+  if (!same(a.options, b.options)) {
+    const afterValues = new Set((b.options ?? []).map((o) => o.value));
+    const dropped = (a.options ?? []).map((o) => o.value).filter((v) => !afterValues.has(v));
+
+    changes.push({
+      property: "rules.options",
+      before: a.options,
+      after: b.options,
+      breaking:
+        dropped.length > 0 && after.type === "select"
+          ? `enum narrowed (removed ${dropped.map((v) => JSON.stringify(v)).join(", ")})`
+          : undefined,
+    });
+  }
+
+  return changes;
+}
+
+function compareField(before: Field, after: Field): PropertyChange[] {
+  const changes: PropertyChange[] = [];
+
+  const plain = (property: "label" | "helperText" | "placeholder") => {
+    if ((before[property] ?? "") !== (after[property] ?? "")) {
+      changes.push({ property, before: before[property], after: after[property] });
+    }
+  };
+
+  if (before.name !== after.name) {
+    changes.push({
+      property: "name",
+      before: before.name,
+      after: after.name,
+      breaking: `key renamed from "${before.name}"; the old key is rejected`,
+    });
+  }
+
+  if (before.type !== after.type) {
+    changes.push({
+      property: "type",
+      before: before.type,
+      after: after.type,
+      breaking: isWideningTypeChange(before.type, after.type)
+        ? undefined
+        : `type changed from ${before.type} to ${after.type}`,
+    });
+  }
+
+  plain("label");
+  plain("helperText");
+  plain("placeholder");
+
+  if (Boolean(before.required) !== Boolean(after.required)) {
+    changes.push({
+      property: "required",
+      before: Boolean(before.required),
+      after: Boolean(after.required),
+      breaking: after.required ? "now required" : undefined,
+    });
+  }
+
+  if (!same(before.requiredWhen, after.requiredWhen)) {
+    changes.push({
+      property: "requiredWhen",
+      before: describeCondition(before.requiredWhen),
+      after: describeCondition(after.requiredWhen),
+      breaking: after.requiredWhen ? "new or changed conditional requirement" : undefined,
+    });
+  }
+
+  if (!same(before.visibleWhen, after.visibleWhen)) {
+    // Hidden fields must be absent; an always-visible required field is always required.
+    let breaking: string | undefined;
+    if (after.visibleWhen) breaking = "new or changed visibility condition";
+    else if (after.required) breaking = "now required regardless of visibility";
+
+    changes.push({
+      property: "visibleWhen",
+      before: describeCondition(before.visibleWhen),
+      after: describeCondition(after.visibleWhen),
+      breaking,
+    });
+  }
+
+  return [...changes, ...compareRules(before, after), ...compareMessages(before, after)];
+}
+
+/**
+ * Custom error messages, one change per rule (never breaking: only the text
+ * users see changes).
+ */
+function compareMessages(before: Field, after: Field): PropertyChange[] {
+  const a = before.messages ?? {};
+  const b = after.messages ?? {};
+  const rules = Array.from(new Set([...Object.keys(a), ...Object.keys(b)])) as MessageRule[];
+
+  return rules
+    .filter((rule) => (a[rule] ?? "") !== (b[rule] ?? ""))
+    .map((rule) => ({ property: `messages.${rule}`, before: a[rule], after: b[rule] }));
+}
+
+/**
+ * diffFieldLists
+ *
+ * Matches fields by id and recurses into group children
+ * (child paths are prefixed with `group[].`).
+ */
+function diffFieldLists(before: Field[], after: Field[], prefix = ""): FieldDiff[] {
+  const beforeById = new Map(before.map((f) => [f.id, f]));
+  const afterIds = new Set(after.map((f) => f.id));
+  const diffs: FieldDiff[] = [];
+
+  for (const field of after) {
+    const prev = beforeById.get(field.id);
+    const path = `${prefix}${field.name}`;
+
+    if (!prev) {
+      let breaking: string | undefined;
+      if (field.required) breaking = "new required field";
+      else if (field.requiredWhen) breaking = "new conditionally required field";
+
+      diffs.push({ kind: "added", path, field, breaking });
+      continue;
+    }
+
+    const changes = compareField(prev, field);
+    if (changes.length > 0) diffs.push({ kind: "changed", path, before: prev, after: field, changes });
+
+    if (prev.type === "group" || field.type === "group") {
+      const prevChildren = prev.type === "group" ? prev.fields : [];
+      const nextChildren = field.type === "group" ? field.fields : [];
+      diffs.push(...diffFieldLists(prevChildren, nextChildren, `${path}[].`));
+    }
+  }
+
+  for (const field of before) {
+    if (afterIds.has(field.id)) continue;
+    diffs.push({
+      kind: "removed",
+      path: `${prefix}${field.name}`,
+      field,
+      breaking: "field removed; submissions that still send it are rejected",
+    });
+  }
+
+  return diffs;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Public API                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * diffForms
+ *
+ * Compares `before` -> `after` and collects breaking reasons.
+ */
+export function diffForms(before: FormDefinition, after: FormDefinition): FormDiff {
+  const form: PropertyChange[] = [];
+
+  if (before.title !== after.title) {
+    form.push({ property: "title", before: before.title, after: after.title });
+  }
+  if ((before.description ?? "") !== (after.description ?? "")) {
+    form.push({ property: "description", before: before.description, after: after.description });
+  }
+  if (!same(before.steps ?? [], after.steps ?? [])) {
+    form.push({
+      property: "steps",
+      before: (before.steps ?? []).map((s) => s.title),
+      after: (after.steps ?? []).map((s) => s.title),
+    });
+  }
+  form.push(...compareTheme(before, after));
+  form.push(...compareWebhook(before, after));
+
+  const fields = diffFieldLists(before.fields, after.fields);
+  const breaking: BreakingChange[] = [];
+
+  for (const diff of fields) {
+    if (diff.kind === "changed") {
+      for (const change of diff.changes) {
+        if (change.breaking) breaking.push({ path: diff.path, message: change.breaking });
+      }
+    } else if (diff.breaking) {
+      breaking.push({ path: diff.path, message: diff.breaking });
+    }
+  }
+
+  return { form, fields, breaking };
+}
+
+/**
+ * isEmptyDiff
+ *
+ * True when the two versions are equivalent for the Builder's purposes.
+ */
+export function isEmptyDiff(diff: FormDiff): boolean {
+  return diff.form.length === 0 && diff.fields.length === 0;
+}
@@ -0,0 +1,103 @@
+// lib/form-library.ts
+import type { FormDefinition } from "./form-types";
+import {
+  CURRENT_FORM_VERSION,
+  hasForm,
+  loadForm,
+  saveFormToStorage,
+  setSelectedFormId,
+} from "./storage";
+
+/**
+ * Form library operations.
+ *
+ * Thin layer over storage.ts that builds new FormDefinitions
+ * (fresh ids, titles, timestamps) and persists them.
+ *
+ * Design note:
+ * - Operations that add a form (create, duplicate, import) also select it,
+ *   so the caller can open it in Studio straight away; rename does not
+ * - Operations on forms that can't be loaded return null instead of throwing
+ */
+
+function nowISO(): string {
+  return new Date().toISOString();
+}
+
+/**
+ * makeFormId
+ *
+ * Lightweight unique id, retried until it doesn't collide with the library.
+ * MVP-safe (Math.random). For production, prefer crypto.randomUUID().
+ */
+export function makeFormId(): string {
+  let id: string;
+  do {
+    id = `form_${Math.random().toString(36).slice(2, 9)}`;
+  } while (hasForm(id));
+  return id;
+}
+
+/**
+ * createForm
+ *
+ * Adds a new form to the library.
+ * With a template, its fields/steps are copied under a new id;
+ * without one, the form starts empty.
+ */
+export function createForm(template?: FormDefinition): FormDefinition {
+  const now = nowISO();
+
+  const form: FormDefinition = {
+    ...(template ?? { title: "Untitled form", fields: [] }),
+    id: makeFormId(),
+    version: CURRENT_FORM_VERSION,
+    createdAtISO: now,
+    updatedAtISO: now,
+  };
+
+  saveFormToStorage(form);
+  setSelectedFormId(form.id);
+  return form;
+}
+
+/**
+ * duplicateForm
+ *
+ * Copies a library form under a new id, titled "Copy of …".
+ * Field ids are kept: they only need to be unique within a form.
+ */
+export function duplicateForm(id: string): FormDefinition | null {
+  const loaded = loadForm(id);
+  if (loaded.status !== "loaded") return null;
+
+  return createForm({ ...loaded.form, title: `Copy of ${loaded.form.title}` });
+}
+
+/**
+ * renameForm
+ *
+ * Updates a library form's title. Blank titles are rejected (returns null).
+ */
+export function renameForm(id: string, title: string): FormDefinition | null {
+  const trimmed = title.trim();
+  const loaded = loadForm(id);
+  if (!trimmed || loaded.status !== "loaded") return null;
+
+  const form = { ...loaded.form, title: trimmed, updatedAtISO: nowISO() };
+  saveFormToStorage(form);
+  return form;
+}
+
+/**
+ * importForm
+ *
+ * Adds an already-validated form (e.g. from a Form JSON file) to the library.
+ * Keeps its id unless that id is taken, so re-importing never overwrites work.
+ */
+export function importForm(form: FormDefinition): FormDefinition {
+  const next = hasForm(form.id) ? { ...form, id: makeFormId() } : form;
+  saveFormToStorage(next);
+  setSelectedFormId(next.id);
+  return next;
+}
@@ -0,0 +1,340 @@
+// lib/form-parser.ts
+import { z } from "zod";
+import type { ChildField, Field, FieldCondition, FormDefinition } from "./form-types";
+
+/**
+ * Runtime parser for FormDefinition JSON.
+ *
+ * localStorage and imported JSON are untyped; this module validates them with
+ * a Zod schema that mirrors `form-types.ts` and narrows them into the `Field`
+ * discriminated union.
+ *
+ * Design note:
+ * - Structure is strict: wrong primitive types, unknown field types or
+ *   missing ids reject the input
+ * - Keys that don't apply to a type (e.g. `minLength` on a number field) are
+ *   stripped rather than reported, so switching a field's type in the Builder
+ *   stays lossless for everything that still applies
+ * - Failures come back as path-aware issues
+ *   (e.g. "fields[3].rules.options[1].value must be a string")
+ *   so the UI can tell the user exactly what is wrong instead of crashing
+ * - Parsed forms are normalized once here (see withCheckboxConditionValues)
+ *   rather than by the editors that display them
+ */
+
+/* -------------------------------------------------------------------------- */
+/* Schema                                                                     */
+/* -------------------------------------------------------------------------- */
+
+const conditionSchema = z.object({
+  fieldId: z.string(),
+  operator: z.enum(["equals", "notEquals", "isEmpty", "isNotEmpty"]),
+  value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+});
+
+// One optional template per MessageRule; unknown rules are stripped.
+const messagesSchema = z.object({
+  required: z.string().optional(),
+  email: z.string().optional(),
+  date: z.string().optional(),
+  minLength: z.string().optional(),
+  maxLength: z.string().optional(),
+  pattern: z.string().optional(),
+  number: z.string().optional(),
+  integer: z.string().optional(),
+  min: z.string().optional(),
+  max: z.string().optional(),
+  option: z.string().optional(),
+  minItems: z.string().optional(),
+  maxItems: z.string().optional(),
+});
+
+// `name` may be blank: the Builder keeps half-typed names and flags them itself.
+// Non-blank names must be unique among their siblings (see duplicateNameIssues).
+const baseFieldShape = {
+  id: z.string().min(1),
+  name: z.string(),
+  label: z.string(),
+  required: z.boolean().optional(),
+  helperText: z.string().optional(),
+  placeholder: z.string().optional(),
+  visibleWhen: conditionSchema.optional(),
+  requiredWhen: conditionSchema.optional(),
+  messages: messagesSchema.optional(),
+};
+
+const textRulesSchema = z.object({
+  minLength: z.number().optional(),
+  maxLength: z.number().optional(),
+  pattern: z.string().optional(),
+});
+
+const numberRulesSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+  integer: z.boolean().optional(),
+});
+
+// A select without options is still a valid (if useless) field.
+const selectRulesSchema = z.object({
+  options: z.array(z.object({ label: z.string(), value: z.string() })).default([]),
+});
+
+const groupRulesSchema = z.object({
+  minItems: z.number().int().min(0).optional(),
+  maxItems: z.number().int().min(0).optional(),
+});
+
+const childFieldMembers = [
+  z.object({ ...baseFieldShape, type: z.literal("text"), rules: textRulesSchema.optional() }),
+  z.object({ ...baseFieldShape, type: z.literal("textarea"), rules: textRulesSchema.optional() }),
+  z.object({ ...baseFieldShape, type: z.literal("email"), rules: textRulesSchema.optional() }),
+  z.object({ ...baseFieldShape, type: z.literal("number"), rules: numberRulesSchema.optional() }),
+  z.object({ ...baseFieldShape, type: z.literal("date") }),
+  z.object({ ...baseFieldShape, type: z.literal("select"), rules: selectRulesSchema.optional() }),
+  z.object({ ...baseFieldShape, type: z.literal("checkbox") }),
+] as const;
+
+// Children are flat: a nested group fails the discriminator check.
+const childFieldSchema: z.ZodType<ChildField> = z.discriminatedUnion("type", [...childFieldMembers]);
+
+/**
+ * fieldSchema
+ *
+ * Zod schema for a single `Field` (any union member).
+ */
+export const fieldSchema: z.ZodType<Field> = z.discriminatedUnion("type", [
+  ...childFieldMembers,
+  z.object({
+    ...baseFieldShape,
+    type: z.literal("group"),
+    rules: groupRulesSchema.optional(),
+    fields: z.array(childFieldSchema).default([]),
+  }),
+]);
+
+const stepSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  fieldIds: z.array(z.string()),
+});
+
+const themeColorsSchema = z.object({
+  primary: z.string(),
+  primaryText: z.string(),
+  text: z.string(),
+  muted: z.string(),
+  background: z.string(),
+  surface: z.string(),
+  border: z.string(),
+  error: z.string(),
+});
+
+const themeSchema = z.object({
+  preset: z.string().optional(),
+  mode: z.enum(["light", "dark", "auto"]),
+  light: themeColorsSchema,
+  dark: themeColorsSchema,
+  fontFamily: z.string(),
+  fontSize: z.number().min(1),
+  spacing: z.number().nonnegative(),
+  radius: z.number().nonnegative(),
+});
+
+// Lenient on purpose: the Studio saves webhook settings while they are typed.
+const webhookSchema = z.object({
+  enabled: z.boolean(),
+  url: z.string(),
+  secret: z.string(),
+  headers: z.array(z.object({ name: z.string(), value: z.string() })),
+});
+
+/**
+ * formDefinitionSchema
+ *
+ * Zod schema for a whole `FormDefinition`.
+ */
+export const formDefinitionSchema: z.ZodType<FormDefinition> = z
+  .object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().optional(),
+    version: z.number(),
+    fields: z.array(fieldSchema),
+    steps: z.array(stepSchema).optional(),
+    theme: themeSchema.optional(),
+    webhook: webhookSchema.optional(),
+    createdAtISO: z.string(),
+    updatedAtISO: z.string(),
+  })
+  .superRefine((form, ctx) => {
+    const issues = [
+      ...duplicateNameIssues(form.fields, ["fields"]),
+      ...form.fields.flatMap((field, i) =>
+        field.type === "group" ? duplicateNameIssues(field.fields, ["fields", i, "fields"]) : []
+      ),
+    ];
+    for (const issue of issues) ctx.addIssue({ code: "custom", ...issue });
+  });
+
+/**
+ * duplicateNameIssues
+ *
+ * One issue per field whose (non-blank) name an earlier sibling already uses;
+ * names are submission keys, so the later field's answers would overwrite
+ * the earlier one's.
+ */
+function duplicateNameIssues(
+  fields: ReadonlyArray<Field | ChildField>,
+  path: Array<string | number>
+): Array<{ path: Array<string | number>; message: string }> {
+  const firstIndex = new Map<string, number>();
+
+  return fields.flatMap((field, i) => {
+    if (!field.name.trim()) return [];
+
+    const first = firstIndex.get(field.name);
+    if (first === undefined) {
+      firstIndex.set(field.name, i);
+      return [];
+    }
+    return [{ path: [...path, i, "name"], message: `duplicates ${formatIssuePath([...path, first, "name"])}` }];
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/* Results                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * FormParseIssue
+ *
+ * One problem found while parsing, located by a JS-style path
+ * (`fields[3].rules.options[1].value`; empty for the document root).
+ */
+export type FormParseIssue = {
+  path: string;
+  message: string;
+};
+
+/**
+ * FormParseResult
+ *
+ * Either the narrowed FormDefinition or the list of issues that prevented it.
+ */
+export type FormParseResult =
+  | { ok: true; form: FormDefinition }
+  | { ok: false; issues: FormParseIssue[] };
+
+/**
+ * formatIssuePath
+ *
+ * ["fields", 3, "rules"] -> "fields[3].rules"
+ */
+export function formatIssuePath(path: ReadonlyArray<PropertyKey>): string {
+  return path.reduce<string>((out, key) => {
+    if (typeof key === "number") return `${out}[${key}]`;
+    return out ? `${out}.${String(key)}` : String(key);
+  }, "");
+}
+
+function withArticle(noun: string): string {
+  return /^[aeiou]/.test(noun) ? `an ${noun}` : `a ${noun}`;
+}
+
+/**
+ * describeIssue
+ *
+ * Rewrites Zod's generic messages into short, path-friendly predicates
+ * ("must be a string", "is required", ...).
+ */
+function describeIssue(issue: z.core.$ZodIssue): string {
+  switch (issue.code) {
+    case "invalid_type":
+      // `input` is present because we parse with `reportInput: true`.
+      if (issue.input === undefined) return "is required";
+      if (issue.expected === "int") return "must be a whole number";
+      return `must be ${withArticle(issue.expected)}`;
+
+    case "invalid_value":
+      return `must be one of ${issue.values.map((v) => JSON.stringify(v)).join(", ")}`;
+
+    case "invalid_union":
+      // Discriminator mismatch: the path already ends in `type`.
+      return "is not a supported field type";
+
+    case "too_small":
+      if (issue.origin === "string") return "must not be empty";
+      return `must be at least ${String(issue.minimum)}`;
+
+    default:
+      return issue.message;
+  }
+}
+
+function toIssues(error: z.ZodError): FormParseIssue[] {
+  return error.issues.map((issue) => ({
+    path: formatIssuePath(issue.path),
+    message: describeIssue(issue),
+  }));
+}
+
+/**
+ * formatParseIssue
+ *
+ * Human-readable single line for display: "fields[3].label must be a string".
+ */
+export function formatParseIssue(issue: FormParseIssue): string {
+  return issue.path ? `${issue.path} ${issue.message}` : `Form ${issue.message}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Entry points                                                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * parseField
+ *
+ * Narrows one raw field into its `Field` member. Returns null when invalid.
+ * Used by the Builder to re-narrow a patched field.
+ */
+export function parseField(raw: unknown): Field | null {
+  const result = fieldSchema.safeParse(raw);
+  return result.success ? result.data : null;
+}
+
+/**
+ * parseFormDefinition
+ *
+ * Validates already-decoded JSON as a FormDefinition.
+ */
+export function parseFormDefinition(raw: unknown): FormParseResult {
+  const result = formDefinitionSchema.safeParse(raw, { reportInput: true });
+  return result.success
+    ? { ok: true, form: withCheckboxConditionValues(result.data) }
+    : { ok: false, issues: toIssues(result.error) };
+}
+
+/**
+ * withCheckboxConditionValues
+ *
+ * Conditions on a checkbox saved without a value (before the Studio stored
+ * one up front) get `false`, the "Unchecked" their value control shows.
+ */
+function withCheckboxConditionValues(form: FormDefinition): FormDefinition {
+  const checkboxIds = new Set(form.fields.filter((f) => f.type === "checkbox").map((f) => f.id));
+  const normalize = (condition: FieldCondition | undefined) =>
+    condition && condition.value === undefined && checkboxIds.has(condition.fieldId)
+      ? { ...condition, value: false }
+      : condition;
+
+  return {
+    ...form,
+    fields: form.fields.map((field) => {
+      const visibleWhen = normalize(field.visibleWhen);
+      const requiredWhen = normalize(field.requiredWhen);
+      if (visibleWhen === field.visibleWhen && requiredWhen === field.requiredWhen) return field;
+      return { ...field, visibleWhen, requiredWhen };
+    }),
+  };
+}
@@ -8,16 +8,37 @@
  * Design note:
  * - This union drives rendering (FormRenderer)
  * - It also influences JSON Schema generation
- * - New types can be added incrementally without breaking existing forms
+ * - Each type has a matching member in the `Field` discriminated union below;
+ *   adding a type here fails to compile until every exhaustive switch handles it
  */
-export type FieldType =
-  | "text"
-  | "textarea"
-  | "email"
-  | "number"
-  | "date"
-  | "select"
-  | "checkbox";
+export type FieldType = Field["type"];
+
+/**
+ * ConditionOperator
+ *
+ * Comparisons supported by field conditions.
+ * - equals / notEquals compare the referenced answer against `value`
+ * - isEmpty / isNotEmpty ignore `value` ("" / false / missing count as empty)
+ */
+export type ConditionOperator = "equals" | "notEquals" | "isEmpty" | "isNotEmpty";
+
+/**
+ * FieldCondition
+ *
+ * Declarative rule evaluated against another field's current answer.
+ *
+ * Design note:
+ * - `fieldId` references the other field by its stable `id` (not `name`),
+ *   so renaming a key in the Builder does not break the condition.
+ * - `value` is stored in the referenced field's native type
+ *   (number for number fields, boolean for checkboxes, string otherwise),
+ *   which lets the JSON Schema generator emit it as a `const` verbatim.
+ */
+export type FieldCondition = {
+  fieldId: string;
+  operator: ConditionOperator;
+  value?: string | number | boolean;
+};
 
 /**
  * BaseField
@@ -55,11 +76,6 @@ export type BaseField = {
    */
   label: string;
 
-  /**
-   * Determines rendering behavior and rule applicability.
-   */
-  type: FieldType;
-
   /**
    * If true, the user must provide a value.
    */
@@ -74,8 +90,61 @@ export type BaseField = {
    * Optional input placeholder text.
    */
   placeholder?: string;
+
+  /**
+   * Optional visibility rule.
+   * When set, the field is only shown (and only submitted) while it holds.
+   */
+  visibleWhen?: FieldCondition;
+
+  /**
+   * Optional conditional requiredness.
+   * While it holds, the field is required even if `required` is false.
+   */
+  requiredWhen?: FieldCondition;
+
+  /**
+   * Optional custom error messages, per rule (see FieldMessages).
+   * Rules without an entry use the built-in English message.
+   */
+  messages?: FieldMessages;
 };
 
+/**
+ * MessageRule
+ *
+ * Rules whose error message can be customised. They match validateSubmission's
+ * error codes (minus `type` / `unexpected`, which only malformed API bodies
+ * produce):
+ * - email, date, number, option: the value's format, checked on every field
+ *   of that type
+ * - the rest: `required` and the bounds in the field's rules
+ */
+export type MessageRule =
+  | "required"
+  | "email"
+  | "date"
+  | "minLength"
+  | "maxLength"
+  | "pattern"
+  | "number"
+  | "integer"
+  | "min"
+  | "max"
+  | "option"
+  | "minItems"
+  | "maxItems";
+
+/**
+ * FieldMessages
+ *
+ * Message templates keyed by rule. `{label}` is replaced with the field's
+ * label, `{min}` / `{max}` with the field's lower / upper bound (length,
+ * value or item count, whichever the field type has), e.g.
+ * `{ minLength: "{label} needs {min}+ characters." }`.
+ */
+export type FieldMessages = Partial<Record<MessageRule, string>>;
+
 /**
  * TextRules
  *
@@ -124,28 +193,60 @@ export type SelectRules = {
   options: Array<{ label: string; value: string }>;
 };
 
+/**
+ * GroupRules
+ *
+ * Item-count constraints for repeatable groups ("add another" sections).
+ * Exported into JSON Schema as minItems / maxItems.
+ */
+export type GroupRules = {
+  minItems?: number;
+  maxItems?: number;
+};
+
 /**
  * FieldRules
  *
  * Union of all rule types.
  *
- * Design decision:
- * We use a simple union instead of discriminated unions for MVP flexibility.
- * In a future version, this could evolve into a stricter discriminated model:
+ * Used where rules are edited generically (e.g. the Builder's rules panel).
+ * Consumers that read rules should narrow on `field.type` instead, which
+ * gives them the exact rule shape for that type.
+ */
+export type FieldRules = TextRules | NumberRules | SelectRules | GroupRules;
+
+/**
+ * Field members
  *
- *   type Field =
- *     | { type: "text"; rules?: TextRules }
- *     | { type: "number"; rules?: NumberRules }
- *     ...
+ * One member per FieldType, discriminated on `type`.
+ * `rules` is only present on types that support rules, so reading e.g.
+ * `rules.options` on a text field is a compile error.
+ */
+export type TextField = BaseField & { type: "text"; rules?: TextRules };
+export type TextareaField = BaseField & { type: "textarea"; rules?: TextRules };
+export type EmailField = BaseField & { type: "email"; rules?: TextRules };
+export type NumberField = BaseField & { type: "number"; rules?: NumberRules };
+export type DateField = BaseField & { type: "date" };
+export type SelectField = BaseField & { type: "select"; rules?: SelectRules };
+export type CheckboxField = BaseField & { type: "checkbox" };
+
+/**
+ * GroupField
  *
- * For now, flexibility > strict exhaustiveness.
+ * Repeatable group ("add another" section).
+ * Each submitted item is an object keyed by the children's `name`.
+ * Children are flat: nested groups and child conditions are not supported.
  */
-export type FieldRules = TextRules | NumberRules | SelectRules;
+export type GroupField = BaseField & {
+  type: "group";
+  rules?: GroupRules;
+  fields: ChildField[];
+};
 
 /**
  * Field
  *
- * Combines the BaseField with optional rules.
+ * Discriminated union of every field member.
  *
  * This is the atomic building block of:
  * - Builder
@@ -153,8 +254,139 @@ export type FieldRules = TextRules | NumberRules | SelectRules;
  * - JSON Schema generator
  * - React export generator
  */
-export type Field = BaseField & {
-  rules?: FieldRules;
+export type Field =
+  | TextField
+  | TextareaField
+  | EmailField
+  | NumberField
+  | DateField
+  | SelectField
+  | CheckboxField
+  | GroupField;
+
+/**
+ * ChildField
+ *
+ * Fields allowed inside a repeatable group (everything except another group).
+ */
+export type ChildField = Exclude<Field, GroupField>;
+
+/**
+ * Text-like fields share TextRules (minLength / maxLength / pattern).
+ */
+export type TextLikeField = TextField | TextareaField | EmailField;
+
+export function isTextLikeField(field: Field): field is TextLikeField {
+  return field.type === "text" || field.type === "textarea" || field.type === "email";
+}
+
+/**
+ * assertNever
+ *
+ * Exhaustiveness guard for `switch (field.type)`.
+ * If a new FieldType is added, every switch ending in `assertNever(field)`
+ * stops compiling until the new case is handled.
+ */
+export function assertNever(value: never): never {
+  throw new Error(`Unhandled field: ${JSON.stringify(value)}`);
+}
+
+/**
+ * FormStep
+ *
+ * A page in a multi-step (wizard) form.
+ *
+ * Design note:
+ * - Steps reference fields by `id` instead of nesting them, so the flat
+ *   `fields` array stays the single source of truth for schema generation
+ *   and submission structure.
+ * - `fieldIds` is ordered; the Builder keeps it in sync with `fields` order.
+ */
+export type FormStep = {
+  id: string;
+  title: string;
+  fieldIds: string[];
+};
+
+/**
+ * ThemeColors
+ *
+ * One color palette of a FormTheme. Values are CSS colors (hex in presets).
+ */
+export type ThemeColors = {
+  /** Submit/Next buttons and focus accents. */
+  primary: string;
+  /** Text on primary buttons. */
+  primaryText: string;
+  text: string;
+  /** Descriptions, helper text and step progress. */
+  muted: string;
+  /** Form background. */
+  background: string;
+  /** Inputs, group items and secondary buttons. */
+  surface: string;
+  border: string;
+  error: string;
+};
+
+/**
+ * ThemeMode
+ *
+ * Which palette applies: always light, always dark, or "auto"
+ * (follows `prefers-color-scheme`).
+ */
+export type ThemeMode = "light" | "dark" | "auto";
+
+/**
+ * FormTheme
+ *
+ * Design tokens for the rendered form. Exported CSS turns them into
+ * `--ffd-*` custom properties; the Preview applies the same variables.
+ *
+ * Design note:
+ * - Both palettes are always stored, so switching `mode` is lossless
+ * - Sizes are plain pixel numbers (font size, spacing between fields, radius)
+ * - `preset` is the id of the built-in preset the theme matches; the Studio
+ *   clears it on any manual edit (the theme is then "Custom")
+ */
+export type FormTheme = {
+  preset?: string;
+  mode: ThemeMode;
+  light: ThemeColors;
+  dark: ThemeColors;
+  fontFamily: string;
+  fontSize: number;
+  spacing: number;
+  radius: number;
+};
+
+/**
+ * WebhookHeader
+ *
+ * Extra request header sent with every webhook delivery.
+ */
+export type WebhookHeader = {
+  name: string;
+  value: string;
+};
+
+/**
+ * FormWebhook
+ *
+ * Where the submission API pushes accepted submissions.
+ *
+ * Design note:
+ * - Stored with the form (and published with it), so each form has its own
+ * - Values are kept as typed, even when incomplete; webhookIssues reports
+ *   what blocks delivery
+ * - `secret` signs every delivery (HMAC-SHA256); it never leaves the app
+ *   in the form JSON export
+ */
+export type FormWebhook = {
+  enabled: boolean;
+  url: string;
+  secret: string;
+  headers: WebhookHeader[];
 };
 
 /**
@@ -202,6 +434,24 @@ export type FormDefinition = {
    */
   fields: Field[];
 
+  /**
+   * Optional wizard steps.
+   * When absent or empty, the form renders as a single page.
+   * Fields not assigned to any step are shown on the last step.
+   */
+  steps?: FormStep[];
+
+  /**
+   * Optional theme. When absent, exports and the Preview use DEFAULT_THEME
+   * (the original hard-coded look).
+   */
+  theme?: FormTheme;
+
+  /**
+   * Optional webhook for accepted submissions (submission API only).
+   */
+  webhook?: FormWebhook;
+
   /**
    * Metadata timestamps (ISO format for portability).
    */
@@ -0,0 +1,117 @@
+// lib/history.ts
+
+/**
+ * Undo/redo history.
+ *
+ * Pure, framework-free state container: every function returns a new History
+ * and never mutates its input, so it can live directly in React state.
+ *
+ * Design note:
+ * - Consecutive pushes with the same `coalesceKey` inside COALESCE_WINDOW_MS
+ *   replace the present instead of adding a step, so typing "Email address"
+ *   into a label is one undo step, not thirteen
+ * - Undo/redo break coalescing: the next edit always starts a new step
+ * - The past is capped at HISTORY_LIMIT entries to bound memory
+ */
+
+export const HISTORY_LIMIT = 100;
+export const COALESCE_WINDOW_MS = 1000;
+
+export type History<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+
+  /**
+   * Coalescing bookkeeping for the most recent push.
+   */
+  lastKey: string | null;
+  lastAt: number;
+};
+
+/**
+ * createHistory
+ *
+ * Starts a history with nothing to undo or redo.
+ */
+export function createHistory<T>(present: T): History<T> {
+  return { past: [], present, future: [], lastKey: null, lastAt: 0 };
+}
+
+/**
+ * pushHistory
+ *
+ * Records a new present state and clears the redo stack.
+ *
+ * `coalesceKey` identifies the edit (e.g. "field:f1:label"); pass nothing
+ * for discrete actions such as add/delete/move, which are always their own step.
+ */
+export function pushHistory<T>(
+  history: History<T>,
+  next: T,
+  options: { coalesceKey?: string; now?: number } = {}
+): History<T> {
+  const now = options.now ?? Date.now();
+  const key = options.coalesceKey ?? null;
+
+  const coalesce =
+    key !== null && key === history.lastKey && now - history.lastAt <= COALESCE_WINDOW_MS;
+
+  if (coalesce) {
+    return { ...history, present: next, future: [], lastAt: now };
+  }
+
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    lastKey: key,
+    lastAt: now,
+  };
+}
+
+/**
+ * canUndo / canRedo
+ */
+export function canUndo<T>(history: History<T>): boolean {
+  return history.past.length > 0;
+}
+
+export function canRedo<T>(history: History<T>): boolean {
+  return history.future.length > 0;
+}
+
+/**
+ * undo
+ *
+ * Steps back once. Returns the same object when there is nothing to undo,
+ * so callers can cheaply detect a no-op.
+ */
+export function undo<T>(history: History<T>): History<T> {
+  if (!canUndo(history)) return history;
+
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+    lastKey: null,
+    lastAt: 0,
+  };
+}
+
+/**
+ * redo
+ *
+ * Steps forward once. Returns the same object when there is nothing to redo.
+ */
+export function redo<T>(history: History<T>): History<T> {
+  if (!canRedo(history)) return history;
+
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+    lastKey: null,
+    lastAt: 0,
+  };
+}
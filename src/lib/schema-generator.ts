@@ -1,5 +1,9 @@
 // lib/schema-generator.ts
-import type { Field, FormDefinition } from "./form-types";
+import type { ChildField, Field, FieldCondition, FormDefinition, MessageRule } from "./form-types";
+import { assertNever } from "./form-types";
+import { normalizeConditionValue } from "./conditions";
+import { isValidPattern } from "./validation";
+import { customRuleMessage, messageRules } from "./validation-messages";
 
 /**
  * Minimal JSON Schema types used by this project.
@@ -15,13 +19,74 @@ export type JsonSchema = {
   additionalProperties: boolean;
   properties: Record<string, JsonSchemaProperty>;
   required?: string[];
+  allOf?: ConditionalSchema[];
+  errorMessage?: RequiredMessages;
+};
+
+/**
+ * Custom error messages, as the `errorMessage` extension keyword (the
+ * ajv-errors shape): on a property, keyed by the keyword that fails; on an
+ * object, missing keys under `required`, keyed by property name.
+ */
+type KeywordMessages = Record<string, string>;
+type RequiredMessages = { required: Record<string, string> };
+
+/**
+ * ERROR_MESSAGE_KEYWORDS
+ *
+ * The schema keyword that fails along with each rule. `required` is not
+ * listed: a missing key fails the parent object's `required`.
+ */
+export const ERROR_MESSAGE_KEYWORDS: Record<Exclude<MessageRule, "required">, string> = {
+  email: "format",
+  date: "format",
+  minLength: "minLength",
+  maxLength: "maxLength",
+  pattern: "pattern",
+  number: "type",
+  integer: "type",
+  min: "minimum",
+  max: "maximum",
+  option: "enum",
+  minItems: "minItems",
+  maxItems: "maxItems",
+};
+
+/**
+ * Predicate subschemas used inside `if` / `then` / `else`.
+ * `false` as a property schema forbids the key (used for hidden fields).
+ */
+type SchemaPredicate = {
+  properties?: Record<string, PredicateProperty | false>;
+  required?: string[];
+  not?: SchemaPredicate;
+  allOf?: SchemaPredicate[];
+};
+
+type ConditionValue = string | number | boolean | null;
+
+type PredicateProperty = {
+  type?: "array";
+  const?: ConditionValue;
+  enum?: ConditionValue[];
+  not?: PredicateProperty;
+  minItems?: number;
+};
+
+/**
+ * One conditional clause emitted per field condition (draft 2020-12 if/then/else).
+ */
+type ConditionalSchema = {
+  if: SchemaPredicate;
+  then?: SchemaPredicate;
+  else?: SchemaPredicate;
 };
 
 /**
  * Property schemas we emit for fields.
  * (This is the value type inside the schema's `properties` object.)
  */
-type JsonSchemaProperty = StringSchema | NumberSchema | BooleanSchema;
+type JsonSchemaProperty = StringSchema | NumberSchema | BooleanSchema | ArraySchema;
 
 type StringSchema = {
   type: "string";
@@ -30,53 +95,37 @@ type StringSchema = {
   maxLength?: number;
   pattern?: string;
   enum?: string[];
+  errorMessage?: KeywordMessages;
 };
 
 type NumberSchema = {
   type: "number" | "integer";
   minimum?: number;
   maximum?: number;
+  errorMessage?: KeywordMessages;
 };
 
 type BooleanSchema = {
   type: "boolean";
+  const?: true;
+  errorMessage?: KeywordMessages;
 };
 
-/**
- * Small helpers to safely read unknown rule values without using `any`
- * (and without depending on FieldRules' exact shape).
- */
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === "object" && value !== null;
-}
-
-function readNumber(obj: Record<string, unknown>, key: string): number | undefined {
-  const v = obj[key];
-  return typeof v === "number" ? v : undefined;
-}
-
-function readBoolean(obj: Record<string, unknown>, key: string): boolean | undefined {
-  const v = obj[key];
-  return typeof v === "boolean" ? v : undefined;
-}
-
-function readString(obj: Record<string, unknown>, key: string): string | undefined {
-  const v = obj[key];
-  return typeof v === "string" ? v : undefined;
-}
-
-function readOptionsValues(rules: unknown): string[] {
-  // Expected shape: { options: Array<{ label: string; value: string }> }
-  if (!isRecord(rules)) return [];
-
-  const rawOptions = rules.options;
-  if (!Array.isArray(rawOptions)) return [];
+type ObjectSchema = {
+  type: "object";
+  additionalProperties: boolean;
+  properties: Record<string, JsonSchemaProperty>;
+  required?: string[];
+  errorMessage?: RequiredMessages;
+};
 
-  // Only keep valid string `value`s
-  return rawOptions
-    .map((opt: unknown) => (isRecord(opt) ? opt.value : undefined))
-    .filter((v: unknown): v is string => typeof v === "string");
-}
+type ArraySchema = {
+  type: "array";
+  items: ObjectSchema;
+  minItems?: number;
+  maxItems?: number;
+  errorMessage?: KeywordMessages;
+};
 
 /**
  * Converts a single Field definition into the corresponding JSON Schema property.
@@ -86,27 +135,34 @@ function readOptionsValues(rules: unknown): string[] {
  * - `email` uses format: "email"
  * - `date` uses format: "date"
  * - `select` becomes enum: [...] based on option values
+ * - a required `checkbox` must be ticked (const: true)
+ * - `group` becomes an array of objects built from its child fields
+ * - custom messages are added as `errorMessage` (see keywordMessages)
  */
 function fieldToJsonSchema(field: Field): JsonSchemaProperty {
-  const rules = field.rules; // unknown shape (by design for MVP)
+  const s = fieldTypeSchema(field);
+  const errorMessage = keywordMessages(field);
+  return errorMessage ? { ...s, errorMessage } : s;
+}
 
+/**
+ * The field's type and rule keywords.
+ *
+ * The switch is exhaustive: a new FieldType fails to compile here until handled.
+ */
+function fieldTypeSchema(field: Field): JsonSchemaProperty {
   switch (field.type) {
     case "text":
     case "textarea":
     case "email": {
       const s: StringSchema = { type: "string" };
+      const rules = field.rules ?? {};
 
       if (field.type === "email") s.format = "email";
 
-      if (isRecord(rules)) {
-        const minLength = readNumber(rules, "minLength");
-        const maxLength = readNumber(rules, "maxLength");
-        const pattern = readString(rules, "pattern");
-
-        if (minLength !== undefined) s.minLength = minLength;
-        if (maxLength !== undefined) s.maxLength = maxLength;
-        if (pattern && pattern.trim() !== "") s.pattern = pattern;
-      }
+      if (rules.minLength !== undefined) s.minLength = rules.minLength;
+      if (rules.maxLength !== undefined) s.maxLength = rules.maxLength;
+      if (rules.pattern && isValidPattern(rules.pattern)) s.pattern = rules.pattern;
 
       return s;
     }
@@ -114,16 +170,11 @@ function fieldToJsonSchema(field: Field): JsonSchemaProperty {
     case "number": {
       // Default to "number"; upgrade to "integer" if rules.integer is true
       const s: NumberSchema = { type: "number" };
+      const rules = field.rules ?? {};
 
-      if (isRecord(rules)) {
-        const integer = readBoolean(rules, "integer");
-        const min = readNumber(rules, "min");
-        const max = readNumber(rules, "max");
-
-        if (integer === true) s.type = "integer";
-        if (min !== undefined) s.minimum = min;
-        if (max !== undefined) s.maximum = max;
-      }
+      if (rules.integer === true) s.type = "integer";
+      if (rules.min !== undefined) s.minimum = rules.min;
+      if (rules.max !== undefined) s.maximum = rules.max;
 
       return s;
     }
@@ -134,24 +185,163 @@ function fieldToJsonSchema(field: Field): JsonSchemaProperty {
     }
 
     case "select": {
-      const values = readOptionsValues(rules);
+      const values = (field.rules?.options ?? []).map((opt) => opt.value);
       const s: StringSchema = { type: "string", enum: values };
       return s;
     }
 
     case "checkbox": {
       const s: BooleanSchema = { type: "boolean" };
+      if (field.required) s.const = true;
       return s;
     }
 
-    default: {
-      // Future-proof default: unknown field types are treated as strings.
-      const s: StringSchema = { type: "string" };
+    case "group": {
+      const properties: Record<string, JsonSchemaProperty> = {};
+      const required: string[] = [];
+      const rules = field.rules ?? {};
+
+      for (const child of field.fields) {
+        properties[child.name] = fieldToJsonSchema(child);
+        if (child.required) required.push(child.name);
+      }
+
+      const items: ObjectSchema = { type: "object", additionalProperties: false, properties };
+      if (required.length > 0) items.required = required;
+
+      const requiredMessages = missingKeyMessages(field.fields);
+      if (requiredMessages) items.errorMessage = requiredMessages;
+
+      const s: ArraySchema = { type: "array", items };
+
+      if (rules.minItems !== undefined) s.minItems = rules.minItems;
+      if (rules.maxItems !== undefined) s.maxItems = rules.maxItems;
+
+      // A required group needs at least one item.
+      if (field.required && (s.minItems ?? 0) < 1) s.minItems = 1;
+
       return s;
     }
+
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * A field's custom messages keyed by schema keyword (undefined when it has
+ * none). Types with two rules on one keyword keep the stricter rule's
+ * message: `integer` over `number` on `type`.
+ */
+function keywordMessages(field: Field | ChildField): KeywordMessages | undefined {
+  const messages: KeywordMessages = {};
+
+  for (const rule of messageRules(field)) {
+    const message = customRuleMessage(field, rule);
+    if (!message) continue;
+
+    if (rule !== "required") {
+      messages[ERROR_MESSAGE_KEYWORDS[rule]] = message;
+      continue;
+    }
+
+    // Present but empty: a required checkbox fails `const`, a required group
+    // the `minItems: 1` it gets when it has no minimum of its own.
+    if (field.required && field.type === "checkbox") messages.const = message;
+    if (field.required && field.type === "group" && field.rules?.minItems == null) messages.minItems = message;
+  }
+
+  return Object.keys(messages).length > 0 ? messages : undefined;
+}
+
+/**
+ * Custom `required` messages for an object's properties, keyed by name.
+ */
+function missingKeyMessages(fields: Array<Field | ChildField>): RequiredMessages | undefined {
+  const required: Record<string, string> = {};
+
+  for (const field of fields) {
+    if (!field.required && !field.requiredWhen) continue;
+    const message = customRuleMessage(field, "required");
+    if (message) required[field.name] = message;
+  }
+
+  return Object.keys(required).length > 0 ? { required } : undefined;
+}
+
+/**
+ * Values the Preview treats as "empty" for isEmpty / isNotEmpty conditions.
+ */
+const EMPTY_VALUES: ConditionValue[] = ["", false, null];
+
+/**
+ * Converts a FieldCondition into a schema predicate over the referenced key.
+ * Returns null if the referenced field no longer exists.
+ */
+function conditionToPredicate(condition: FieldCondition, fields: Field[]): SchemaPredicate | null {
+  const source = fields.find((f) => f.id === condition.fieldId);
+  if (!source) return null;
+
+  const key = source.name;
+  const value = normalizeConditionValue(source, condition.value) ?? null;
+
+  switch (condition.operator) {
+    case "equals":
+      return { properties: { [key]: { const: value } }, required: [key] };
+    case "notEquals":
+      return { not: { properties: { [key]: { const: value } }, required: [key] } };
+    case "isEmpty":
+      return { properties: { [key]: { enum: EMPTY_VALUES } } };
+    case "isNotEmpty":
+      return { properties: { [key]: { not: { enum: EMPTY_VALUES } } }, required: [key] };
+    default:
+      return null;
   }
 }
 
+/**
+ * Builds the `allOf` clauses that mirror visibleWhen / requiredWhen.
+ *
+ * - visibleWhen: when the condition fails the key is forbidden (hidden answers
+ *   are not submitted); when it holds and the field is required, it is required.
+ * - requiredWhen: the key is required while the condition holds
+ *   (and, for conditionally visible fields, only while it is visible).
+ *   Like their static counterparts, a checkbox must then be ticked and a
+ *   group needs an item.
+ */
+function fieldToConditionalSchemas(field: Field, fields: Field[]): ConditionalSchema[] {
+  const clauses: ConditionalSchema[] = [];
+  const visible = field.visibleWhen ? conditionToPredicate(field.visibleWhen, fields) : null;
+  const requiredWhen = field.requiredWhen ? conditionToPredicate(field.requiredWhen, fields) : null;
+
+  if (visible) {
+    clauses.push({
+      if: visible,
+      ...(field.required ? { then: { required: [field.name] } } : {}),
+      else: { properties: { [field.name]: false } },
+    });
+  }
+
+  if (requiredWhen && !field.required) {
+    clauses.push({
+      if: visible ? { allOf: [visible, requiredWhen] } : requiredWhen,
+      then: { required: [field.name], ...nonEmptyPredicate(field) },
+    });
+  }
+
+  return clauses;
+}
+
+/**
+ * What "answered" means beyond the key being present, for fields whose
+ * requiredness is conditional.
+ */
+function nonEmptyPredicate(field: Field): SchemaPredicate {
+  if (field.type === "checkbox") return { properties: { [field.name]: { const: true } } };
+  if (field.type === "group") return { properties: { [field.name]: { type: "array", minItems: 1 } } };
+  return {};
+}
+
 /**
  * Generates a JSON Schema (draft 2020-12) from a FormDefinition.
  *
@@ -159,14 +349,23 @@ function fieldToJsonSchema(field: Field): JsonSchemaProperty {
  * - Each field.name becomes a property key
  * - `required` controls the top-level `required[]` list
  * - `additionalProperties` is false (extra keys are not allowed)
+ * - visibleWhen / requiredWhen become `allOf` if/then/else clauses
+ * - Custom messages become `errorMessage` (ajv-errors style)
  */
 export function generateJsonSchema(form: FormDefinition): JsonSchema {
   const properties: Record<string, JsonSchemaProperty> = {};
   const required: string[] = [];
+  const allOf: ConditionalSchema[] = [];
 
   for (const field of form.fields) {
     properties[field.name] = fieldToJsonSchema(field);
-    if (field.required) required.push(field.name);
+
+    const conditional = fieldToConditionalSchemas(field, form.fields);
+    allOf.push(...conditional);
+
+    // Conditionally visible fields are only required inside their `then` clause.
+    const hasVisibility = conditional.some((c) => c.else !== undefined);
+    if (field.required && !hasVisibility) required.push(field.name);
   }
 
   const schema: JsonSchema = {
@@ -179,6 +378,10 @@ export function generateJsonSchema(form: FormDefinition): JsonSchema {
 
   // Keep schema output minimal/clean by omitting empty `required`.
   if (required.length > 0) schema.required = required;
+  if (allOf.length > 0) schema.allOf = allOf;
+
+  const requiredMessages = missingKeyMessages(form.fields);
+  if (requiredMessages) schema.errorMessage = requiredMessages;
 
   return schema;
 }
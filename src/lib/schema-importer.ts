@@ -0,0 +1,463 @@
+// lib/schema-importer.ts
+import type { ChildField, Field, FieldMessages, FormDefinition } from "./form-types";
+import { parseFormDefinition, type FormParseIssue } from "./form-parser";
+import { ERROR_MESSAGE_KEYWORDS } from "./schema-generator";
+import { messageRules } from "./validation-messages";
+import { CURRENT_FORM_VERSION } from "./storage";
+
+/**
+ * JSON Schema -> FormDefinition importer (the reverse of generateJsonSchema).
+ *
+ * Design note:
+ * - Each top-level property becomes a field; `title` / `description` become
+ *   its label / helper text, `required[]` its required flag
+ * - string (+ format email/date), string enum, integer/number with
+ *   minimum/maximum, boolean, minLength/maxLength/pattern and arrays of
+ *   objects (repeatable groups) are mapped; local `$ref`s are followed
+ * - `errorMessage` (the export's ajv-errors style extension) becomes the
+ *   fields' custom messages, as literal text
+ * - Anything else is skipped and listed in `unsupported`, with the same
+ *   path-aware shape as parse issues, so nothing is dropped silently
+ * - Strings always import as `text`: textarea and text share one schema
+ */
+
+/**
+ * SchemaImportResult
+ *
+ * `ok: false` only when the input is not an object schema at all.
+ */
+export type SchemaImportResult =
+  | { ok: true; form: FormDefinition; unsupported: FormParseIssue[] }
+  | { ok: false; issues: FormParseIssue[] };
+
+type SchemaObject = Record<string, unknown>;
+
+/**
+ * Import context: the document root (for `$ref`) and the report being built.
+ */
+type Context = {
+  root: SchemaObject;
+  unsupported: FormParseIssue[];
+};
+
+// Keywords that carry no validation meaning (or are consumed elsewhere).
+const ANNOTATIONS = new Set([
+  "$schema",
+  "$id",
+  "$comment",
+  "$defs",
+  "definitions",
+  "title",
+  "description",
+  "errorMessage",
+]);
+
+// Keywords each mapped property schema may use; everything else is reported.
+const HANDLED: Record<string, Set<string>> = {
+  string: new Set(["type", "format", "minLength", "maxLength", "pattern", "examples"]),
+  enum: new Set(["type", "enum"]),
+  number: new Set(["type", "minimum", "maximum", "examples"]),
+  boolean: new Set(["type", "const"]),
+  array: new Set(["type", "items", "minItems", "maxItems"]),
+  object: new Set(["type", "properties", "required", "additionalProperties"]),
+};
+
+/**
+ * importJsonSchemaText
+ *
+ * Parses JSON text, then imports it (see importJsonSchema).
+ */
+export function importJsonSchemaText(text: string): SchemaImportResult {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    const detail = error instanceof Error ? error.message : String(error);
+    return { ok: false, issues: [{ path: "", message: `is not valid JSON (${detail})` }] };
+  }
+  return importJsonSchema(json);
+}
+
+/**
+ * importJsonSchema
+ *
+ * Builds a FormDefinition from an object schema. The form gets a placeholder
+ * id and timestamps; callers add it to the library via createForm().
+ */
+export function importJsonSchema(json: unknown): SchemaImportResult {
+  if (!isObject(json)) {
+    return { ok: false, issues: [{ path: "", message: "must be a JSON Schema object" }] };
+  }
+
+  const ctx: Context = { root: json, unsupported: [] };
+  const schema = resolve(json, "", ctx);
+
+  if (!schema || schemaType(schema, "", ctx) !== "object" || !isObject(schema.properties)) {
+    return { ok: false, issues: [{ path: "", message: 'must be an object schema with "properties"' }] };
+  }
+
+  reportKeywords(schema, new Set([...HANDLED.object, "allOf"]), "", ctx);
+  if (schema.allOf !== undefined) {
+    report(ctx, "allOf", "is not supported; conditional rules (visibleWhen / requiredWhen) are not imported");
+  }
+  if (schema.additionalProperties !== undefined && schema.additionalProperties !== false) {
+    report(ctx, "additionalProperties", "is not supported (forms always reject unknown keys)");
+  }
+
+  const fields = importProperties(schema, "", "f", false, ctx);
+  const now = new Date().toISOString();
+
+  const parsed = parseFormDefinition({
+    id: "imported-schema",
+    title: typeof json.title === "string" && json.title.trim() ? json.title : "Imported form",
+    description: typeof json.description === "string" ? json.description : undefined,
+    version: CURRENT_FORM_VERSION,
+    fields,
+    createdAtISO: now,
+    updatedAtISO: now,
+  });
+
+  return parsed.ok ? { ok: true, form: parsed.form, unsupported: ctx.unsupported } : parsed;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Properties                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Fields for an object schema's `properties` (top level, or a group's items
+ * when `inGroup`: those cannot contain further groups).
+ */
+function importProperties(
+  schema: SchemaObject,
+  path: string,
+  idPrefix: string,
+  inGroup: boolean,
+  ctx: Context
+): Field[] {
+  const properties = schema.properties as SchemaObject;
+  const required = new Set(Array.isArray(schema.required) ? schema.required.filter(isString) : []);
+  const requiredMessages = objectRequiredMessages(schema, path, ctx);
+  const fields: Field[] = [];
+
+  for (const [name, raw] of Object.entries(properties)) {
+    const propertyPath = join(path, "properties", name);
+    const property = resolve(raw, propertyPath, ctx);
+    if (!property) continue;
+
+    const field = importField(name, property, propertyPath, `${idPrefix}${fields.length + 1}`, inGroup, ctx);
+    if (!field) continue;
+
+    const withRequired = required.has(name) ? { ...field, required: true } : field;
+    fields.push(withMessages(withRequired, property, requiredMessages[name], propertyPath, ctx));
+  }
+
+  for (const name of required) {
+    if (!(name in properties)) report(ctx, join(path, "required"), `lists "${name}", which has no property (ignored)`);
+  }
+
+  return fields;
+}
+
+/**
+ * One property schema -> Field, or null (reported) when it has no field equivalent.
+ */
+function importField(
+  name: string,
+  schema: SchemaObject,
+  path: string,
+  id: string,
+  inGroup: boolean,
+  ctx: Context
+): Field | null {
+  const base = {
+    id,
+    name,
+    label: typeof schema.title === "string" && schema.title.trim() ? schema.title : humanize(name),
+    ...(typeof schema.description === "string" && schema.description ? { helperText: schema.description } : {}),
+  };
+
+  if (Array.isArray(schema.enum)) {
+    reportKeywords(schema, HANDLED.enum, path, ctx);
+    const values = schema.enum.filter(isString);
+    if (values.length !== schema.enum.length) {
+      report(ctx, join(path, "enum"), "has non-string values; only string options are supported (dropped)");
+    }
+    return { ...base, type: "select", rules: { options: values.map((value) => ({ label: value, value })) } };
+  }
+
+  const type = schemaType(schema, path, ctx);
+
+  switch (type) {
+    case "string": {
+      reportKeywords(schema, HANDLED.string, path, ctx);
+      const rules = {
+        ...numberKeyword(schema, "minLength", path, ctx),
+        ...numberKeyword(schema, "maxLength", path, ctx),
+        ...(typeof schema.pattern === "string" ? { pattern: schema.pattern } : {}),
+      };
+      const placeholder = Array.isArray(schema.examples) && isString(schema.examples[0]) ? schema.examples[0] : undefined;
+      const common = { ...base, ...(placeholder ? { placeholder } : {}) };
+
+      if (schema.format === "date") {
+        if (Object.keys(rules).length > 0) report(ctx, path, "has length/pattern rules, which date fields do not support (ignored)");
+        return { ...common, type: "date" };
+      }
+      if (schema.format !== undefined && schema.format !== "email") {
+        report(ctx, join(path, "format"), `"${String(schema.format)}" is not supported (imported as text)`);
+      }
+      const rulesOrNothing = Object.keys(rules).length > 0 ? { rules } : {};
+      return schema.format === "email"
+        ? { ...common, type: "email", ...rulesOrNothing }
+        : { ...common, type: "text", ...rulesOrNothing };
+    }
+
+    case "integer":
+    case "number": {
+      reportKeywords(schema, HANDLED.number, path, ctx);
+      const { minimum: min, maximum: max } = {
+        ...numberKeyword(schema, "minimum", path, ctx),
+        ...numberKeyword(schema, "maximum", path, ctx),
+      };
+      const rules = {
+        ...(min !== undefined ? { min } : {}),
+        ...(max !== undefined ? { max } : {}),
+        ...(type === "integer" ? { integer: true } : {}),
+      };
+      const example = Array.isArray(schema.examples) ? schema.examples[0] : undefined;
+      return {
+        ...base,
+        type: "number",
+        ...(typeof example === "number" ? { placeholder: String(example) } : {}),
+        ...(Object.keys(rules).length > 0 ? { rules } : {}),
+      };
+    }
+
+    case "boolean":
+      reportKeywords(schema, HANDLED.boolean, path, ctx);
+      // `const: true` is a box that must be ticked: a required checkbox.
+      if (schema.const !== undefined && schema.const !== true) {
+        report(ctx, join(path, "const"), "is only supported as `true` (ignored)");
+      }
+      return { ...base, type: "checkbox", ...(schema.const === true ? { required: true } : {}) };
+
+    case "array": {
+      if (inGroup) {
+        report(ctx, path, "is an array inside a group; groups cannot be nested (skipped)");
+        return null;
+      }
+
+      const itemsPath = join(path, "items");
+      const items = resolve(schema.items, itemsPath, ctx);
+      if (!items || schemaType(items, itemsPath, ctx) !== "object" || !isObject(items.properties)) {
+        report(ctx, path, "is an array of non-objects; only arrays of objects (repeatable groups) are supported (skipped)");
+        return null;
+      }
+
+      reportKeywords(schema, HANDLED.array, path, ctx);
+      reportKeywords(items, HANDLED.object, itemsPath, ctx);
+
+      const children = importProperties(items, itemsPath, `${id}_`, true, ctx) as ChildField[];
+      const rules = {
+        ...numberKeyword(schema, "minItems", path, ctx),
+        ...numberKeyword(schema, "maxItems", path, ctx),
+      };
+      return { ...base, type: "group", fields: children, ...(Object.keys(rules).length > 0 ? { rules } : {}) };
+    }
+
+    case "object":
+      report(ctx, path, "is a nested object; only flat fields and arrays of objects are supported (skipped)");
+      return null;
+
+    default:
+      report(ctx, join(path, "type"), "is missing or not supported (skipped)");
+      return null;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/* Error messages                                                             */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * An object schema's `errorMessage.required` (messages for missing keys, by
+ * property name). Other object-level messages are reported.
+ */
+function objectRequiredMessages(schema: SchemaObject, path: string, ctx: Context): Record<string, string> {
+  const errorMessage = schema.errorMessage;
+  if (errorMessage === undefined) return {};
+
+  const messagePath = join(path, "errorMessage");
+  if (!isObject(errorMessage)) {
+    report(ctx, messagePath, "is only supported as an object of messages (ignored)");
+    return {};
+  }
+
+  const messages: Record<string, string> = {};
+  for (const [keyword, value] of Object.entries(errorMessage)) {
+    if (keyword === "required" && isObject(value)) {
+      for (const [name, text] of Object.entries(value)) {
+        if (isString(text)) messages[name] = text;
+        else report(ctx, join(messagePath, "required", name), "must be a string (ignored)");
+      }
+    } else {
+      report(ctx, join(messagePath, keyword), "is not supported on objects (ignored)");
+    }
+  }
+  return messages;
+}
+
+/**
+ * Adds the field's custom messages: `required` from its parent object, the
+ * rest from the property's `errorMessage` (keyed by schema keyword). Messages
+ * for keywords the field doesn't use are reported.
+ */
+function withMessages(
+  field: Field,
+  schema: SchemaObject,
+  requiredMessage: string | undefined,
+  path: string,
+  ctx: Context
+): Field {
+  const messages: FieldMessages = {};
+  const rules = messageRules(field);
+
+  if (requiredMessage !== undefined) {
+    if (rules.includes("required")) messages.required = requiredMessage;
+    else report(ctx, path, "has a required message but is not required (ignored)");
+  }
+
+  const errorMessage = schema.errorMessage;
+  const messagePath = join(path, "errorMessage");
+  if (errorMessage !== undefined && !isObject(errorMessage)) {
+    report(ctx, messagePath, "is only supported as an object of messages (ignored)");
+  } else if (errorMessage) {
+    for (const [keyword, text] of Object.entries(errorMessage)) {
+      // A checkbox's `const` and a required group's `minItems: 1` fail when
+      // the field is left empty.
+      const isRequiredKeyword =
+        (keyword === "const" && field.type === "checkbox") ||
+        (keyword === "minItems" && field.type === "group" && field.rules?.minItems == null);
+
+      // `type` maps to both number and integer; the last (stricter) rule wins,
+      // as in the export.
+      const rule = isRequiredKeyword
+        ? rules.find((r) => r === "required")
+        : rules.filter((r) => r !== "required" && ERROR_MESSAGE_KEYWORDS[r] === keyword).at(-1);
+
+      if (!isString(text)) report(ctx, join(messagePath, keyword), "must be a string (ignored)");
+      else if (!rule) report(ctx, join(messagePath, keyword), "has no matching rule on this field (ignored)");
+      else messages[rule] = text;
+    }
+  }
+
+  return Object.keys(messages).length > 0 ? { ...field, messages } : field;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Helpers                                                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Follows local `$ref`s ("#/$defs/Address", "#/definitions/…"); other
+ * references are reported and the schema skipped. Sibling keywords of a
+ * `$ref` are merged over the target.
+ */
+function resolve(schema: unknown, path: string, ctx: Context, seen: Set<string> = new Set()): SchemaObject | null {
+  if (!isObject(schema)) {
+    report(ctx, path, "is not a schema object (skipped)");
+    return null;
+  }
+  if (typeof schema.$ref !== "string") return schema;
+
+  const ref = schema.$ref;
+  if (!ref.startsWith("#") || seen.has(ref)) {
+    report(ctx, join(path, "$ref"), seen.has(ref) ? "is circular (skipped)" : `"${ref}" is not a local reference (skipped)`);
+    return null;
+  }
+
+  let target: unknown = ctx.root;
+  for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+    const key = decodeURIComponent(segment).replaceAll("~1", "/").replaceAll("~0", "~");
+    target = isObject(target) ? target[key] : undefined;
+  }
+
+  if (target === undefined) {
+    report(ctx, join(path, "$ref"), `"${ref}" does not resolve (skipped)`);
+    return null;
+  }
+
+  const resolved = resolve(target, path, ctx, new Set(seen).add(ref));
+  if (!resolved) return null;
+
+  const siblings = { ...schema };
+  delete siblings.$ref;
+  return { ...resolved, ...siblings };
+}
+
+/**
+ * A schema's single type. `["x", "null"]` unions count as "x" (null is
+ * reported, since form fields are never null).
+ */
+function schemaType(schema: SchemaObject, path: string, ctx: Context): string | undefined {
+  if (typeof schema.type === "string") return schema.type;
+  if (!Array.isArray(schema.type)) return undefined;
+
+  const types = schema.type.filter((t) => t !== "null");
+  if (types.length !== schema.type.length) report(ctx, join(path, "type"), 'allows "null", which forms never submit (ignored)');
+  if (types.length !== 1) return undefined;
+  return String(types[0]);
+}
+
+/**
+ * `{ [keyword]: n }` when the keyword holds a finite number, else {}
+ * (a malformed value is reported).
+ */
+function numberKeyword<K extends string>(
+  schema: SchemaObject,
+  keyword: K,
+  path: string,
+  ctx: Context
+): Partial<Record<K, number>> {
+  const value = schema[keyword];
+  if (value === undefined) return {};
+  if (typeof value === "number" && Number.isFinite(value)) return { [keyword]: value } as Record<K, number>;
+  report(ctx, join(path, keyword), "must be a number (ignored)");
+  return {};
+}
+
+/**
+ * Reports every keyword of `schema` that is neither handled nor an annotation.
+ */
+function reportKeywords(schema: SchemaObject, handled: Set<string>, path: string, ctx: Context) {
+  for (const keyword of Object.keys(schema)) {
+    if (handled.has(keyword) || ANNOTATIONS.has(keyword)) continue;
+    report(ctx, join(path, keyword), "is not supported (ignored)");
+  }
+}
+
+function report(ctx: Context, path: string, message: string) {
+  ctx.unsupported.push({ path, message });
+}
+
+function join(...segments: string[]): string {
+  return segments.filter(Boolean).join(".");
+}
+
+/** "firstName" / "first_name" -> "First name". */
+function humanize(name: string): string {
+  const words = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .toLowerCase();
+  return words ? words.charAt(0).toUpperCase() + words.slice(1) : name;
+}
+
+function isObject(value: unknown): value is SchemaObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string";
+}
@@ -0,0 +1,125 @@
+// lib/snapshots.ts
+import type { FormDefinition } from "./form-types";
+import type { FormParseIssue } from "./form-parser";
+import { migrateFormDefinition } from "./storage";
+
+/**
+ * Named snapshots ("v1 sent to legal") of library forms.
+ *
+ * Stored next to the library in localStorage, one entry per form:
+ * `forms-for-devs:snapshots:v1:<formId>` -> StoredSnapshot[] JSON
+ *
+ * Design note:
+ * - A snapshot holds a full copy of the FormDefinition, so restoring never
+ *   depends on the live form still being readable
+ * - Snapshot forms go through the same migrations as saved forms, so old
+ *   checkpoints keep working after a schema version bump
+ */
+const SNAPSHOT_KEY_PREFIX = "forms-for-devs:snapshots:v1:";
+
+function snapshotKey(formId: string): string {
+  return `${SNAPSHOT_KEY_PREFIX}${formId}`;
+}
+
+/**
+ * FormSnapshot
+ *
+ * A named checkpoint. Unreadable snapshots are still listed with `issues`
+ * (and no `form`) so they can be seen and deleted.
+ */
+export type FormSnapshot = {
+  id: string;
+  name: string;
+  createdAtISO: string;
+  form: FormDefinition | null;
+  issues?: FormParseIssue[];
+};
+
+/**
+ * StoredSnapshot
+ *
+ * Raw persisted shape; `form` is validated on read.
+ */
+type StoredSnapshot = {
+  id: string;
+  name: string;
+  createdAtISO: string;
+  form: unknown;
+};
+
+function isStoredSnapshot(value: unknown): value is StoredSnapshot {
+  if (typeof value !== "object" || value === null) return false;
+  const v = value as Record<string, unknown>;
+  return typeof v.id === "string" && typeof v.name === "string" && typeof v.createdAtISO === "string";
+}
+
+function readStored(formId: string): StoredSnapshot[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const raw: unknown = JSON.parse(window.localStorage.getItem(snapshotKey(formId)) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(isStoredSnapshot) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeStored(formId: string, snapshots: StoredSnapshot[]): void {
+  if (typeof window === "undefined") return;
+
+  if (snapshots.length === 0) {
+    window.localStorage.removeItem(snapshotKey(formId));
+    return;
+  }
+
+  window.localStorage.setItem(snapshotKey(formId), JSON.stringify(snapshots));
+}
+
+/**
+ * listSnapshots
+ *
+ * Snapshots of one form, newest first.
+ */
+export function listSnapshots(formId: string): FormSnapshot[] {
+  return readStored(formId)
+    .map((stored): FormSnapshot => {
+      const parsed = migrateFormDefinition(stored.form);
+      const base = { id: stored.id, name: stored.name, createdAtISO: stored.createdAtISO };
+      return parsed.ok ? { ...base, form: parsed.form } : { ...base, form: null, issues: parsed.issues };
+    })
+    .sort((a, b) => b.createdAtISO.localeCompare(a.createdAtISO));
+}
+
+/**
+ * saveSnapshot
+ *
+ * Records the given form under a name. Blank names fall back to a timestamp.
+ */
+export function saveSnapshot(form: FormDefinition, name: string): FormSnapshot {
+  const createdAtISO = new Date().toISOString();
+  const snapshot: FormSnapshot = {
+    id: `snap_${Math.random().toString(36).slice(2, 9)}`,
+    name: name.trim() || `Snapshot ${new Date(createdAtISO).toLocaleString()}`,
+    createdAtISO,
+    form,
+  };
+
+  writeStored(form.id, [...readStored(form.id), snapshot]);
+  return snapshot;
+}
+
+/**
+ * deleteSnapshot
+ */
+export function deleteSnapshot(formId: string, snapshotId: string): void {
+  writeStored(formId, readStored(formId).filter((s) => s.id !== snapshotId));
+}
+
+/**
+ * deleteAllSnapshots
+ *
+ * Called when a form is removed from the library.
+ */
+export function deleteAllSnapshots(formId: string): void {
+  writeStored(formId, []);
+}
@@ -0,0 +1,107 @@
+// lib/steps.ts
+import type { Field, FormDefinition, FormStep } from "./form-types";
+
+/**
+ * ResolvedStep
+ *
+ * A FormStep with its field ids resolved to Field objects.
+ * This is what the Preview and exporters iterate over.
+ */
+export type ResolvedStep = {
+  id: string;
+  title: string;
+  fields: Field[];
+};
+
+/**
+ * isMultiStep
+ *
+ * True when the form should render as a wizard (at least one step defined).
+ */
+export function isMultiStep(form: FormDefinition): boolean {
+  return Array.isArray(form.steps) && form.steps.length > 0;
+}
+
+/**
+ * resolveFormSteps
+ *
+ * Resolves `form.steps` into ordered field lists.
+ *
+ * Behavior:
+ * - No steps: one implicit step containing every field
+ * - Unknown or duplicate field ids are ignored
+ * - Fields not assigned to any step are appended to the last step,
+ *   so nothing silently disappears from the form
+ */
+export function resolveFormSteps(form: FormDefinition): ResolvedStep[] {
+  if (!isMultiStep(form)) {
+    return [{ id: "all", title: form.title, fields: form.fields }];
+  }
+
+  const byId = new Map(form.fields.map((f) => [f.id, f]));
+  const assigned = new Set<string>();
+
+  const steps: ResolvedStep[] = (form.steps ?? []).map((step) => {
+    const fields: Field[] = [];
+    for (const id of step.fieldIds) {
+      const field = byId.get(id);
+      if (!field || assigned.has(id)) continue;
+      assigned.add(id);
+      fields.push(field);
+    }
+    return { id: step.id, title: step.title, fields };
+  });
+
+  const unassigned = form.fields.filter((f) => !assigned.has(f.id));
+  steps[steps.length - 1].fields.push(...unassigned);
+
+  return steps;
+}
+
+/**
+ * findStepIdForField
+ *
+ * Returns the step a field is explicitly assigned to, or null.
+ */
+export function findStepIdForField(steps: FormStep[], fieldId: string): string | null {
+  return steps.find((s) => s.fieldIds.includes(fieldId))?.id ?? null;
+}
+
+/**
+ * syncStepOrder
+ *
+ * Re-sorts each step's `fieldIds` to follow the order of `fields` and drops ids
+ * that no longer exist. Called after reorder/delete in the Builder.
+ */
+export function syncStepOrder(steps: FormStep[], fields: Field[]): FormStep[] {
+  const index = new Map(fields.map((f, i) => [f.id, i]));
+
+  return steps.map((step) => ({
+    ...step,
+    fieldIds: step.fieldIds
+      .filter((id) => index.has(id))
+      .sort((a, b) => (index.get(a) ?? 0) - (index.get(b) ?? 0)),
+  }));
+}
+
+/**
+ * assignFieldToStep
+ *
+ * Moves a field into the given step (removing it from any other step).
+ */
+export function assignFieldToStep(
+  steps: FormStep[],
+  fieldId: string,
+  stepId: string,
+  fields: Field[]
+): FormStep[] {
+  const next = steps.map((step) => ({
+    ...step,
+    fieldIds:
+      step.id === stepId
+        ? [...step.fieldIds.filter((id) => id !== fieldId), fieldId]
+        : step.fieldIds.filter((id) => id !== fieldId),
+  }));
+
+  return syncStepOrder(next, fields);
+}
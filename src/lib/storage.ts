@@ -1,76 +1,417 @@
 import type { FormDefinition } from "./form-types";
+import { parseFormDefinition, type FormParseIssue, type FormParseResult } from "./form-parser";
 
 /**
- * STORAGE_KEY
+ * Storage layout
  *
- * Namespaced key used to store the active form definition in localStorage.
+ * The library stores one localStorage entry per form, keyed by
+ * `FormDefinition.id`, plus a pointer to the form the user has open:
+ *
+ * - `forms-for-devs:forms:v1:<id>`       -> FormDefinition JSON
+ * - `forms-for-devs:selectedFormId:v1`   -> id of the open form
  *
  * Versioning (`v1`) allows us to:
- * - Change schema shape later
+ * - Change the layout later
  * - Migrate data safely
  * - Avoid collisions with future storage strategies
  */
-const STORAGE_KEY = "forms-for-devs:activeForm:v1";
+const FORM_KEY_PREFIX = "forms-for-devs:forms:v1:";
+const SELECTED_ID_KEY = "forms-for-devs:selectedFormId:v1";
 
 /**
- * loadFormFromStorage
+ * LEGACY_STORAGE_KEYS
  *
- * Attempts to load the persisted FormDefinition from localStorage.
+ * Single-form ("active form") keys written by older releases, newest first.
+ * Whatever they hold is moved into the library (see importLegacyForms).
+ */
+const LEGACY_STORAGE_KEYS = ["forms-for-devs:activeForm:v2", "forms-for-devs:activeForm:v1"];
+
+function formKey(id: string): string {
+  return `${FORM_KEY_PREFIX}${id}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Migrations                                                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * CURRENT_FORM_VERSION
  *
- * Returns:
- * - FormDefinition if found and valid JSON
- * - null if:
- *   - running in a non-browser environment (SSR)
- *   - no saved value exists
- *   - JSON parsing fails (corrupt or incompatible data)
+ * The `FormDefinition.version` this build reads and writes.
+ * Bump it together with a new entry in MIGRATIONS.
+ */
+export const CURRENT_FORM_VERSION = 2;
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Migration
+ *
+ * Upgrades a raw form from version N to N + 1.
  *
- * We intentionally fail gracefully instead of throwing —
- * the Builder will fall back to the starter template.
+ * Notes:
+ * - Operates on untyped JSON (older shapes don't match today's types)
+ * - Must be pure: return a new object, never mutate the input
+ * - Throw to signal data that can't be upgraded; the error is reported
+ *   to the user and the stored value is left untouched
  */
-export function loadFormFromStorage(): FormDefinition | null {
-  // Guard against server-side rendering (Next.js)
-  if (typeof window === "undefined") return null;
+type Migration = (form: RawRecord) => RawRecord;
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Numeric strings ("10") from hand-edited JSON become numbers;
+ * anything else is returned as-is for the schema to judge.
+ */
+function coerceNumeric(value: unknown): unknown {
+  if (typeof value !== "string" || value.trim() === "") return value;
+  const n = Number(value);
+  return Number.isNaN(n) ? value : n;
+}
+
+const NUMERIC_RULE_KEYS = ["minLength", "maxLength", "min", "max"];
+
+/**
+ * v1 -> v2: discriminated-union field shape.
+ *
+ * v1 stored fields loosely:
+ * - options could live at the top level (`field.options`) instead of `rules.options`
+ * - "radio" was accepted by the HTML exporter as a single-choice type
+ * - numeric rules were sometimes strings
+ *
+ * v2 keeps options in `rules.options`, maps radio to select and stores
+ * numeric rules as numbers. Rules that don't apply to a type are stripped
+ * later by the schema, so they aren't touched here.
+ */
+function migrateV1ToV2(form: RawRecord): RawRecord {
+  if (!Array.isArray(form.fields)) throw new Error("fields must be an array");
+
+  const fields = form.fields.map((raw: unknown) => {
+    if (!isRecord(raw)) return raw;
+
+    const { options, ...field } = raw;
+    const rules: RawRecord = isRecord(field.rules) ? { ...field.rules } : {};
+
+    for (const key of NUMERIC_RULE_KEYS) {
+      if (key in rules) rules[key] = coerceNumeric(rules[key]);
+    }
+
+    const type = field.type === "radio" ? "select" : field.type;
+
+    if (type === "select" && !Array.isArray(rules.options) && Array.isArray(options)) {
+      rules.options = options;
+    }
+
+    return Object.keys(rules).length > 0 ? { ...field, type, rules } : { ...field, type };
+  });
+
+  return { ...form, fields };
+}
+
+/**
+ * MIGRATIONS
+ *
+ * Registry keyed by the version a migration upgrades FROM.
+ * Applied in sequence until CURRENT_FORM_VERSION is reached.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: migrateV1ToV2,
+};
+
+/**
+ * migrateFormDefinition
+ *
+ * Upgrades raw (already JSON-decoded) form data step by step
+ * (v1 -> v2 -> ...) and validates the result.
+ *
+ * Behavior:
+ * - A missing `version` is treated as v1 (the first release)
+ * - A version newer than this build is rejected instead of being downgraded
+ * - The first failing step is reported as an issue; later steps don't run
+ */
+export function migrateFormDefinition(raw: unknown): FormParseResult {
+  if (!isRecord(raw)) return parseFormDefinition(raw);
+
+  let form = raw;
+  let version = typeof raw.version === "number" ? raw.version : 1;
+
+  if (version > CURRENT_FORM_VERSION) {
+    return {
+      ok: false,
+      issues: [
+        {
+          path: "version",
+          message: `is ${version}, but this app only understands up to ${CURRENT_FORM_VERSION}`,
+        },
+      ],
+    };
+  }
+
+  while (version < CURRENT_FORM_VERSION) {
+    const migrate = MIGRATIONS[version];
+
+    if (!migrate) {
+      return {
+        ok: false,
+        issues: [{ path: "version", message: `has no migration from v${version}` }],
+      };
+    }
+
+    try {
+      form = { ...migrate(form), version: version + 1 };
+    } catch (err) {
+      const detail = err instanceof Error ? err.message : "unknown error";
+      return {
+        ok: false,
+        issues: [
+          { path: "", message: `could not be migrated from v${version} to v${version + 1} (${detail})` },
+        ],
+      };
+    }
+
+    version += 1;
+  }
+
+  return parseFormDefinition(form);
+}
+
+/**
+ * parseStoredFormJson
+ *
+ * JSON.parse + migrate + validate, for anything that arrives as text
+ * (localStorage values, imported files).
+ */
+export function parseStoredFormJson(text: string): FormParseResult {
+  let raw: unknown;
 
   try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return null;
+    raw = JSON.parse(text);
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : "unknown error";
+    return { ok: false, issues: [{ path: "", message: `is not valid JSON (${detail})` }] };
+  }
+
+  return migrateFormDefinition(raw);
+}
+
+/* -------------------------------------------------------------------------- */
+/* Load / save                                                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * LoadFormResult
+ *
+ * Outcome of reading a form:
+ * - empty:   nothing saved under that id (or SSR) — use the starter template
+ * - loaded:  a valid FormDefinition (already upgraded to CURRENT_FORM_VERSION)
+ * - invalid: something is saved but unusable; `issues` says where and why
+ */
+export type LoadFormResult =
+  | { status: "empty" }
+  | { status: "loaded"; form: FormDefinition }
+  | { status: "invalid"; issues: FormParseIssue[] };
 
-    return JSON.parse(raw) as FormDefinition;
+/**
+ * FormSummary
+ *
+ * Library listing entry. Unreadable forms are still listed (with `issues`)
+ * so the user can see and delete them instead of losing track of them.
+ */
+export type FormSummary = {
+  id: string;
+  title: string;
+  fieldCount: number;
+  updatedAtISO: string | null;
+  issues?: FormParseIssue[];
+};
+
+/**
+ * importLegacyForms
+ *
+ * Moves pre-library "active form" values into the library, then removes
+ * their legacy keys:
+ * - A value that loads is saved upgraded, under its own id
+ * - One that doesn't is copied as-is, so listForms() lists it with its
+ *   issues and loadForm() reports them instead of the form vanishing
+ *
+ * An id already in the library gets a numeric suffix (nothing is overwritten).
+ * The imported form is selected unless another one already is.
+ */
+function importLegacyForms(storage: Storage): void {
+  for (const key of LEGACY_STORAGE_KEYS) {
+    const raw = storage.getItem(key);
+    if (!raw) continue;
+
+    const parsed = parseStoredFormJson(raw);
+    const id = freeFormId(storage, parsed.ok ? parsed.form.id : legacyFormId(raw));
+
+    if (parsed.ok) saveFormToStorage({ ...parsed.form, id });
+    else storage.setItem(formKey(id), raw);
+
+    if (!getSelectedFormId()) setSelectedFormId(id);
+    storage.removeItem(key);
+  }
+}
+
+/**
+ * The id stored in an unreadable legacy value, when there is one.
+ */
+function legacyFormId(raw: string): string {
+  try {
+    const value: unknown = JSON.parse(raw);
+    if (isRecord(value) && typeof value.id === "string" && value.id.trim()) return value.id;
   } catch {
-    // Corrupt JSON or incompatible version — treat as empty state
-    return null;
+    // Not JSON: fall through to the default id.
   }
+  return "legacy-form";
+}
+
+function freeFormId(storage: Storage, preferred: string): string {
+  let id = preferred;
+  for (let n = 2; storage.getItem(formKey(id)) !== null; n++) id = `${preferred}-${n}`;
+  return id;
+}
+
+function libraryKeys(storage: Storage): string[] {
+  const keys: string[] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    if (key?.startsWith(FORM_KEY_PREFIX)) keys.push(key);
+  }
+  return keys;
+}
+
+/**
+ * listForms
+ *
+ * Every form in the library, most recently updated first.
+ * Moves legacy single-form entries into the library first.
+ */
+export function listForms(): FormSummary[] {
+  if (typeof window === "undefined") return [];
+
+  const storage = window.localStorage;
+  importLegacyForms(storage);
+
+  const summaries = libraryKeys(storage).map((key): FormSummary => {
+    const id = key.slice(FORM_KEY_PREFIX.length);
+    const parsed = parseStoredFormJson(storage.getItem(key) ?? "");
+
+    if (!parsed.ok) {
+      return { id, title: "Unreadable form", fieldCount: 0, updatedAtISO: null, issues: parsed.issues };
+    }
+
+    return {
+      id,
+      title: parsed.form.title,
+      fieldCount: parsed.form.fields.length,
+      updatedAtISO: parsed.form.updatedAtISO,
+    };
+  });
+
+  return summaries.sort((a, b) => (b.updatedAtISO ?? "").localeCompare(a.updatedAtISO ?? ""));
+}
+
+/**
+ * loadForm
+ *
+ * Loads one library form by id, upgrading older versions and validating the
+ * result (see form-parser.ts).
+ *
+ * We intentionally never throw — but unlike a missing form, an invalid or
+ * unmigratable one is reported with path-aware issues so the UI can show what
+ * is wrong instead of silently falling back to the starter template.
+ *
+ * Invalid values are left in place until the user saves over them or deletes
+ * them, so nothing is destroyed just by opening a page.
+ */
+export function loadForm(id: string): LoadFormResult {
+  if (typeof window === "undefined") return { status: "empty" };
+
+  const raw = window.localStorage.getItem(formKey(id));
+  if (!raw) return { status: "empty" };
+
+  const parsed = parseStoredFormJson(raw);
+  return parsed.ok
+    ? { status: "loaded", form: parsed.form }
+    : { status: "invalid", issues: parsed.issues };
+}
+
+/**
+ * hasForm
+ *
+ * True when the library already holds a form with this id.
+ */
+export function hasForm(id: string): boolean {
+  if (typeof window === "undefined") return false;
+  return window.localStorage.getItem(formKey(id)) !== null;
+}
+
+/**
+ * getSelectedFormId / setSelectedFormId
+ *
+ * The form Studio, Preview and Exports work against.
+ */
+export function getSelectedFormId(): string | null {
+  if (typeof window === "undefined") return null;
+  return window.localStorage.getItem(SELECTED_ID_KEY);
+}
+
+export function setSelectedFormId(id: string): void {
+  if (typeof window === "undefined") return;
+  window.localStorage.setItem(SELECTED_ID_KEY, id);
+}
+
+/**
+ * loadFormFromStorage
+ *
+ * Loads the selected form.
+ *
+ * Returns `empty` when nothing is selected or the selected form no longer
+ * exists (e.g. it was deleted in another tab); callers fall back to the
+ * starter template.
+ */
+export function loadFormFromStorage(): LoadFormResult {
+  if (typeof window === "undefined") return { status: "empty" };
+
+  // Make sure a pre-library form is picked up (and selected) on first load.
+  importLegacyForms(window.localStorage);
+
+  const id = getSelectedFormId();
+  return id ? loadForm(id) : { status: "empty" };
 }
 
 /**
  * saveFormToStorage
  *
- * Persists the current FormDefinition to localStorage.
+ * Persists a FormDefinition under its id (selection is unchanged).
  *
  * Notes:
  * - No-op during SSR
- * - Overwrites previous saved form
+ * - Overwrites the previous version of the same form
+ * - Always stamps CURRENT_FORM_VERSION (the shape we write is the current one)
  * - JSON.stringify ensures consistent serialization
- *
- * This is our MVP persistence layer.
  */
 export function saveFormToStorage(form: FormDefinition): void {
   if (typeof window === "undefined") return;
 
-  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(form));
+  window.localStorage.setItem(
+    formKey(form.id),
+    JSON.stringify({ ...form, version: CURRENT_FORM_VERSION })
+  );
 }
 
 /**
- * clearFormStorage
- *
- * Removes the active form from localStorage.
+ * deleteFormFromStorage
  *
- * Used when:
- * - Resetting to template
- * - Implementing future "New Form" behavior
+ * Removes a form from the library.
+ * If it was selected, the selection is cleared (pages fall back to the starter).
  */
-export function clearFormStorage(): void {
+export function deleteFormFromStorage(id: string): void {
   if (typeof window === "undefined") return;
 
-  window.localStorage.removeItem(STORAGE_KEY);
+  window.localStorage.removeItem(formKey(id));
+  if (getSelectedFormId() === id) window.localStorage.removeItem(SELECTED_ID_KEY);
 }
@@ -0,0 +1,237 @@
+// lib/submission-api.ts
+import type { FormDefinition } from "./form-types";
+import type { FieldValues } from "./conditions";
+import type { FieldError } from "./validation";
+import type { WebhookDeliveryAttempt } from "./webhooks";
+import { submissionPath } from "./exporters/openapi";
+
+/**
+ * Client for the local submission API (`/api/forms/...` route handlers).
+ *
+ * Design note:
+ * - The server only knows forms that were published to it (forms otherwise
+ *   live in the browser), so the Preview publishes before posting
+ * - Wire shapes match the OpenAPI export: a SubmissionReceipt on 201 and a
+ *   ValidationError (message + per-path messages) on 422
+ * - Functions resolve to result objects instead of throwing, including on
+ *   network failures
+ * - Static exports (GitHub Pages) have no server; SUBMISSION_API_ENABLED is
+ *   false there and the UI hides the API options
+ * - Admin calls (publishing, test webhooks, reading submissions and the
+ *   delivery log) send the admin token saved in this browser, if any; the
+ *   server checks it when FFD_ADMIN_TOKEN is set (see lib/api-auth.ts)
+ */
+
+/**
+ * SUBMISSION_API_ENABLED
+ *
+ * Set at build time by next.config.mjs (off for static exports).
+ */
+export const SUBMISSION_API_ENABLED = process.env.FFD_SUBMISSION_API === "on";
+
+const ADMIN_TOKEN_KEY = "forms-for-devs:adminToken:v1";
+
+/**
+ * loadAdminToken / saveAdminToken
+ *
+ * The server's admin token, kept in this browser's localStorage ("" when
+ * none; saving "" forgets it).
+ */
+export function loadAdminToken(): string {
+  if (typeof window === "undefined") return "";
+  return window.localStorage.getItem(ADMIN_TOKEN_KEY) ?? "";
+}
+
+export function saveAdminToken(token: string): void {
+  if (typeof window === "undefined") return;
+  if (token.trim() === "") window.localStorage.removeItem(ADMIN_TOKEN_KEY);
+  else window.localStorage.setItem(ADMIN_TOKEN_KEY, token.trim());
+}
+
+/**
+ * Authorization header for the admin routes (none without a saved token).
+ */
+function adminHeaders(): Record<string, string> {
+  const token = loadAdminToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+export type SubmissionReceipt = {
+  id: string;
+  receivedAtISO: string;
+};
+
+/**
+ * ValidationErrorBody
+ *
+ * 422 body: one message per failing path (field name or `group.index.child`).
+ */
+export type ValidationErrorBody = {
+  message: string;
+  errors: Record<string, string>;
+};
+
+/**
+ * StoredSubmission
+ *
+ * A persisted submission: its receipt plus the validated body.
+ */
+export type StoredSubmission = SubmissionReceipt & {
+  formId: string;
+  values: FieldValues;
+};
+
+export type PublishFormResult = { ok: true } | { ok: false; message: string };
+
+export type FetchSubmissionsResult =
+  | { ok: true; submissions: StoredSubmission[] }
+  | { ok: false; message: string };
+
+export type SendTestWebhookResult =
+  | { ok: true; attempt: WebhookDeliveryAttempt }
+  | { ok: false; message: string };
+
+export type FetchDeliveriesResult =
+  | { ok: true; attempts: WebhookDeliveryAttempt[] }
+  | { ok: false; message: string };
+
+export type PostSubmissionResult =
+  | { status: "accepted"; receipt: SubmissionReceipt }
+  | { status: "invalid"; message: string; errors: Record<string, string> }
+  | { status: "failed"; message: string };
+
+/**
+ * formPath
+ *
+ * Path of a form's published definition.
+ */
+export function formPath(formId: string): string {
+  return `/api/forms/${encodeURIComponent(formId)}`;
+}
+
+/**
+ * validationErrorBody
+ *
+ * 422 body for validateSubmission's errors.
+ */
+export function validationErrorBody(errors: Record<string, FieldError>): ValidationErrorBody {
+  return {
+    message: "The submission is invalid.",
+    errors: Object.fromEntries(Object.entries(errors).map(([path, error]) => [path, error.message])),
+  };
+}
+
+/**
+ * publishForm
+ *
+ * Stores the form definition on the server (replacing an earlier copy), so
+ * submissions are validated against it.
+ */
+export async function publishForm(form: FormDefinition): Promise<PublishFormResult> {
+  try {
+    const response = await fetch(formPath(form.id), {
+      method: "PUT",
+      headers: { "Content-Type": "application/json", ...adminHeaders() },
+      body: JSON.stringify(form),
+    });
+    return response.ok ? { ok: true } : { ok: false, message: await errorMessage(response) };
+  } catch (err) {
+    return { ok: false, message: networkMessage(err) };
+  }
+}
+
+/**
+ * postSubmission
+ *
+ * Posts a submission body (see buildSubmission) to the form's endpoint.
+ */
+export async function postSubmission(form: FormDefinition, body: FieldValues): Promise<PostSubmissionResult> {
+  try {
+    const response = await fetch(submissionPath(form), {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+    if (response.status === 201) {
+      return { status: "accepted", receipt: (await response.json()) as SubmissionReceipt };
+    }
+    if (response.status === 422) {
+      const error = (await response.json()) as ValidationErrorBody;
+      return { status: "invalid", message: error.message, errors: error.errors ?? {} };
+    }
+    return { status: "failed", message: await errorMessage(response) };
+  } catch (err) {
+    return { status: "failed", message: networkMessage(err) };
+  }
+}
+
+/**
+ * fetchSubmissions
+ *
+ * Every stored submission for a form, oldest first.
+ */
+export async function fetchSubmissions(formId: string): Promise<FetchSubmissionsResult> {
+  try {
+    const response = await fetch(`${formPath(formId)}/submissions`, { headers: adminHeaders() });
+    if (!response.ok) return { ok: false, message: await errorMessage(response) };
+    return { ok: true, submissions: (await response.json()) as StoredSubmission[] };
+  } catch (err) {
+    return { ok: false, message: networkMessage(err) };
+  }
+}
+
+/**
+ * sendTestWebhook
+ *
+ * Publishes the form (so the server has its current webhook settings), then
+ * asks the server to send a test payload. Resolves with the first attempt.
+ */
+export async function sendTestWebhook(form: FormDefinition): Promise<SendTestWebhookResult> {
+  const published = await publishForm(form);
+  if (!published.ok) return published;
+
+  try {
+    const response = await fetch(`${formPath(form.id)}/webhook/test`, { method: "POST", headers: adminHeaders() });
+    if (!response.ok) return { ok: false, message: await errorMessage(response) };
+    return { ok: true, attempt: (await response.json()) as WebhookDeliveryAttempt };
+  } catch (err) {
+    return { ok: false, message: networkMessage(err) };
+  }
+}
+
+/**
+ * fetchDeliveryAttempts
+ *
+ * The form's webhook delivery log, oldest first.
+ */
+export async function fetchDeliveryAttempts(formId: string): Promise<FetchDeliveriesResult> {
+  try {
+    const response = await fetch(`${formPath(formId)}/webhook/deliveries`, { headers: adminHeaders() });
+    if (!response.ok) return { ok: false, message: await errorMessage(response) };
+    return { ok: true, attempts: (await response.json()) as WebhookDeliveryAttempt[] };
+  } catch (err) {
+    return { ok: false, message: networkMessage(err) };
+  }
+}
+
+/**
+ * The `message` of a JSON error body, or the HTTP status.
+ */
+async function errorMessage(response: Response): Promise<string> {
+  try {
+    const body: unknown = await response.json();
+    if (typeof body === "object" && body !== null && "message" in body && typeof body.message === "string") {
+      return body.message;
+    }
+  } catch {
+    // Not JSON; fall through to the status line.
+  }
+  const status = [response.status, response.statusText].filter(Boolean).join(" ");
+  return `The server answered ${status}.`;
+}
+
+function networkMessage(err: unknown): string {
+  const detail = err instanceof Error ? err.message : "unknown error";
+  return `The submission API could not be reached (${detail}).`;
+}
@@ -0,0 +1,158 @@
+// lib/submission-store.ts
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { FormDefinition } from "./form-types";
+import type { FieldValues } from "./conditions";
+import type { StoredSubmission } from "./submission-api";
+import type { WebhookDeliveryAttempt } from "./webhooks";
+import { withoutWebhook } from "./webhooks";
+import { migrateFormDefinition } from "./storage";
+
+/**
+ * File-backed store for the submission API (server only: uses node:fs).
+ *
+ * Layout under the data directory (`FFD_DATA_DIR`, default `.data/`):
+ *
+ * - `forms/<id>.json`          -> published FormDefinition, without its webhook
+ * - `webhooks/<id>.json`       -> the published form's webhook (URL, secret, headers)
+ * - `submissions/<id>.ndjson`  -> one StoredSubmission per line, oldest first
+ * - `deliveries/<id>.ndjson`   -> one WebhookDeliveryAttempt per line, oldest first
+ *
+ * Design note:
+ * - Submissions and delivery attempts are appended, never rewritten
+ * - Published forms are written to a temp file and renamed into place
+ * - The webhook's secret stays out of the definition file; only delivery
+ *   reads it back (loadPublishedForm merges it in)
+ * - Ids are percent-encoded (dots included) to form safe file names
+ */
+
+function dataDir(): string {
+  return process.env.FFD_DATA_DIR || path.join(process.cwd(), ".data");
+}
+
+function fileName(id: string, extension: string): string {
+  return `${encodeURIComponent(id).replace(/\./g, "%2E")}${extension}`;
+}
+
+function formFile(id: string): string {
+  return path.join(dataDir(), "forms", fileName(id, ".json"));
+}
+
+function webhookFile(id: string): string {
+  return path.join(dataDir(), "webhooks", fileName(id, ".json"));
+}
+
+function submissionsFile(formId: string): string {
+  return path.join(dataDir(), "submissions", fileName(formId, ".ndjson"));
+}
+
+function deliveriesFile(formId: string): string {
+  return path.join(dataDir(), "deliveries", fileName(formId, ".ndjson"));
+}
+
+async function appendLine(file: string, record: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+  await appendFile(file, `${JSON.stringify(record)}\n`, "utf8");
+}
+
+async function readLines<T>(file: string): Promise<T[]> {
+  const text = await readOptional(file);
+  if (text === null) return [];
+
+  return text
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line) => JSON.parse(line) as T);
+}
+
+/**
+ * Reads a file, or null when it doesn't exist.
+ */
+async function readOptional(file: string): Promise<string | null> {
+  try {
+    return await readFile(file, "utf8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw err;
+  }
+}
+
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await mkdir(path.dirname(file), { recursive: true });
+
+  const temp = `${file}.${randomUUID()}.tmp`;
+  await writeFile(temp, JSON.stringify(value, null, 2), { encoding: "utf8", mode: 0o600 });
+  await rename(temp, file);
+}
+
+/**
+ * savePublishedForm
+ *
+ * Stores (or replaces) the definition submissions are validated against.
+ * The webhook goes to its own file (removed when the form has none).
+ */
+export async function savePublishedForm(form: FormDefinition): Promise<void> {
+  if (form.webhook) await writeJson(webhookFile(form.id), form.webhook);
+  else await rm(webhookFile(form.id), { force: true });
+
+  await writeJson(formFile(form.id), withoutWebhook(form));
+}
+
+/**
+ * loadPublishedForm
+ *
+ * The published definition with its webhook, or null when the form was never
+ * published. Server use only: the result carries the webhook secret.
+ * A stored file that no longer parses is an error (it was valid when saved).
+ */
+export async function loadPublishedForm(id: string): Promise<FormDefinition | null> {
+  const text = await readOptional(formFile(id));
+  if (text === null) return null;
+
+  const webhook = await readOptional(webhookFile(id));
+  const raw = { ...JSON.parse(text), ...(webhook === null ? {} : { webhook: JSON.parse(webhook) }) };
+
+  const parsed = migrateFormDefinition(raw);
+  if (!parsed.ok) throw new Error(`Published form "${id}" is invalid.`);
+  return parsed.form;
+}
+
+/**
+ * appendSubmission
+ *
+ * Persists a validated submission body and returns the stored record.
+ */
+export async function appendSubmission(formId: string, values: FieldValues): Promise<StoredSubmission> {
+  const record: StoredSubmission = {
+    id: randomUUID(),
+    formId,
+    receivedAtISO: new Date().toISOString(),
+    values,
+  };
+
+  await appendLine(submissionsFile(formId), record);
+  return record;
+}
+
+/**
+ * listSubmissions
+ *
+ * Every stored submission for a form, oldest first. Blank lines are skipped.
+ */
+export async function listSubmissions(formId: string): Promise<StoredSubmission[]> {
+  return readLines<StoredSubmission>(submissionsFile(formId));
+}
+
+/**
+ * appendDeliveryAttempt / listDeliveryAttempts
+ *
+ * The form's webhook delivery log, oldest first.
+ */
+export async function appendDeliveryAttempt(formId: string, attempt: WebhookDeliveryAttempt): Promise<void> {
+  await appendLine(deliveriesFile(formId), attempt);
+}
+
+export async function listDeliveryAttempts(formId: string): Promise<WebhookDeliveryAttempt[]> {
+  return readLines<WebhookDeliveryAttempt>(deliveriesFile(formId));
+}
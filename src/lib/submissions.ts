@@ -0,0 +1,228 @@
+// lib/submissions.ts
+import type { ChildField, Field, FormDefinition } from "./form-types";
+import { assertNever } from "./form-types";
+import type { StoredSubmission } from "./submission-api";
+
+/**
+ * Submissions inbox helpers: table columns, display values, filtering,
+ * sorting and bulk export (CSV, NDJSON, JSON).
+ *
+ * Design note:
+ * - Columns come from the CURRENT form (label as header, name as key);
+ *   answers whose key is no longer a field get extra columns marked
+ *   `removed`, so older submissions still display in full
+ * - Display text is for humans (option labels, Yes/No, item counts);
+ *   exports keep the stored values
+ * - Missing answers sort last in both directions
+ */
+
+/**
+ * SubmissionColumn
+ *
+ * `field` is undefined for removed columns.
+ */
+export type SubmissionColumn = {
+  key: string;
+  label: string;
+  field?: Field;
+  removed: boolean;
+};
+
+/**
+ * SubmissionSort
+ *
+ * `column` is a column key, or null for the received time.
+ */
+export type SubmissionSort = {
+  column: string | null;
+  direction: "asc" | "desc";
+};
+
+export type SubmissionExportFormat = "csv" | "ndjson" | "json";
+
+/**
+ * submissionColumns
+ *
+ * One column per top-level field, then one per removed key (in order of
+ * first appearance).
+ */
+export function submissionColumns(form: FormDefinition, submissions: StoredSubmission[]): SubmissionColumn[] {
+  const columns: SubmissionColumn[] = form.fields.map((field) => ({
+    key: field.name,
+    label: field.label || field.name,
+    field,
+    removed: false,
+  }));
+
+  const known = new Set(columns.map((column) => column.key));
+  for (const submission of submissions) {
+    for (const key of Object.keys(submission.values)) {
+      if (known.has(key)) continue;
+      known.add(key);
+      columns.push({ key, label: key, removed: true });
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * formatSubmissionValue
+ *
+ * Display text for one answer ("" when missing). Without a field (removed
+ * columns) values are shown as they were stored.
+ */
+export function formatSubmissionValue(field: Field | ChildField | undefined, value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (!field) return typeof value === "string" ? value : JSON.stringify(value);
+
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date":
+    case "number":
+      return typeof value === "string" ? value : JSON.stringify(value);
+
+    case "select": {
+      const option = field.rules?.options?.find((opt) => opt.value === value);
+      return option ? option.label || option.value : String(value);
+    }
+
+    case "checkbox":
+      return value === true ? "Yes" : value === false ? "No" : String(value);
+
+    case "group": {
+      if (!Array.isArray(value)) return JSON.stringify(value);
+      return `${value.length} item${value.length === 1 ? "" : "s"}`;
+    }
+
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * filterSubmissions
+ *
+ * Case-insensitive match of every word in `query` against the submission's
+ * id and display values (all columns, removed ones included).
+ */
+export function filterSubmissions(
+  submissions: StoredSubmission[],
+  columns: SubmissionColumn[],
+  query: string
+): StoredSubmission[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return submissions;
+
+  return submissions.filter((submission) => {
+    const text = [
+      submission.id,
+      ...columns.map((column) => formatSubmissionValue(column.field, submission.values[column.key])),
+    ]
+      .join("\n")
+      .toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+/**
+ * sortSubmissions
+ *
+ * Returns a sorted copy. Numbers compare numerically, text naturally
+ * ("item 2" < "item 10"), groups by item count.
+ */
+export function sortSubmissions(
+  submissions: StoredSubmission[],
+  columns: SubmissionColumn[],
+  sort: SubmissionSort
+): StoredSubmission[] {
+  const column = columns.find((c) => c.key === sort.column);
+  const sign = sort.direction === "asc" ? 1 : -1;
+
+  const sortValue = (submission: StoredSubmission): string | number | undefined => {
+    if (sort.column === null) return submission.receivedAtISO;
+    if (!column) return undefined;
+
+    const value = submission.values[column.key];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value === "number") return value;
+    if (typeof value === "boolean") return value ? 1 : 0;
+    if (Array.isArray(value)) return value.length;
+    return formatSubmissionValue(column.field, value);
+  };
+
+  return [...submissions].sort((a, b) => {
+    const left = sortValue(a);
+    const right = sortValue(b);
+
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+    if (typeof left === "number" && typeof right === "number") return sign * (left - right);
+    return sign * String(left).localeCompare(String(right), undefined, { numeric: true });
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/* Export                                                                     */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * exportSubmissions
+ *
+ * File contents for the given submissions:
+ * - csv: id, received time, then one column per SubmissionColumn
+ *   (removed ones suffixed " (removed)"); groups are JSON-encoded
+ * - ndjson: one stored record per line
+ * - json: an array of stored records
+ */
+export function exportSubmissions(
+  format: SubmissionExportFormat,
+  submissions: StoredSubmission[],
+  columns: SubmissionColumn[]
+): string {
+  switch (format) {
+    case "csv": {
+      const header = ["id", "receivedAt", ...columns.map((c) => (c.removed ? `${c.label} (removed)` : c.label))];
+      const rows = submissions.map((submission) => [
+        submission.id,
+        submission.receivedAtISO,
+        ...columns.map((column) => csvValue(submission.values[column.key])),
+      ]);
+      return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+    }
+
+    case "ndjson":
+      return submissions.map((submission) => JSON.stringify(submission)).join("\n") + "\n";
+
+    case "json":
+      return JSON.stringify(submissions, null, 2);
+
+    default:
+      return assertNever(format);
+  }
+}
+
+function csvValue(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  if (typeof value === "string") return neutralizeFormula(value);
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  return JSON.stringify(value);
+}
+
+/**
+ * Spreadsheets run cells starting with = + - @ as formulas; a leading
+ * apostrophe keeps submitted text as text.
+ */
+function neutralizeFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * RFC 4180 quoting: cells with commas, quotes or line breaks are quoted.
+ */
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
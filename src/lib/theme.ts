@@ -0,0 +1,263 @@
+// lib/theme.ts
+import type { FormDefinition, FormTheme, ThemeColors } from "./form-types";
+
+/**
+ * Form themes: built-in presets and the `--ffd-*` custom properties that
+ * exported CSS (generateCss) and the Preview both consume.
+ *
+ * Design note:
+ * - Every token maps to exactly one custom property; the stylesheet only
+ *   references variables, so a theme never needs its own CSS rules
+ * - Values are sanitized before they reach a stylesheet, so an imported
+ *   theme cannot break out of its declaration
+ */
+
+/* -------------------------------------------------------------------------- */
+/* Presets                                                                    */
+/* -------------------------------------------------------------------------- */
+
+const NEUTRAL_DARK: ThemeColors = {
+  primary: "#f9fafb",
+  primaryText: "#111827",
+  text: "#f9fafb",
+  muted: "#9ca3af",
+  background: "#111827",
+  surface: "#1f2937",
+  border: "#374151",
+  error: "#f87171",
+};
+
+/**
+ * DEFAULT_THEME
+ *
+ * The original hard-coded export look (Arial, near-black buttons, 8px radius).
+ * Used whenever a form has no theme.
+ */
+export const DEFAULT_THEME: FormTheme = {
+  preset: "classic",
+  mode: "light",
+  light: {
+    primary: "#111827",
+    primaryText: "#ffffff",
+    text: "#111827",
+    muted: "#4b5563",
+    background: "transparent",
+    surface: "#ffffff",
+    border: "#d1d5db",
+    error: "#b91c1c",
+  },
+  dark: NEUTRAL_DARK,
+  fontFamily: "Arial, sans-serif",
+  fontSize: 16,
+  spacing: 16,
+  radius: 8,
+};
+
+export type ThemePreset = {
+  id: string;
+  label: string;
+  theme: FormTheme;
+};
+
+export const THEME_PRESETS: ThemePreset[] = [
+  { id: "classic", label: "Classic", theme: DEFAULT_THEME },
+  {
+    id: "ocean",
+    label: "Ocean",
+    theme: {
+      preset: "ocean",
+      mode: "auto",
+      light: {
+        primary: "#0369a1",
+        primaryText: "#ffffff",
+        text: "#0f172a",
+        muted: "#475569",
+        background: "#f0f9ff",
+        surface: "#ffffff",
+        border: "#bae6fd",
+        error: "#be123c",
+      },
+      dark: {
+        primary: "#38bdf8",
+        primaryText: "#082f49",
+        text: "#e2e8f0",
+        muted: "#94a3b8",
+        background: "#0f172a",
+        surface: "#1e293b",
+        border: "#334155",
+        error: "#fb7185",
+      },
+      fontFamily: "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif",
+      fontSize: 16,
+      spacing: 18,
+      radius: 12,
+    },
+  },
+  {
+    id: "forest",
+    label: "Forest",
+    theme: {
+      preset: "forest",
+      mode: "light",
+      light: {
+        primary: "#166534",
+        primaryText: "#f0fdf4",
+        text: "#1c1917",
+        muted: "#57534e",
+        background: "#fafaf9",
+        surface: "#ffffff",
+        border: "#d6d3d1",
+        error: "#b91c1c",
+      },
+      dark: {
+        primary: "#4ade80",
+        primaryText: "#052e16",
+        text: "#f5f5f4",
+        muted: "#a8a29e",
+        background: "#1c1917",
+        surface: "#292524",
+        border: "#44403c",
+        error: "#f87171",
+      },
+      fontFamily: "Georgia, 'Times New Roman', serif",
+      fontSize: 17,
+      spacing: 18,
+      radius: 4,
+    },
+  },
+  {
+    id: "midnight",
+    label: "Midnight",
+    theme: {
+      preset: "midnight",
+      mode: "dark",
+      light: {
+        primary: "#6d28d9",
+        primaryText: "#ffffff",
+        text: "#1e1b4b",
+        muted: "#6b7280",
+        background: "#faf5ff",
+        surface: "#ffffff",
+        border: "#ddd6fe",
+        error: "#be123c",
+      },
+      dark: {
+        primary: "#a78bfa",
+        primaryText: "#1e1b4b",
+        text: "#ede9fe",
+        muted: "#a5b4fc",
+        background: "#1e1b4b",
+        surface: "#312e81",
+        border: "#4338ca",
+        error: "#fda4af",
+      },
+      fontFamily: "'Trebuchet MS', Helvetica, sans-serif",
+      fontSize: 16,
+      spacing: 16,
+      radius: 16,
+    },
+  },
+  {
+    id: "compact",
+    label: "Compact",
+    theme: {
+      preset: "compact",
+      mode: "light",
+      light: {
+        primary: "#1d4ed8",
+        primaryText: "#ffffff",
+        text: "#111827",
+        muted: "#6b7280",
+        background: "transparent",
+        surface: "#ffffff",
+        border: "#d1d5db",
+        error: "#dc2626",
+      },
+      dark: NEUTRAL_DARK,
+      fontFamily: "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif",
+      fontSize: 14,
+      spacing: 10,
+      radius: 4,
+    },
+  },
+];
+
+/**
+ * resolveTheme
+ *
+ * The theme a form renders with: its own, or DEFAULT_THEME.
+ */
+export function resolveTheme(form: Pick<FormDefinition, "theme">): FormTheme {
+  return form.theme ?? DEFAULT_THEME;
+}
+
+/* -------------------------------------------------------------------------- */
+/* Custom properties                                                          */
+/* -------------------------------------------------------------------------- */
+
+const COLOR_VARIABLE: Record<keyof ThemeColors, string> = {
+  primary: "--ffd-color-primary",
+  primaryText: "--ffd-color-primary-text",
+  text: "--ffd-color-text",
+  muted: "--ffd-color-muted",
+  background: "--ffd-color-background",
+  surface: "--ffd-color-surface",
+  border: "--ffd-color-border",
+  error: "--ffd-color-error",
+};
+
+/**
+ * Strips characters that could end a declaration or the surrounding
+ * `<style>` element (`;`, braces, angle brackets, backslashes, newlines).
+ */
+function cssValue(value: string): string {
+  return value.replace(/[;{}<>\\\r\n]/g, "").trim();
+}
+
+function colorVariables(colors: ThemeColors): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const key of Object.keys(COLOR_VARIABLE) as Array<keyof ThemeColors>) {
+    variables[COLOR_VARIABLE[key]] = cssValue(colors[key]);
+  }
+  return variables;
+}
+
+/**
+ * themeVariables
+ *
+ * Custom properties for one palette of the theme, plus typography and sizing.
+ * `dark` picks the dark palette (the caller resolves "auto").
+ */
+export function themeVariables(theme: FormTheme, dark: boolean): Record<string, string> {
+  return {
+    ...colorVariables(dark ? theme.dark : theme.light),
+    "--ffd-font-family": cssValue(theme.fontFamily) || "sans-serif",
+    "--ffd-font-size": `${theme.fontSize}px`,
+    "--ffd-space": `${theme.spacing}px`,
+    "--ffd-radius": `${theme.radius}px`,
+  };
+}
+
+/**
+ * themeCss
+ *
+ * Custom property declarations for `selector`. In "auto" mode the dark
+ * palette is added under `prefers-color-scheme: dark`.
+ */
+export function themeCss(theme: FormTheme, selector: string): string {
+  const declarations = (variables: Record<string, string>, indent: string) =>
+    Object.entries(variables)
+      .map(([name, value]) => `${indent}${name}: ${value};`)
+      .join("\n");
+
+  const base = `${selector} {\n${declarations(themeVariables(theme, theme.mode === "dark"), "  ")}\n}`;
+  if (theme.mode !== "auto") return base;
+
+  return `${base}
+
+@media (prefers-color-scheme: dark) {
+  ${selector} {
+${declarations(colorVariables(theme.dark), "    ")}
+  }
+}`;
+}
@@ -0,0 +1,169 @@
+// lib/validation-messages.ts
+import type { ChildField, Field, MessageRule } from "./form-types";
+import { assertNever } from "./form-types";
+
+/**
+ * User-facing validation messages.
+ *
+ * validateSubmission (which the Preview runs) and the code exporters build their error text
+ * from these functions, so an exported form reports exactly what the Preview
+ * showed (`Email is required.`, `Name must be at least 2 characters.`, ...).
+ *
+ * Design note:
+ * - Each message takes the field label first, then the rule's bound
+ * - Messages are full sentences ending in a period
+ * - A field's own `messages` override these per rule (see ruleMessage), which
+ *   is also how forms are localised
+ */
+export const validationMessages = {
+  required: (label: string) => `${label} is required.`,
+  type: (label: string) => `${label} has an invalid value.`,
+  unexpected: (label: string) => `${label} is not expected in this submission.`,
+
+  minLength: (label: string, min: number) => `${label} must be at least ${min} characters.`,
+  maxLength: (label: string, max: number) => `${label} must be at most ${max} characters.`,
+  pattern: (label: string) => `${label} format is invalid.`,
+  email: (label: string) => `${label} must be a valid email address.`,
+  date: (label: string) => `${label} must be a valid date.`,
+
+  number: (label: string) => `${label} must be a number.`,
+  integer: (label: string) => `${label} must be a whole number.`,
+  min: (label: string, min: number) => `${label} must be at least ${min}.`,
+  max: (label: string, max: number) => `${label} must be at most ${max}.`,
+
+  option: (label: string) => `${label} must be one of the listed options.`,
+
+  minItems: (label: string, min: number) => `${label} needs at least ${min} items.`,
+  maxItems: (label: string, max: number) => `${label} allows at most ${max} items.`,
+};
+
+/**
+ * MessageParams
+ *
+ * Values for a template's `{label}`, `{min}` and `{max}` placeholders.
+ */
+export type MessageParams = {
+  label: string;
+  min?: number;
+  max?: number;
+};
+
+/**
+ * messageParams
+ *
+ * Placeholder values for a field: its label plus the bounds of its type
+ * (length for text-like fields, value for numbers, item count for groups).
+ */
+export function messageParams(field: Field | ChildField): MessageParams {
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+      return { label: field.label, min: field.rules?.minLength, max: field.rules?.maxLength };
+    case "number":
+      return { label: field.label, min: field.rules?.min, max: field.rules?.max };
+    case "group":
+      return { label: field.label, min: field.rules?.minItems, max: field.rules?.maxItems };
+    case "date":
+    case "select":
+    case "checkbox":
+      return { label: field.label };
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * formatMessage
+ *
+ * Fills a template's placeholders. Placeholders without a value (e.g. `{max}`
+ * on a field without an upper bound) are left as written.
+ */
+export function formatMessage(template: string, params: MessageParams): string {
+  return template.replace(/\{(label|min|max)\}/g, (placeholder, key: keyof MessageParams) => {
+    const value = params[key];
+    return value === undefined ? placeholder : String(value);
+  });
+}
+
+/**
+ * defaultRuleMessage
+ *
+ * The built-in message for a rule, for a field with the given params.
+ */
+export function defaultRuleMessage(rule: MessageRule, params: MessageParams): string {
+  switch (rule) {
+    case "minLength":
+    case "min":
+    case "minItems":
+      return validationMessages[rule](params.label, params.min ?? 0);
+    case "maxLength":
+    case "max":
+    case "maxItems":
+      return validationMessages[rule](params.label, params.max ?? 0);
+    default:
+      return validationMessages[rule](params.label);
+  }
+}
+
+/**
+ * customRuleMessage
+ *
+ * The field's own message for `rule` with placeholders filled, or undefined
+ * when it has none (a blank template counts as none).
+ */
+export function customRuleMessage(field: Field | ChildField, rule: MessageRule): string | undefined {
+  const template = field.messages?.[rule];
+  return template?.trim() ? formatMessage(template, messageParams(field)) : undefined;
+}
+
+/**
+ * ruleMessage
+ *
+ * The message a field reports when `rule` fails: its custom one, else the
+ * built-in message.
+ */
+export function ruleMessage(field: Field | ChildField, rule: MessageRule): string {
+  return customRuleMessage(field, rule) ?? defaultRuleMessage(rule, messageParams(field));
+}
+
+/**
+ * messageRules
+ *
+ * The rules a field can currently fail, in validateSubmission's order (what
+ * the Studio offers custom messages for). `required` is included while the
+ * field is required or conditionally required.
+ */
+export function messageRules(field: Field | ChildField): MessageRule[] {
+  const rules: MessageRule[] = [];
+  if (field.required || field.requiredWhen) rules.push("required");
+
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+      if (field.type === "email") rules.push("email");
+      if (field.rules?.minLength != null) rules.push("minLength");
+      if (field.rules?.maxLength != null) rules.push("maxLength");
+      if (field.rules?.pattern) rules.push("pattern");
+      return rules;
+    case "number":
+      rules.push("number");
+      if (field.rules?.integer) rules.push("integer");
+      if (field.rules?.min != null) rules.push("min");
+      if (field.rules?.max != null) rules.push("max");
+      return rules;
+    case "date":
+      return [...rules, "date"];
+    case "select":
+      return [...rules, "option"];
+    case "checkbox":
+      return rules;
+    case "group":
+      if (field.rules?.minItems != null) rules.push("minItems");
+      if (field.rules?.maxItems != null) rules.push("maxItems");
+      return rules;
+    default:
+      return assertNever(field);
+  }
+}
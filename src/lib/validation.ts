@@ -0,0 +1,339 @@
+// lib/validation.ts
+import type { ChildField, Field, FormDefinition, GroupField, MessageRule } from "./form-types";
+import { assertNever } from "./form-types";
+import { isFieldRequired, isFieldVisible } from "./conditions";
+import type { FieldValues } from "./conditions";
+import { ruleMessage, validationMessages } from "./validation-messages";
+
+/**
+ * Submission validation: the single implementation of the form's rules.
+ *
+ * validateSubmission checks a submission body (the JSON a form posts) and
+ * accepts exactly what generateJsonSchema's schema accepts, with one typed
+ * error per failing field. The Preview runs it too, after buildSubmission has
+ * turned its input state into that body.
+ *
+ * Design note:
+ * - "Required" means the key is present, as in the schema: blank answers are
+ *   left out of the body by buildSubmission, so they count as missing
+ * - Checks run in a fixed order per field and only the first failure is
+ *   reported (required, type, format, length/range, pattern, option)
+ * - Error paths are field names, or `group.index.child` inside groups (the
+ *   same paths react-hook-form uses in the Preview)
+ * - Lengths count code points, like JSON Schema's minLength / maxLength
+ * - Patterns are Unicode regular expressions (`u` flag), as JSON Schema
+ *   validators compile them; blank or invalid ones are skipped
+ * - Email addresses are checked like the schema's `format: "email"` in
+ *   ajv-formats (a dotted domain is required)
+ * - Messages are the field's custom ones where set (ruleMessage)
+ */
+
+/**
+ * ValidationErrorCode
+ *
+ * Machine-readable reason for a field error:
+ * - type: wrong JSON type (e.g. a string for a checkbox)
+ * - unexpected: a key that is not a field, or a field hidden by its condition
+ * - option: a select value that is not one of its options
+ */
+export type ValidationErrorCode =
+  | "required"
+  | "type"
+  | "unexpected"
+  | "email"
+  | "date"
+  | "minLength"
+  | "maxLength"
+  | "pattern"
+  | "number"
+  | "integer"
+  | "min"
+  | "max"
+  | "option"
+  | "minItems"
+  | "maxItems";
+
+/**
+ * FieldError
+ *
+ * One failing field: its code plus the user-facing message.
+ */
+export type FieldError = {
+  code: ValidationErrorCode;
+  message: string;
+};
+
+/**
+ * SubmissionValidation
+ *
+ * `errors` is keyed by error path, in form order.
+ */
+export type SubmissionValidation = {
+  valid: boolean;
+  errors: Record<string, FieldError>;
+};
+
+/**
+ * EMAIL_REGEX
+ *
+ * ajv-formats' `email` format (its default, "full" mode), so submissions
+ * pass validateSubmission exactly when they pass the JSON Schema export. The
+ * code exporters emit it into generated validators too.
+ */
+export const EMAIL_REGEX =
+  /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/i;
+
+const DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * buildSubmission
+ *
+ * Turns input state (react-hook-form values) into a submission body:
+ * - fields hidden by their conditions are left out
+ * - blank text, date, select and number answers are left out
+ * - numbers become numbers (unparseable input stays a string, so it fails)
+ * - checkboxes stay booleans; groups keep their items, each converted alike
+ */
+export function buildSubmission(form: FormDefinition, values: FieldValues): FieldValues {
+  const all = convertAnswers(form.fields, values);
+
+  const body: FieldValues = {};
+  for (const field of form.fields) {
+    if (field.name in all && isFieldVisible(field, form.fields, all)) body[field.name] = all[field.name];
+  }
+  return body;
+}
+
+function convertAnswers(fields: (Field | ChildField)[], values: FieldValues): FieldValues {
+  const converted: FieldValues = {};
+  for (const field of fields) {
+    const value = convertAnswer(field, values[field.name]);
+    if (value !== undefined) converted[field.name] = value;
+  }
+  return converted;
+}
+
+function convertAnswer(field: Field | ChildField, value: unknown): unknown {
+  if (value === undefined || value === null) return undefined;
+
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email":
+    case "date":
+    case "select":
+      return value === "" ? undefined : value;
+
+    case "number": {
+      if (value === "") return undefined;
+      const n = Number(value);
+      return Number.isFinite(n) ? n : value;
+    }
+
+    case "checkbox":
+      return value === true;
+
+    case "group":
+      return Array.isArray(value)
+        ? value.map((item) => (isPlainObject(item) ? convertAnswers(field.fields, item) : item))
+        : value;
+
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * validateSubmission
+ *
+ * Validates a submission body against the form's rules and conditions.
+ *
+ * Conditions are evaluated on the body itself (like the schema's `if`
+ * clauses): hidden fields must be absent, and `requiredWhen` applies while
+ * its condition holds. Keys that are not fields are rejected.
+ */
+export function validateSubmission(form: FormDefinition, values: FieldValues): SubmissionValidation {
+  const errors: Record<string, FieldError> = {};
+  const names = new Set(form.fields.map((field) => field.name));
+
+  for (const field of form.fields) {
+    const present = field.name in values && values[field.name] !== undefined;
+
+    if (!isFieldVisible(field, form.fields, values)) {
+      if (present) errors[field.name] = fieldError("unexpected", field.label);
+      continue;
+    }
+
+    const required = isFieldRequired(field, form.fields, values);
+    validateField(field, values[field.name], required, field.name, errors);
+  }
+
+  for (const key of Object.keys(values)) {
+    if (!names.has(key) && values[key] !== undefined) errors[key] = fieldError("unexpected", key);
+  }
+
+  return { valid: Object.keys(errors).length === 0, errors };
+}
+
+/**
+ * Records the first error for one field (and, for groups, for each item's
+ * children) under `path`.
+ */
+function validateField(
+  field: Field | ChildField,
+  value: unknown,
+  required: boolean,
+  path: string,
+  errors: Record<string, FieldError>
+): void {
+  if (value === undefined) {
+    if (required) errors[path] = ruleError(field, "required");
+    return;
+  }
+
+  if (field.type === "group") {
+    if (!Array.isArray(value)) {
+      errors[path] = fieldError("type", field.label);
+      return;
+    }
+
+    const error = checkItemCount(field, value.length, required);
+    if (error) errors[path] = error;
+
+    value.forEach((item, index) => {
+      const itemPath = `${path}.${index}`;
+      if (!isPlainObject(item)) {
+        errors[itemPath] = fieldError("type", field.label);
+        return;
+      }
+
+      const childNames = new Set(field.fields.map((child) => child.name));
+      for (const child of field.fields) {
+        validateField(child, item[child.name], child.required === true, `${itemPath}.${child.name}`, errors);
+      }
+      for (const key of Object.keys(item)) {
+        if (!childNames.has(key) && item[key] !== undefined) errors[`${itemPath}.${key}`] = fieldError("unexpected", key);
+      }
+    });
+    return;
+  }
+
+  const error = checkValue(field, value, required);
+  if (error) errors[path] = error;
+}
+
+/**
+ * First failing rule for a present, non-group value (null when it passes).
+ */
+function checkValue(field: ChildField, value: unknown, required: boolean): FieldError | null {
+  const label = field.label;
+
+  switch (field.type) {
+    case "text":
+    case "textarea":
+    case "email": {
+      if (typeof value !== "string") return fieldError("type", label);
+
+      const rules = field.rules ?? {};
+      const length = Array.from(value).length;
+
+      if (field.type === "email" && !EMAIL_REGEX.test(value)) return ruleError(field, "email");
+      if (rules.minLength != null && length < rules.minLength) return ruleError(field, "minLength");
+      if (rules.maxLength != null && length > rules.maxLength) return ruleError(field, "maxLength");
+      if (rules.pattern && !matchesPattern(rules.pattern, value)) return ruleError(field, "pattern");
+      return null;
+    }
+
+    case "number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) return ruleError(field, "number");
+
+      const rules = field.rules ?? {};
+      if (rules.integer && !Number.isInteger(value)) return ruleError(field, "integer");
+      if (rules.min != null && value < rules.min) return ruleError(field, "min");
+      if (rules.max != null && value > rules.max) return ruleError(field, "max");
+      return null;
+    }
+
+    case "date":
+      if (typeof value !== "string") return fieldError("type", label);
+      return isValidDate(value) ? null : ruleError(field, "date");
+
+    case "select": {
+      if (typeof value !== "string") return fieldError("type", label);
+      const options = field.rules?.options ?? [];
+      return options.some((option) => option.value === value) ? null : ruleError(field, "option");
+    }
+
+    // A required checkbox must be ticked (the schema's `const: true`).
+    case "checkbox":
+      if (typeof value !== "boolean") return fieldError("type", label);
+      return required && !value ? ruleError(field, "required") : null;
+
+    default:
+      return assertNever(field);
+  }
+}
+
+/**
+ * Item-count rules for a group; a required group needs at least one item.
+ */
+function checkItemCount(field: GroupField, count: number, required: boolean): FieldError | null {
+  const rules = field.rules ?? {};
+  if (required && count === 0) return ruleError(field, "required");
+  if (rules.minItems != null && count < rules.minItems) return ruleError(field, "minItems");
+  if (rules.maxItems != null && count > rules.maxItems) return ruleError(field, "maxItems");
+  return null;
+}
+
+/**
+ * A FieldError for a failing rule, with the field's message for it.
+ */
+function ruleError(field: Field | ChildField, rule: MessageRule): FieldError {
+  return { code: rule, message: ruleMessage(field, rule) };
+}
+
+/**
+ * A FieldError for a malformed body (wrong type, unexpected key), which has
+ * no custom message.
+ */
+function fieldError(code: "type" | "unexpected", label: string): FieldError {
+  return { code, message: validationMessages[code](label) };
+}
+
+/**
+ * isValidPattern
+ *
+ * Whether a rule's pattern compiles with the `u` flag. Blank and invalid
+ * patterns are skipped by every validator and export rather than rejecting
+ * every answer (or emitting a module that throws on import).
+ */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, "u");
+    return pattern.trim() !== "";
+  } catch {
+    return false;
+  }
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  return !isValidPattern(pattern) || new RegExp(pattern, "u").test(value);
+}
+
+/**
+ * RFC 3339 full-date (`YYYY-MM-DD`, a real calendar day), the schema's
+ * `format: "date"`.
+ */
+function isValidDate(value: string): boolean {
+  const match = DATE_REGEX.exec(value);
+  if (!match) return false;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function isPlainObject(value: unknown): value is FieldValues {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
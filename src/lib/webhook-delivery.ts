@@ -0,0 +1,135 @@
+// lib/webhook-delivery.ts
+import { createHmac, randomUUID } from "node:crypto";
+import type { FormDefinition, FormWebhook } from "./form-types";
+import type { WebhookDeliveryAttempt, WebhookPayload } from "./webhooks";
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_MS,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  isRetryableStatus,
+  retryDelayMs,
+  signedContent,
+  webhookIssues,
+} from "./webhooks";
+import { appendDeliveryAttempt } from "./submission-store";
+
+/**
+ * Webhook delivery for the submission API (server only: uses node:crypto).
+ *
+ * Design note:
+ * - deliverWebhook resolves with the first attempt; retries run later on
+ *   timers in this process, so they stop with the server (the log then ends
+ *   with an attempt that has `nextRetryAtISO`)
+ * - Each attempt times out after WEBHOOK_TIMEOUT_MS; redirects are not followed
+ * - FFD_WEBHOOK_RETRY_BASE_MS overrides the backoff base, e.g. to exercise
+ *   retries against a local receiver without waiting
+ */
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+function retryBaseMs(): number {
+  const override = Number(process.env.FFD_WEBHOOK_RETRY_BASE_MS);
+  return Number.isFinite(override) && override >= 0 ? override : WEBHOOK_RETRY_BASE_MS;
+}
+
+/**
+ * signWebhook
+ *
+ * Value of the signature header: `sha256=<hex HMAC of "<timestamp>.<body>">`.
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(signedContent(timestamp, body)).digest("hex")}`;
+}
+
+/**
+ * deliverWebhook
+ *
+ * Sends the payload to the form's webhook (whether or not it is enabled;
+ * callers decide) and logs every attempt. Resolves to null, without
+ * sending, when the form has no usable webhook.
+ */
+export async function deliverWebhook(
+  form: FormDefinition,
+  payload: WebhookPayload
+): Promise<WebhookDeliveryAttempt | null> {
+  const webhook = form.webhook;
+  if (!webhook || webhookIssues(webhook).length > 0) return null;
+
+  return attemptDelivery(form.id, webhook, payload, JSON.stringify(payload), randomUUID(), 1);
+}
+
+async function attemptDelivery(
+  formId: string,
+  webhook: FormWebhook,
+  payload: WebhookPayload,
+  body: string,
+  deliveryId: string,
+  attempt: number
+): Promise<WebhookDeliveryAttempt> {
+  const started = Date.now();
+  const timestamp = String(Math.floor(started / 1000));
+  let status: number | null = null;
+  let error: string | undefined;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        ...Object.fromEntries(webhook.headers.map((header) => [header.name, header.value])),
+        "Content-Type": "application/json",
+        [WEBHOOK_EVENT_HEADER]: payload.event,
+        [WEBHOOK_DELIVERY_HEADER]: deliveryId,
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhook(webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    status = response.status;
+    await response.body?.cancel();
+  } catch (err) {
+    error = describeError(err);
+  }
+
+  const ok = status !== null && status >= 200 && status < 300;
+  const retry = !ok && attempt < WEBHOOK_MAX_ATTEMPTS && (status === null || isRetryableStatus(status));
+  const delay = retryDelayMs(attempt + 1, retryBaseMs());
+
+  const record: WebhookDeliveryAttempt = {
+    deliveryId,
+    event: payload.event,
+    submissionId: payload.submission.id,
+    attempt,
+    url: webhook.url,
+    atISO: new Date(started).toISOString(),
+    status,
+    ok,
+    durationMs: Date.now() - started,
+    ...(error ? { error } : {}),
+    ...(retry ? { nextRetryAtISO: new Date(Date.now() + delay).toISOString() } : {}),
+  };
+  await appendDeliveryAttempt(formId, record);
+
+  if (retry) {
+    setTimeout(() => {
+      attemptDelivery(formId, webhook, payload, body, deliveryId, attempt + 1).catch((err) => {
+        console.error(`Webhook retry for form "${formId}" failed to run:`, err);
+      });
+    }, delay);
+  }
+
+  return record;
+}
+
+/**
+ * fetch() failures wrap the useful reason ("ECONNREFUSED ...") in `cause`.
+ */
+function describeError(err: unknown): string {
+  if (!(err instanceof Error)) return String(err);
+  const cause = err.cause instanceof Error ? err.cause.message : "";
+  return cause ? `${err.message} (${cause})` : err.message;
+}
@@ -0,0 +1,167 @@
+// lib/webhooks.ts
+import type { FormDefinition, FormWebhook } from "./form-types";
+import type { StoredSubmission } from "./submission-api";
+import { exampleSubmission } from "./exporters/openapi";
+
+/**
+ * Webhook deliveries: payload shape, signing scheme and retry policy shared
+ * by the server (webhook-delivery.ts) and the Studio.
+ *
+ * Design note:
+ * - Every delivery is a JSON POST signed with HMAC-SHA256 over
+ *   `<timestamp>.<body>`; receivers recompute it with the form's secret and
+ *   should reject stale timestamps (replays)
+ * - Failed attempts (network errors, timeouts, 408, 429 and 5xx) are retried
+ *   with exponential backoff; other 4xx answers are final
+ * - Every attempt is logged (WebhookDeliveryAttempt) with its response code
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-FFD-Signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-FFD-Timestamp";
+export const WEBHOOK_EVENT_HEADER = "X-FFD-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-FFD-Delivery";
+
+/**
+ * WEBHOOK_MAX_ATTEMPTS / WEBHOOK_RETRY_BASE_MS
+ *
+ * Attempt n (1-based) waits WEBHOOK_RETRY_BASE_MS * 2^(n - 2) after the
+ * previous one: 1s, 2s, 4s, 8s.
+ */
+export const WEBHOOK_MAX_ATTEMPTS = 5;
+export const WEBHOOK_RETRY_BASE_MS = 1000;
+
+export type WebhookEvent = "submission.created" | "webhook.test";
+
+/**
+ * WebhookPayload
+ *
+ * JSON body of every delivery.
+ */
+export type WebhookPayload = {
+  event: WebhookEvent;
+  formId: string;
+  formTitle: string;
+  submission: StoredSubmission;
+};
+
+/**
+ * WebhookDeliveryAttempt
+ *
+ * One logged HTTP attempt. `deliveryId` groups the retries of one payload;
+ * `status` is null when no response arrived (see `error`).
+ */
+export type WebhookDeliveryAttempt = {
+  deliveryId: string;
+  event: WebhookEvent;
+  submissionId: string;
+  attempt: number;
+  url: string;
+  atISO: string;
+  status: number | null;
+  ok: boolean;
+  durationMs: number;
+  error?: string;
+  nextRetryAtISO?: string;
+};
+
+export const DEFAULT_WEBHOOK: FormWebhook = {
+  enabled: true,
+  url: "",
+  secret: "",
+  headers: [],
+};
+
+// RFC 9110 field-name token.
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+// Set by the delivery itself; user headers can't override them.
+const RESERVED_HEADERS = [
+  "content-type",
+  "content-length",
+  "host",
+  ...[WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER, WEBHOOK_EVENT_HEADER, WEBHOOK_DELIVERY_HEADER].map((h) =>
+    h.toLowerCase()
+  ),
+];
+
+/**
+ * webhookIssues
+ *
+ * What blocks delivery, as sentences (empty when the webhook can be used).
+ */
+export function webhookIssues(webhook: FormWebhook): string[] {
+  const issues: string[] = [];
+
+  let url: URL | null = null;
+  try {
+    url = new URL(webhook.url);
+  } catch {
+    // Reported below.
+  }
+  if (!url || (url.protocol !== "http:" && url.protocol !== "https:")) {
+    issues.push("The URL must be an absolute http:// or https:// address.");
+  }
+
+  if (webhook.secret.trim() === "") issues.push("A signing secret is required.");
+
+  webhook.headers.forEach((header, index) => {
+    const label = header.name || `Header ${index + 1}`;
+    if (!HEADER_NAME.test(header.name)) issues.push(`${label} is not a valid header name.`);
+    else if (RESERVED_HEADERS.includes(header.name.toLowerCase())) issues.push(`${label} is set by the delivery itself.`);
+  });
+
+  return issues;
+}
+
+/**
+ * signedContent
+ *
+ * The exact string that is signed: `<timestamp>.<raw JSON body>`.
+ */
+export function signedContent(timestamp: string, body: string): string {
+  return `${timestamp}.${body}`;
+}
+
+/**
+ * isRetryableStatus
+ *
+ * Answers worth retrying: timeouts, rate limits and server errors.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * retryDelayMs
+ *
+ * Wait before `attempt` (2-based; the first attempt is immediate).
+ */
+export function retryDelayMs(attempt: number, baseMs = WEBHOOK_RETRY_BASE_MS): number {
+  return baseMs * 2 ** Math.max(0, attempt - 2);
+}
+
+/**
+ * webhookTestPayload
+ *
+ * "webhook.test" payload whose submission is built from the form's fields
+ * (the OpenAPI export's complete example, or {} when the form has none).
+ */
+export function webhookTestPayload(form: FormDefinition, id: string, receivedAtISO: string): WebhookPayload {
+  return {
+    event: "webhook.test",
+    formId: form.id,
+    formTitle: form.title,
+    submission: { id, formId: form.id, receivedAtISO, values: exampleSubmission(form) ?? {} },
+  };
+}
+
+/**
+ * withoutWebhook
+ *
+ * The form minus its webhook settings (for exports that leave the app).
+ */
+export function withoutWebhook(form: FormDefinition): FormDefinition {
+  const copy = { ...form };
+  delete copy.webhook;
+  return copy;
+}